@@ -0,0 +1,13 @@
+// Jest stand-in for src/config/env.ts (import.meta is not available under ts-jest)
+export const env = {
+  MODE: 'test',
+  DEV: false,
+  PROD: false,
+  SSR: false,
+  BASE_URL: '/',
+  VITE_API_BASE_URL: 'http://localhost:3000/api',
+  VITE_API_TIMEOUT: '30000',
+  VITE_ENABLE_ANALYTICS: 'false',
+};
+
+export const isDevBuild = false;
@@ -0,0 +1,27 @@
+#!/bin/sh
+# Writes config.json next to the bundle from the container's VITE_* environment
+# variables, so one image can be promoted across environments without a rebuild.
+# The app reads it at startup (see src/config/appConfig.ts).
+set -eu
+
+CONFIG_FILE=/usr/share/nginx/html/config.json
+VARS=$(env | grep '^VITE_' | sort || true)
+
+if [ -z "$VARS" ]; then
+  echo "runtime-config: no VITE_* variables set, using build-time values"
+  exit 0
+fi
+
+{
+  printf '{'
+  echo "$VARS" | awk -F= '{
+    key = $1
+    value = substr($0, length(key) + 2)
+    gsub(/\\/, "\\\\", value)
+    gsub(/"/, "\\\"", value)
+    printf "%s\n  \"%s\": \"%s\"", (NR > 1 ? "," : ""), key, value
+  }'
+  printf '\n}\n'
+} > "$CONFIG_FILE"
+
+echo "runtime-config: wrote $CONFIG_FILE"
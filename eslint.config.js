@@ -47,6 +47,8 @@ export default tseslint.config(
       'react-refresh/only-export-components': ['warn', { allowConstantExport: true }],
       'prettier/prettier': 'error', // Report Prettier issues as ESLint errors
       '@typescript-eslint/no-unused-vars': ['warn', { argsIgnorePattern: '^_' }],
+      // Log through src/utils/logger.ts so output has levels and context
+      'no-console': 'warn',
     },
   },
 );
@@ -2,7 +2,8 @@ import type { Config } from 'jest';
 
 const config: Config = {
   preset: 'ts-jest',
-  testEnvironment: 'jsdom',
+  // jsdom with the Fetch API classes the data router needs
+  testEnvironment: '<rootDir>/jest.environment.ts',
 
   // Allow Jest to see files across src
   roots: ['<rootDir>/src'],
@@ -37,6 +38,11 @@ const config: Config = {
     '^@assets/(.*)$': '<rootDir>/src/assets/$1',
     '^@types/(.*)$': '<rootDir>/src/types/$1',
     '^@router/(.*)$': '<rootDir>/src/router/$1',
+    // import.meta is not available under ts-jest, so env comes from a stand-in
+    '^@config/env$': '<rootDir>/__mocks__/env.ts',
+    '^@config/(.*)$': '<rootDir>/src/config/$1',
+    '^@i18n/(.*)$': '<rootDir>/src/i18n/$1',
+    '^@mocks/(.*)$': '<rootDir>/src/mocks/$1',
   },
 
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json'],
@@ -0,0 +1,23 @@
+import { TestEnvironment } from 'jest-environment-jsdom';
+
+/**
+ * jsdom, plus the Fetch API classes react-router's data router uses for loaders and
+ * actions (`Request` and friends), which jsdom doesn't provide. Node's own are used;
+ * its `AbortController` and `URLSearchParams` come along, as its `Request` accepts
+ * only those as `signal` and form body. `structuredClone` too, which IndexedDB (faked
+ * in tests with fake-indexeddb) uses to store values.
+ */
+export default class JsdomWithFetchEnvironment extends TestEnvironment {
+  async setup() {
+    await super.setup();
+    Object.assign(this.global, {
+      Request,
+      Response,
+      Headers,
+      AbortController,
+      AbortSignal,
+      URLSearchParams,
+      structuredClone,
+    });
+  }
+}
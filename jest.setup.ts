@@ -4,3 +4,8 @@
 // This gives you access to assertions like .toBeInTheDocument(), .toHaveClass(), etc.
 // which make tests more readable and robust.
 import '@testing-library/jest-dom';
+import { TextDecoder, TextEncoder } from 'util';
+
+// jsdom doesn't provide TextEncoder/TextDecoder, which react-router needs.
+// Reuse Node's implementations.
+Object.assign(globalThis, { TextEncoder, TextDecoder });
@@ -1,12 +1,17 @@
-import { BrowserRouter } from 'react-router-dom';
+import OfflineNotice from '@components/common/OfflineNotice/OfflineNotice';
+import ToastContainer from '@components/common/Toast/ToastContainer';
+import UpdatePrompt from '@components/common/UpdatePrompt/UpdatePrompt';
 import AppRouter from '@router/AppRouter';
 
 function App() {
   return (
-    <BrowserRouter>
-      {/* You could add layout components like Header/Footer here */}
+    <>
+      {/* Header, Sidebar and Footer are rendered by AppLayout, the parent route in router/routeTree.tsx */}
       <AppRouter />
-    </BrowserRouter>
+      <ToastContainer />
+      <OfflineNotice />
+      <UpdatePrompt />
+    </>
   );
 }
 
@@ -1,5 +1,7 @@
 // src/components/Button/Button.test.tsx
+import { createRef } from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter, Link } from 'react-router-dom';
 import Button from './Button';
 import styles from './Button.module.scss';
 
@@ -13,7 +15,7 @@ describe('Button Component', () => {
   it('applies primary class by default', () => {
     render(<Button>Primary</Button>);
     const button = screen.getByRole('button', { name: /primary/i });
-    expect(button).toHaveClass(styles.button); // default is primary
+    expect(button).toHaveClass(styles.button, styles.buttonPrimary); // default is primary
   });
 
   it('applies secondary class when variant is secondary', () => {
@@ -35,4 +37,145 @@ describe('Button Component', () => {
     const button = screen.getByLabelText('custom-button');
     expect(button).toBeInTheDocument();
   });
+
+  it('renders children without padding text nodes', () => {
+    render(<Button>Save</Button>);
+    expect(screen.getByRole('button')).toHaveTextContent(/^Save$/);
+  });
+
+  it.each([
+    ['danger', styles.buttonDanger],
+    ['ghost', styles.buttonGhost],
+    ['link', styles.buttonLink],
+  ] as const)('applies the %s variant class', (variant, className) => {
+    render(<Button variant={variant}>Variant</Button>);
+    expect(screen.getByRole('button')).toHaveClass(className);
+  });
+
+  it('applies size and full width classes', () => {
+    render(
+      <Button size="large" fullWidth>
+        Large
+      </Button>,
+    );
+    const button = screen.getByRole('button');
+    expect(button).toHaveClass(styles.buttonLarge, styles.buttonFullWidth);
+    expect(button).not.toHaveClass(styles.buttonMedium);
+  });
+
+  it('defaults to type="button" but keeps an explicit type', () => {
+    render(
+      <>
+        <Button>Plain</Button>
+        <Button type="submit">Submit</Button>
+      </>,
+    );
+    expect(screen.getByRole('button', { name: 'Plain' })).toHaveAttribute('type', 'button');
+    expect(screen.getByRole('button', { name: 'Submit' })).toHaveAttribute('type', 'submit');
+  });
+
+  it('renders icons on both sides, hidden from assistive technology', () => {
+    render(
+      <Button leftIcon={<svg data-testid="left" />} rightIcon={<svg data-testid="right" />}>
+        Next
+      </Button>,
+    );
+    const button = screen.getByRole('button', { name: 'Next' });
+    const [left, right] = [screen.getByTestId('left'), screen.getByTestId('right')];
+
+    expect(button.firstElementChild).toContainElement(left);
+    expect(button.lastElementChild).toContainElement(right);
+    expect(left.parentElement).toHaveAttribute('aria-hidden', 'true');
+  });
+
+  describe('loading', () => {
+    it('shows a spinner in place of the left icon and marks the button busy', () => {
+      const handleClick = jest.fn();
+      render(
+        <Button loading leftIcon={<svg data-testid="left" />} onClick={handleClick}>
+          Save
+        </Button>,
+      );
+      const button = screen.getByRole('button', { name: 'Save' });
+
+      expect(button).toHaveAttribute('aria-busy', 'true');
+      expect(button).toBeDisabled();
+      expect(button).toHaveClass(styles.buttonLoading);
+      expect(screen.queryByTestId('left')).not.toBeInTheDocument();
+      expect(screen.getByRole('status', { hidden: true })).toBeInTheDocument();
+
+      fireEvent.click(button);
+      expect(handleClick).not.toHaveBeenCalled();
+    });
+
+    it('is not busy by default', () => {
+      render(<Button>Save</Button>);
+      expect(screen.getByRole('button')).not.toHaveAttribute('aria-busy');
+    });
+  });
+
+  describe('polymorphism', () => {
+    it('renders another element or component with "as"', () => {
+      render(
+        <MemoryRouter>
+          <Button as={Link} to="/login" variant="secondary">
+            Sign in
+          </Button>
+        </MemoryRouter>,
+      );
+      const link = screen.getByRole('link', { name: 'Sign in' });
+
+      expect(link).toHaveAttribute('href', '/login');
+      expect(link).toHaveClass(styles.button, styles.buttonSecondary);
+      expect(link).not.toHaveAttribute('type');
+    });
+
+    it('merges its props into the child with "asChild"', () => {
+      render(
+        <MemoryRouter>
+          <Button asChild size="small" rightIcon={<svg data-testid="arrow" />}>
+            <Link to="/docs" className="custom">
+              Docs
+            </Link>
+          </Button>
+        </MemoryRouter>,
+      );
+      const link = screen.getByRole('link', { name: 'Docs' });
+
+      expect(link).toHaveAttribute('href', '/docs');
+      expect(link).toHaveClass(styles.button, styles.buttonSmall, 'custom');
+      expect(link).toContainElement(screen.getByTestId('arrow'));
+    });
+
+    it('blocks navigation and sets aria-disabled on disabled links', () => {
+      const handleClick = jest.fn();
+      render(
+        <Button as="a" href="/somewhere" disabled onClick={handleClick}>
+          Go
+        </Button>,
+      );
+      const link = screen.getByRole('link', { name: 'Go' });
+
+      expect(link).toHaveAttribute('aria-disabled', 'true');
+      expect(link).not.toHaveAttribute('disabled');
+      expect(fireEvent.click(link)).toBe(false); // default prevented
+      expect(handleClick).not.toHaveBeenCalled();
+    });
+  });
+
+  it('forwards refs to the rendered element', () => {
+    const buttonRef = createRef<HTMLButtonElement>();
+    const linkRef = createRef<HTMLAnchorElement>();
+    render(
+      <>
+        <Button ref={buttonRef}>Button</Button>
+        <Button as="a" href="/" ref={linkRef}>
+          Link
+        </Button>
+      </>,
+    );
+
+    expect(buttonRef.current).toBe(screen.getByRole('button'));
+    expect(linkRef.current).toBe(screen.getByRole('link'));
+  });
 });
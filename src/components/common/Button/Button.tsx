@@ -1,18 +1,166 @@
 import React from 'react';
+import Spinner from '@components/common/Spinner/Spinner';
 import styles from './Button.module.scss';
-interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
+
+export type ButtonVariant = 'primary' | 'secondary' | 'danger' | 'ghost' | 'link';
+export type ButtonSize = 'small' | 'medium' | 'large';
+
+interface ButtonOwnProps {
   children: React.ReactNode;
-  variant?: 'primary' | 'secondary';
+  variant?: ButtonVariant;
+  size?: ButtonSize;
+  /** Shows a spinner, sets `aria-busy` and blocks clicks until the action finishes */
+  loading?: boolean;
+  leftIcon?: React.ReactNode;
+  rightIcon?: React.ReactNode;
+  /** Stretches the button to the width of its container */
+  fullWidth?: boolean;
+  /** Renders the single child element (e.g. a router `Link`) with the button's styles */
+  asChild?: boolean;
+  disabled?: boolean;
+  className?: string;
 }
 
-const Button: React.FC<ButtonProps> = ({ children, variant = 'primary', ...props }) => {
-  const buttonClass = variant === 'secondary' ? styles.buttonSecondary : styles.button;
-  return (
-    <button className={buttonClass} {...props}>
-      {' '}
-      {children}{' '}
-    </button>
-  );
+/** Props for `Button`; `as` swaps the rendered element, e.g. `as={Link}` */
+export type ButtonProps<C extends React.ElementType = 'button'> = ButtonOwnProps & {
+  as?: C;
+} & Omit<React.ComponentPropsWithoutRef<C>, keyof ButtonOwnProps | 'as'>;
+
+// What the implementation sees; callers get the typed `ButtonProps<C>`
+type ButtonImplProps = ButtonOwnProps & {
+  as?: React.ElementType;
+} & Omit<React.ButtonHTMLAttributes<HTMLElement>, keyof ButtonOwnProps>;
+
+type PolymorphicButton = <C extends React.ElementType = 'button'>(
+  props: ButtonProps<C> & { ref?: React.Ref<Element> },
+) => React.ReactElement | null;
+
+const variantClasses: Record<ButtonVariant, string> = {
+  primary: styles.buttonPrimary,
+  secondary: styles.buttonSecondary,
+  danger: styles.buttonDanger,
+  ghost: styles.buttonGhost,
+  link: styles.buttonLink,
+};
+
+const sizeClasses: Record<ButtonSize, string> = {
+  small: styles.buttonSmall,
+  medium: styles.buttonMedium,
+  large: styles.buttonLarge,
 };
 
+// Passes its props (including the ref) on to its only child, for `asChild`
+const Slot: React.FC<{ children: React.ReactElement } & Record<string, unknown>> = ({
+  children,
+  ...props
+}) => React.cloneElement(children, props);
+
+/**
+ * Accessible button with variants, sizes, icons and a loading state.
+ *
+ * @example
+ * <Button loading={isSaving} leftIcon={<FiSave />}>Save</Button>
+ * <Button as={Link} to="/login" variant="secondary">Sign in</Button>
+ * <Button asChild><a href="/docs">Docs</a></Button>
+ */
+const Button = React.forwardRef<Element, ButtonImplProps>(
+  (
+    {
+      as,
+      asChild = false,
+      children,
+      variant = 'primary',
+      size = 'medium',
+      loading = false,
+      leftIcon,
+      rightIcon,
+      fullWidth = false,
+      disabled = false,
+      className,
+      onClick,
+      ...props
+    },
+    ref,
+  ) => {
+    const Component: React.ElementType = as ?? 'button';
+    const isNativeButton = !asChild && Component === 'button';
+    const isInactive = disabled || loading;
+
+    const classes = [
+      styles.button,
+      variantClasses[variant],
+      sizeClasses[size],
+      fullWidth && styles.buttonFullWidth,
+      loading && styles.buttonLoading,
+      className,
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    const renderContent = (label: React.ReactNode) => (
+      <>
+        {loading ? (
+          <span className={styles.button__spinner} aria-hidden="true">
+            <Spinner size="small" />
+          </span>
+        ) : (
+          leftIcon && (
+            <span className={styles.button__icon} aria-hidden="true">
+              {leftIcon}
+            </span>
+          )
+        )}
+        {label}
+        {rightIcon && (
+          <span className={styles.button__icon} aria-hidden="true">
+            {rightIcon}
+          </span>
+        )}
+      </>
+    );
+
+    // Links and other elements have no `disabled`, so clicks are blocked by hand
+    const handleClick = (event: React.MouseEvent<HTMLElement>) => {
+      if (isInactive) {
+        event.preventDefault();
+        return;
+      }
+      onClick?.(event);
+    };
+
+    const sharedProps = {
+      ...props,
+      ref,
+      onClick: handleClick,
+      'aria-busy': loading || undefined,
+      ...(isNativeButton
+        ? { type: props.type ?? 'button', disabled: isInactive }
+        : { 'aria-disabled': isInactive || undefined }),
+    };
+
+    if (asChild) {
+      const child = React.Children.only(children) as React.ReactElement<{
+        className?: string;
+        children?: React.ReactNode;
+      }>;
+      return (
+        <Slot
+          {...sharedProps}
+          className={[classes, child.props.className].filter(Boolean).join(' ')}
+        >
+          {React.cloneElement(child, undefined, renderContent(child.props.children))}
+        </Slot>
+      );
+    }
+
+    return (
+      <Component {...sharedProps} className={classes}>
+        {renderContent(children)}
+      </Component>
+    );
+  },
+) as PolymorphicButton & { displayName?: string };
+
+Button.displayName = 'Button';
+
 export default Button;
@@ -0,0 +1,249 @@
+// src/components/common/DataTable/DataTable.test.tsx
+import { useState } from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { STATUS } from '@constants/index';
+import type { ApiError } from '@utils/apiError';
+import DataTable from './DataTable';
+import type { Column } from './dataTable';
+import I18nProvider from '@i18n/I18nProvider';
+
+interface User {
+  id: string;
+  name: string;
+  age: number;
+}
+
+const users: User[] = [
+  { id: '1', name: 'Carol', age: 41 },
+  { id: '2', name: 'alice', age: 29 },
+  { id: '3', name: 'Bob', age: 35 },
+];
+
+const columns: Column<User>[] = [
+  { key: 'name', header: 'Name', sortable: true },
+  { key: 'age', header: 'Age', sortable: true, align: 'end' },
+];
+
+const getRowId = (user: User) => user.id;
+
+// First cell of every body row
+const names = () =>
+  screen
+    .getAllByRole('row')
+    .slice(1)
+    .map((row) => within(row).getAllByRole('cell')[0].textContent);
+
+const SelectableTable = () => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  return (
+    <DataTable
+      caption="Users"
+      columns={columns}
+      rows={users}
+      getRowId={getRowId}
+      selectedIds={selectedIds}
+      onSelectionChange={setSelectedIds}
+    />
+  );
+};
+
+const serverError: ApiError = {
+  name: 'ApiError',
+  kind: 'server',
+  status: 503,
+  message: 'Server unavailable',
+};
+
+describe('DataTable', () => {
+  test('renders a captioned table with a row per item', () => {
+    render(<DataTable caption="Users" columns={columns} rows={users} getRowId={getRowId} />, {
+      wrapper: I18nProvider,
+    });
+
+    expect(screen.getByRole('table', { name: 'Users' })).toBeInTheDocument();
+    expect(screen.getAllByRole('columnheader')).toHaveLength(2);
+    expect(names()).toEqual(['Carol', 'alice', 'Bob']);
+  });
+
+  test('cycles a sortable column through ascending, descending and unsorted', () => {
+    render(<DataTable caption="Users" columns={columns} rows={users} getRowId={getRowId} />, {
+      wrapper: I18nProvider,
+    });
+    const header = screen.getByRole('columnheader', { name: /Name/ });
+    const button = within(header).getByRole('button');
+
+    expect(header).toHaveAttribute('aria-sort', 'none');
+
+    fireEvent.click(button);
+    expect(header).toHaveAttribute('aria-sort', 'ascending');
+    expect(names()).toEqual(['alice', 'Bob', 'Carol']);
+
+    fireEvent.click(button);
+    expect(header).toHaveAttribute('aria-sort', 'descending');
+    expect(names()).toEqual(['Carol', 'Bob', 'alice']);
+
+    fireEvent.click(button);
+    expect(header).toHaveAttribute('aria-sort', 'none');
+    expect(names()).toEqual(['Carol', 'alice', 'Bob']);
+  });
+
+  test('filters rows by any column and says when nothing matches', () => {
+    render(
+      <DataTable caption="Users" columns={columns} rows={users} getRowId={getRowId} filterable />,
+      { wrapper: I18nProvider },
+    );
+    const filter = screen.getByRole('searchbox', { name: 'Filter Users' });
+
+    fireEvent.change(filter, { target: { value: 'AL' } });
+    expect(names()).toEqual(['alice']);
+
+    fireEvent.change(filter, { target: { value: 'zed' } });
+    expect(screen.getByText('No rows match "zed"')).toBeInTheDocument();
+  });
+
+  test('pages through rows', () => {
+    const many = Array.from({ length: 25 }, (_, index) => ({
+      id: String(index + 1),
+      name: `User ${index + 1}`,
+      age: 20 + index,
+    }));
+    render(<DataTable caption="Users" columns={columns} rows={many} getRowId={getRowId} />, {
+      wrapper: I18nProvider,
+    });
+
+    expect(screen.getByText('Page 1 of 2 (25 rows)')).toBeInTheDocument();
+    expect(names()).toHaveLength(20);
+    expect(screen.getByRole('button', { name: 'Previous' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    expect(screen.getByText('Page 2 of 2 (25 rows)')).toBeInTheDocument();
+    expect(names()).toEqual(['User 21', 'User 22', 'User 23', 'User 24', 'User 25']);
+    expect(screen.getByRole('button', { name: 'Next' })).toBeDisabled();
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Rows per page' }), {
+      target: { value: '50' },
+    });
+    expect(screen.getByText('Page 1 of 1 (25 rows)')).toBeInTheDocument();
+    expect(names()).toHaveLength(25);
+  });
+
+  test('selects single rows and all rows', () => {
+    render(<SelectableTable />, { wrapper: I18nProvider });
+    const selectAll = screen.getByRole('checkbox', { name: 'Select all rows' });
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Select row 2' }));
+    expect(screen.getByRole('checkbox', { name: 'Select row 2' })).toBeChecked();
+    expect(selectAll).not.toBeChecked();
+    expect(selectAll).toHaveProperty('indeterminate', true);
+
+    fireEvent.click(selectAll);
+    expect(selectAll).toBeChecked();
+    expect(selectAll).toHaveProperty('indeterminate', false);
+    expect(screen.getAllByRole('checkbox', { checked: true })).toHaveLength(4);
+
+    fireEvent.click(selectAll);
+    expect(screen.queryAllByRole('checkbox', { checked: true })).toHaveLength(0);
+  });
+
+  test('shows loading, empty and error states', () => {
+    const onRetry = jest.fn();
+    const { rerender } = render(
+      <DataTable
+        caption="Users"
+        columns={columns}
+        rows={[]}
+        getRowId={getRowId}
+        status={STATUS.LOADING}
+      />,
+      { wrapper: I18nProvider },
+    );
+    expect(screen.getByRole('table')).toHaveAttribute('aria-busy', 'true');
+    expect(screen.getByRole('status', { name: 'Loading rows' })).toBeInTheDocument();
+
+    rerender(
+      <DataTable
+        caption="Users"
+        columns={columns}
+        rows={[]}
+        getRowId={getRowId}
+        emptyMessage="No users yet"
+      />,
+    );
+    expect(screen.getByText('No users yet')).toBeInTheDocument();
+
+    rerender(
+      <DataTable
+        caption="Users"
+        columns={columns}
+        rows={[]}
+        getRowId={getRowId}
+        status={STATUS.ERROR}
+        error={serverError}
+        onRetry={onRetry}
+      />,
+    );
+    expect(screen.getByRole('alert')).toHaveTextContent('Server unavailable');
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+
+  test('renders only the visible window of a virtualized table', () => {
+    const many = Array.from({ length: 10_000 }, (_, index) => ({
+      id: String(index),
+      name: `User ${index}`,
+      age: index,
+    }));
+    render(
+      <DataTable
+        caption="Users"
+        columns={columns}
+        rows={many}
+        getRowId={getRowId}
+        pageSize={null}
+        virtualized
+        height={440}
+        rowHeight={44}
+      />,
+      { wrapper: I18nProvider },
+    );
+    const table = screen.getByRole('table');
+
+    expect(table).toHaveAttribute('aria-rowcount', '10001');
+    expect(names().length).toBeLessThan(50);
+    expect(names()[0]).toBe('User 0');
+
+    const scroller = table.parentElement as HTMLElement;
+    scroller.scrollTop = 44 * 5000;
+    fireEvent.scroll(scroller);
+
+    expect(screen.getByText('User 5000')).toBeInTheDocument();
+    expect(screen.queryByText('User 0')).not.toBeInTheDocument();
+    expect(screen.getByText('User 5000').closest('tr')).toHaveAttribute('aria-rowindex', '5002');
+  });
+
+  test('hands sorting to the caller in server mode', () => {
+    const onSortChange = jest.fn();
+    render(
+      <DataTable
+        mode="server"
+        caption="Users"
+        columns={columns}
+        rows={users}
+        getRowId={getRowId}
+        sort={{ key: 'age', direction: 'asc' }}
+        onSortChange={onSortChange}
+      />,
+      { wrapper: I18nProvider },
+    );
+
+    expect(screen.getByRole('columnheader', { name: /Age/ })).toHaveAttribute(
+      'aria-sort',
+      'ascending',
+    );
+    // Rows are shown as given; the server already sorted them
+    expect(names()).toEqual(['Carol', 'alice', 'Bob']);
+
+    fireEvent.click(within(screen.getByRole('columnheader', { name: /Age/ })).getByRole('button'));
+    expect(onSortChange).toHaveBeenCalledWith({ key: 'age', direction: 'desc' });
+  });
+});
@@ -0,0 +1,337 @@
+import React, { useState } from 'react';
+import Button from '@components/common/Button/Button';
+import Spinner from '@components/common/Spinner/Spinner';
+import { DATA_TABLE, STATUS } from '@constants/index';
+import type { PaginationState, SortState } from '@hooks/usePaginatedList';
+import { useTranslation } from '@hooks/useTranslation';
+import type { ApiError } from '@utils/apiError';
+import type { QueryStatus } from '@utils/queryCache';
+import Pagination from './Pagination';
+import { getCellValue, toggleSort, type Column } from './dataTable';
+import { useClientTable } from './useClientTable';
+import styles from './DataTable.module.scss';
+
+interface CommonProps<T> {
+  columns: Column<T>[];
+  rows: T[];
+  getRowId: (row: T) => string;
+  /** Accessible name of the table */
+  caption: string;
+  /** Keeps the caption for screen readers only */
+  hideCaption?: boolean;
+  /** Defaults to success, i.e. `rows` is the data to show */
+  status?: QueryStatus;
+  error?: ApiError | null;
+  onRetry?: () => void;
+  emptyMessage?: React.ReactNode;
+  /** Shows a text filter above the table */
+  filterable?: boolean;
+  /** Makes rows selectable with checkboxes */
+  selectedIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
+  /**
+   * Renders only the rows in view, for thousands of rows. Rows get a fixed height
+   * (`rowHeight`) and the table scrolls inside a box `height` pixels tall.
+   */
+  virtualized?: boolean;
+  height?: number;
+  rowHeight?: number;
+}
+
+/** Everything happens in the browser on the full `rows` */
+interface ClientProps<T> extends CommonProps<T> {
+  mode?: 'client';
+  /** Rows per page, or `null` for no pagination */
+  pageSize?: number | null;
+  initialSort?: SortState;
+}
+
+/** `rows` is the current page; sort, filter and paging are handed to the server */
+interface ServerProps<T> extends CommonProps<T> {
+  mode: 'server';
+  sort: SortState;
+  onSortChange: (sort: SortState) => void;
+  filter?: string;
+  onFilterChange?: (filter: string) => void;
+  pagination?: PaginationState;
+}
+
+export type DataTableProps<T> = ClientProps<T> | ServerProps<T>;
+
+const alignClasses = {
+  start: undefined,
+  center: styles.dataTableCellCenter,
+  end: styles.dataTableCellEnd,
+};
+
+const ariaSort = (sort: SortState, key: string) => {
+  if (sort?.key !== key) return 'none';
+  return sort.direction === 'asc' ? 'ascending' : 'descending';
+};
+
+const formatCell = (value: unknown): React.ReactNode => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toLocaleDateString();
+  return String(value);
+};
+
+/**
+ * Generic, typed table with sorting, filtering, pagination, row selection and
+ * optional virtualization.
+ *
+ * In `client` mode (the default) it sorts, filters and pages `rows` itself. In
+ * `server` mode `rows` is one page and changes are reported through callbacks;
+ * `usePaginatedList` provides all of them.
+ *
+ * @example
+ * <DataTable
+ *   caption="Users"
+ *   columns={[{ key: 'name', header: 'Name', sortable: true }, { key: 'email', header: 'Email' }]}
+ *   rows={users}
+ *   getRowId={(user) => user.id}
+ *   filterable
+ * />
+ */
+const DataTable = <T,>(props: DataTableProps<T>) => {
+  const {
+    columns,
+    rows,
+    getRowId,
+    caption,
+    hideCaption = false,
+    status = STATUS.SUCCESS,
+    error = null,
+    onRetry,
+    emptyMessage,
+    filterable = false,
+    selectedIds,
+    onSelectionChange,
+    virtualized = false,
+    height = 480,
+    rowHeight = DATA_TABLE.ROW_HEIGHT,
+  } = props;
+
+  const isServer = props.mode === 'server';
+  const client = useClientTable(rows, columns, {
+    pageSize: isServer
+      ? null
+      : props.pageSize === undefined
+        ? DATA_TABLE.PAGE_SIZE
+        : props.pageSize,
+    initialSort: isServer ? null : (props.initialSort ?? null),
+  });
+  const [scrollTop, setScrollTop] = useState(0);
+  const { t } = useTranslation();
+
+  const view = isServer
+    ? {
+        rows,
+        sort: props.sort,
+        setSort: props.onSortChange,
+        filter: props.filter ?? '',
+        setFilter: props.onFilterChange,
+        pagination: props.pagination,
+      }
+    : client;
+
+  const isLoading = status === STATUS.LOADING;
+  const isError = status === STATUS.ERROR;
+  const isSelectable = Boolean(onSelectionChange);
+  const selected = new Set(selectedIds);
+  const columnCount = columns.length + (isSelectable ? 1 : 0);
+
+  // === Virtualization ===
+  const total = view.rows.length;
+  const start = virtualized
+    ? Math.max(0, Math.floor(scrollTop / rowHeight) - DATA_TABLE.OVERSCAN)
+    : 0;
+  const end = virtualized
+    ? Math.min(total, start + Math.ceil(height / rowHeight) + DATA_TABLE.OVERSCAN * 2)
+    : total;
+  const visibleRows = view.rows.slice(start, end);
+
+  // === Selection ===
+  const rowIds = view.rows.map(getRowId);
+  const selectedCount = rowIds.filter((id) => selected.has(id)).length;
+  const allSelected = rowIds.length > 0 && selectedCount === rowIds.length;
+
+  const toggleAll = () => {
+    const next = new Set(selected);
+    rowIds.forEach((id) => (allSelected ? next.delete(id) : next.add(id)));
+    onSelectionChange?.(Array.from(next));
+  };
+
+  const toggleRow = (id: string) => {
+    const next = new Set(selected);
+    if (!next.delete(id)) next.add(id);
+    onSelectionChange?.(Array.from(next));
+  };
+
+  // === States ===
+  const renderStateRow = () => {
+    if (isError) {
+      return (
+        <div className={styles.dataTable__state} role="alert">
+          <p>{error?.message ?? t('dataTable.loadFailed')}</p>
+          {onRetry && (
+            <Button variant="secondary" size="small" onClick={onRetry}>
+              {t('dataTable.retry')}
+            </Button>
+          )}
+        </div>
+      );
+    }
+    if (isLoading) {
+      return (
+        <div className={styles.dataTable__state}>
+          <Spinner size="small" label={t('dataTable.loading')} />
+        </div>
+      );
+    }
+    return (
+      <div className={styles.dataTable__state}>
+        {view.filter
+          ? t('dataTable.noMatches', { filter: view.filter })
+          : (emptyMessage ?? t('dataTable.empty'))}
+      </div>
+    );
+  };
+
+  const showStateRow = isError || total === 0;
+
+  return (
+    <div className={styles.dataTable}>
+      {filterable && view.setFilter && (
+        <div className={styles.dataTable__toolbar}>
+          <input
+            type="search"
+            className={styles.dataTable__filter}
+            aria-label={t('dataTable.filter.label', { caption })}
+            placeholder={t('dataTable.filter.placeholder')}
+            value={view.filter}
+            onChange={(event) => view.setFilter?.(event.target.value)}
+          />
+          {isSelectable && selected.size > 0 && (
+            <p className={styles.dataTable__selection} aria-live="polite">
+              {t('dataTable.selected', { count: selected.size })}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div
+        className={styles.dataTable__scroll}
+        style={virtualized ? { height } : undefined}
+        onScroll={virtualized ? (event) => setScrollTop(event.currentTarget.scrollTop) : undefined}
+      >
+        <table
+          className={[styles.dataTable__table, isLoading && total > 0 && styles.dataTableBusy]
+            .filter(Boolean)
+            .join(' ')}
+          aria-busy={isLoading || undefined}
+          aria-rowcount={virtualized ? total + 1 : undefined}
+        >
+          <caption
+            className={hideCaption ? styles.dataTableCaptionHidden : styles.dataTable__caption}
+          >
+            {caption}
+          </caption>
+          <thead>
+            <tr aria-rowindex={virtualized ? 1 : undefined}>
+              {isSelectable && (
+                <th scope="col" className={styles.dataTableCheckboxCell}>
+                  <input
+                    type="checkbox"
+                    aria-label={t('dataTable.selectAll')}
+                    checked={allSelected}
+                    ref={(input) => {
+                      if (input) input.indeterminate = selectedCount > 0 && !allSelected;
+                    }}
+                    disabled={rowIds.length === 0}
+                    onChange={toggleAll}
+                  />
+                </th>
+              )}
+              {columns.map((column) => (
+                <th
+                  key={column.key}
+                  scope="col"
+                  style={column.width ? { width: column.width } : undefined}
+                  className={alignClasses[column.align ?? 'start']}
+                  aria-sort={column.sortable ? ariaSort(view.sort, column.key) : undefined}
+                >
+                  {column.sortable ? (
+                    <button
+                      type="button"
+                      className={styles.dataTableSortButton}
+                      onClick={() => view.setSort(toggleSort(view.sort, column.key))}
+                    >
+                      {column.header}
+                      <span className={styles.dataTableSortIcon} aria-hidden="true">
+                        {view.sort?.key === column.key
+                          ? view.sort.direction === 'asc'
+                            ? '▲'
+                            : '▼'
+                          : '↕'}
+                      </span>
+                    </button>
+                  ) : (
+                    column.header
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {showStateRow ? (
+              <tr>
+                <td colSpan={columnCount}>{renderStateRow()}</td>
+              </tr>
+            ) : (
+              <>
+                {start > 0 && <tr aria-hidden="true" style={{ height: start * rowHeight }} />}
+                {visibleRows.map((row, index) => {
+                  const id = getRowId(row);
+                  const isSelected = selected.has(id);
+                  return (
+                    <tr
+                      key={id}
+                      aria-rowindex={virtualized ? start + index + 2 : undefined}
+                      className={isSelected ? styles.dataTableRowSelected : undefined}
+                      style={virtualized ? { height: rowHeight } : undefined}
+                    >
+                      {isSelectable && (
+                        <td className={styles.dataTableCheckboxCell}>
+                          <input
+                            type="checkbox"
+                            aria-label={t('dataTable.selectRow', { id })}
+                            checked={isSelected}
+                            onChange={() => toggleRow(id)}
+                          />
+                        </td>
+                      )}
+                      {columns.map((column) => (
+                        <td key={column.key} className={alignClasses[column.align ?? 'start']}>
+                          {column.render
+                            ? column.render(row)
+                            : formatCell(getCellValue(row, column))}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+                {end < total && (
+                  <tr aria-hidden="true" style={{ height: (total - end) * rowHeight }} />
+                )}
+              </>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {view.pagination && <Pagination pagination={view.pagination} disabled={isLoading} />}
+    </div>
+  );
+};
+
+export default DataTable;
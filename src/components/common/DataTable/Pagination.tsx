@@ -0,0 +1,63 @@
+import React from 'react';
+import Button from '@components/common/Button/Button';
+import { DATA_TABLE } from '@constants/index';
+import type { PaginationState } from '@hooks/usePaginatedList';
+import { useTranslation } from '@hooks/useTranslation';
+import styles from './DataTable.module.scss';
+
+interface PaginationProps {
+  pagination: PaginationState;
+  disabled?: boolean;
+}
+
+const Pagination: React.FC<PaginationProps> = ({ pagination, disabled = false }) => {
+  const { page, pageCount, total, pageSize, hasNextPage, hasPreviousPage } = pagination;
+  const { t } = useTranslation();
+
+  return (
+    <nav className={styles.pagination} aria-label={t('pagination.label')}>
+      <label className={styles.pagination__size}>
+        {t('pagination.pageSize')}
+        <select
+          value={pageSize}
+          disabled={disabled}
+          onChange={(event) => pagination.setPageSize(Number(event.target.value))}
+        >
+          {DATA_TABLE.PAGE_SIZE_OPTIONS.map((size) => (
+            <option key={size} value={size}>
+              {size}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <p className={styles.pagination__status} aria-live="polite">
+        {pageCount === undefined
+          ? t('pagination.page', { page })
+          : t('pagination.pageOf', { page, pageCount })}
+        {total !== undefined && ` ${t('pagination.rows', { count: total })}`}
+      </p>
+
+      <div className={styles.pagination__buttons}>
+        <Button
+          variant="ghost"
+          size="small"
+          disabled={disabled || !hasPreviousPage}
+          onClick={pagination.previousPage}
+        >
+          {t('pagination.previous')}
+        </Button>
+        <Button
+          variant="ghost"
+          size="small"
+          disabled={disabled || !hasNextPage}
+          onClick={pagination.nextPage}
+        >
+          {t('pagination.next')}
+        </Button>
+      </div>
+    </nav>
+  );
+};
+
+export default Pagination;
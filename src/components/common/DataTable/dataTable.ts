@@ -0,0 +1,66 @@
+import type { SortState } from '@hooks/usePaginatedList';
+
+export interface Column<T> {
+  /** Unique id; also the sort key and, by default, the row property to show */
+  key: string;
+  header: React.ReactNode;
+  /** Value used to sort and filter; defaults to `row[key]` */
+  value?: (row: T) => unknown;
+  /** Cell content; defaults to the value as text */
+  render?: (row: T) => React.ReactNode;
+  sortable?: boolean;
+  /** Searched by the text filter (default true) */
+  filterable?: boolean;
+  align?: 'start' | 'center' | 'end';
+  /** CSS width, e.g. '120px' or '20%' */
+  width?: string;
+}
+
+export const getCellValue = <T>(row: T, column: Column<T>): unknown =>
+  column.value ? column.value(row) : (row as Record<string, unknown>)[column.key];
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Empty values sort last in both directions
+const compareValues = (a: unknown, b: unknown, direction: 1 | -1) => {
+  const aEmpty = a === null || a === undefined || a === '';
+  const bEmpty = b === null || b === undefined || b === '';
+  if (aEmpty || bEmpty) return Number(aEmpty) - Number(bEmpty);
+
+  if (typeof a === 'number' && typeof b === 'number') return (a - b) * direction;
+  if (a instanceof Date && b instanceof Date) return (a.getTime() - b.getTime()) * direction;
+  return collator.compare(String(a), String(b)) * direction;
+};
+
+/** Stable sort by one column; returns a new array */
+export const sortRows = <T>(rows: T[], columns: Column<T>[], sort: SortState): T[] => {
+  const column = sort && columns.find(({ key }) => key === sort.key);
+  if (!sort || !column) return rows;
+
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) =>
+    compareValues(getCellValue(a, column), getCellValue(b, column), direction),
+  );
+};
+
+/** Keeps rows where any filterable column contains `query`, ignoring case */
+export const filterRows = <T>(rows: T[], columns: Column<T>[], query: string): T[] => {
+  const needle = query.trim().toLocaleLowerCase();
+  if (!needle) return rows;
+
+  const searchable = columns.filter(({ filterable = true }) => filterable);
+  return rows.filter((row) =>
+    searchable.some((column) => {
+      const value = getCellValue(row, column);
+      return (
+        value !== null && value !== undefined && String(value).toLocaleLowerCase().includes(needle)
+      );
+    }),
+  );
+};
+
+/** Next state when a sortable header is clicked: ascending, descending, then unsorted */
+export const toggleSort = (sort: SortState, key: string): SortState => {
+  if (sort?.key !== key) return { key, direction: 'asc' };
+  return sort.direction === 'asc' ? { key, direction: 'desc' } : null;
+};
@@ -0,0 +1,4 @@
+// Data table: pair with the `usePaginatedList` hook from @hooks/usePaginatedList for server data
+export { default as DataTable } from './DataTable';
+export type { DataTableProps } from './DataTable';
+export type { Column } from './dataTable';
@@ -0,0 +1,68 @@
+import { useMemo, useState } from 'react';
+import type { PaginationState, SortState } from '@hooks/usePaginatedList';
+import { filterRows, sortRows, type Column } from './dataTable';
+
+interface ClientTableOptions {
+  /** `null` shows every row, e.g. together with virtualization */
+  pageSize: number | null;
+  initialSort: SortState;
+}
+
+/** Sorting, filtering and pagination done in the browser, for `<DataTable mode="client">` */
+export const useClientTable = <T>(
+  rows: T[],
+  columns: Column<T>[],
+  { pageSize: initialPageSize, initialSort }: ClientTableOptions,
+) => {
+  const [sort, setSortState] = useState<SortState>(initialSort);
+  const [filter, setFilterState] = useState('');
+  const [requestedPage, setPage] = useState(1);
+  const [pageSize, setPageSizeState] = useState(initialPageSize);
+
+  const processed = useMemo(
+    () => sortRows(filterRows(rows, columns, filter), columns, sort),
+    [rows, columns, filter, sort],
+  );
+
+  const pageCount = pageSize ? Math.max(1, Math.ceil(processed.length / pageSize)) : 1;
+  // The row count can shrink under the current page (new data, stricter filter)
+  const page = Math.min(requestedPage, pageCount);
+
+  const pageRows = useMemo(
+    () => (pageSize ? processed.slice((page - 1) * pageSize, page * pageSize) : processed),
+    [processed, page, pageSize],
+  );
+
+  const pagination: PaginationState | undefined = pageSize
+    ? {
+        page,
+        pageSize,
+        pageCount,
+        total: processed.length,
+        hasNextPage: page < pageCount,
+        hasPreviousPage: page > 1,
+        nextPage: () => setPage(Math.min(page + 1, pageCount)),
+        previousPage: () => setPage(Math.max(page - 1, 1)),
+        goToPage: (target) => setPage(Math.min(Math.max(target, 1), pageCount)),
+        setPageSize: (size) => {
+          setPageSizeState(size);
+          setPage(1);
+        },
+      }
+    : undefined;
+
+  return {
+    rows: pageRows,
+    sort,
+    setSort: (next: SortState) => {
+      setSortState(next);
+      setPage(1);
+    },
+    filter,
+    setFilter: (next: string) => {
+      setFilterState(next);
+      setPage(1);
+    },
+    pagination,
+  };
+};
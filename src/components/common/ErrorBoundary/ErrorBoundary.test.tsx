@@ -0,0 +1,109 @@
+// src/components/common/ErrorBoundary/ErrorBoundary.test.tsx
+
+import { fireEvent, render, screen } from '@testing-library/react';
+import { useErrorHandler } from '@hooks/useErrorHandler';
+import { onErrorReported } from '@utils/errorReporter';
+import ErrorBoundary from './ErrorBoundary';
+
+let shouldThrow = true;
+
+const Bomb = () => {
+  if (shouldThrow) throw new Error('Render failed');
+  return <p>Recovered content</p>;
+};
+
+describe('ErrorBoundary Component', () => {
+  beforeEach(() => {
+    shouldThrow = true;
+    // React and the reporter log caught errors; keep the test output clean
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Rendering', () => {
+    test('renders children when nothing fails', () => {
+      shouldThrow = false;
+      render(
+        <ErrorBoundary>
+          <Bomb />
+        </ErrorBoundary>,
+      );
+      expect(screen.getByText('Recovered content')).toBeInTheDocument();
+    });
+
+    test('renders the recovery UI when a child throws', () => {
+      render(
+        <ErrorBoundary>
+          <Bomb />
+        </ErrorBoundary>,
+      );
+      expect(screen.getByTestId('error-boundary')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: /Something went wrong/i })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /Try again/i })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /Reload/i })).toBeInTheDocument();
+    });
+
+    test('renders a custom fallback', () => {
+      render(
+        <ErrorBoundary fallback={({ error }) => <p>Custom: {error.message}</p>}>
+          <Bomb />
+        </ErrorBoundary>,
+      );
+      expect(screen.getByText('Custom: Render failed')).toBeInTheDocument();
+    });
+  });
+
+  describe('Recovery', () => {
+    test('renders children again after "Try again"', () => {
+      const onReset = jest.fn();
+      render(
+        <ErrorBoundary onReset={onReset}>
+          <Bomb />
+        </ErrorBoundary>,
+      );
+
+      shouldThrow = false;
+      fireEvent.click(screen.getByRole('button', { name: /Try again/i }));
+
+      expect(screen.getByText('Recovered content')).toBeInTheDocument();
+      expect(onReset).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Reporting', () => {
+    test('reports caught errors to subscribers', () => {
+      const listener = jest.fn();
+      const unsubscribe = onErrorReported(listener);
+
+      render(
+        <ErrorBoundary>
+          <Bomb />
+        </ErrorBoundary>,
+      );
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ source: 'ErrorBoundary', error: expect.any(Error) }),
+      );
+      unsubscribe();
+    });
+
+    test('catches errors passed in through useErrorHandler', () => {
+      const AsyncFailure = () => {
+        const handleError = useErrorHandler();
+        return <button onClick={() => handleError(new Error('Async failure'))}>Load</button>;
+      };
+
+      render(
+        <ErrorBoundary>
+          <AsyncFailure />
+        </ErrorBoundary>,
+      );
+      fireEvent.click(screen.getByRole('button', { name: 'Load' }));
+
+      expect(screen.getByTestId('error-boundary')).toBeInTheDocument();
+    });
+  });
+});
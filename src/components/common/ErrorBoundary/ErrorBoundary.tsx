@@ -0,0 +1,54 @@
+import React from 'react';
+import { reportError } from '@utils/errorReporter';
+import ErrorFallback from './ErrorFallback';
+
+interface ErrorBoundaryProps {
+  children: React.ReactNode;
+  /** Custom fallback; receives the error and a function that retries rendering */
+  fallback?: (props: { error: Error; reset: () => void }) => React.ReactNode;
+  /** Called after the boundary is reset, e.g. to clear state that caused the error */
+  onReset?: () => void;
+}
+
+interface ErrorBoundaryState {
+  error: Error | null;
+}
+
+/**
+ * Catches render errors below it, reports them through `reportError`
+ * and shows a recovery UI instead of a blank page.
+ *
+ * Errors from event handlers or async code don't reach boundaries on their own;
+ * pass them in with the `useErrorHandler` hook.
+ */
+class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): ErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo) {
+    reportError(error, {
+      source: 'ErrorBoundary',
+      componentStack: info.componentStack ?? undefined,
+    });
+  }
+
+  private reset = () => {
+    this.setState({ error: null });
+    this.props.onReset?.();
+  };
+
+  render() {
+    const { error } = this.state;
+    const { children, fallback } = this.props;
+
+    if (!error) return children;
+    if (fallback) return fallback({ error, reset: this.reset });
+
+    return <ErrorFallback onRetry={this.reset} />;
+  }
+}
+
+export default ErrorBoundary;
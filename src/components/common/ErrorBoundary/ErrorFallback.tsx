@@ -0,0 +1,29 @@
+import React from 'react';
+import Button from '@components/common/Button/Button';
+import { translate as t } from '@i18n/translator';
+import styles from './ErrorBoundary.module.scss';
+
+interface ErrorFallbackProps {
+  /** Renders the failed tree again */
+  onRetry: () => void;
+}
+
+/**
+ * Full-page recovery UI for errors nothing closer handled. Shown by ErrorBoundary
+ * and by the router's root error element (see router/AppError.tsx). ErrorBoundary
+ * sits above I18nProvider, so this translates without the hook.
+ */
+const ErrorFallback: React.FC<ErrorFallbackProps> = ({ onRetry }) => (
+  <section className={styles.errorBoundary} role="alert" data-testid="error-boundary">
+    <h1 className={styles.errorBoundary__title}>{t('errorFallback.title')}</h1>
+    <p className={styles.errorBoundary__message}>{t('errorFallback.message')}</p>
+    <div className={styles.errorBoundary__actions}>
+      <Button onClick={onRetry}>{t('common.tryAgain')}</Button>
+      <Button variant="secondary" onClick={() => window.location.reload()}>
+        {t('common.reload')}
+      </Button>
+    </div>
+  </section>
+);
+
+export default ErrorFallback;
@@ -0,0 +1,39 @@
+// src/components/common/Feature/Feature.test.tsx
+import { act, render, screen } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { featureFlagService } from '@services/featureFlagService';
+import { store } from '@store/store';
+import Feature from './Feature';
+
+const renderFeature = () =>
+  render(
+    <Provider store={store}>
+      <Feature name="NEW_CHECKOUT" fallback={<p>Old checkout</p>}>
+        <p>New checkout</p>
+      </Feature>
+    </Provider>,
+  );
+
+describe('Feature Component', () => {
+  afterEach(() => {
+    act(() => featureFlagService.setOverride('NEW_CHECKOUT', undefined));
+  });
+
+  test('renders the fallback while the flag is off', () => {
+    renderFeature();
+    expect(screen.getByText('Old checkout')).toBeInTheDocument();
+    expect(screen.queryByText('New checkout')).not.toBeInTheDocument();
+  });
+
+  test('renders children when the flag is on', () => {
+    featureFlagService.setOverride('NEW_CHECKOUT', true);
+    renderFeature();
+    expect(screen.getByText('New checkout')).toBeInTheDocument();
+  });
+
+  test('updates when the flag changes', () => {
+    renderFeature();
+    act(() => featureFlagService.setOverride('NEW_CHECKOUT', true));
+    expect(screen.getByText('New checkout')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,26 @@
+import React from 'react';
+import { useFeatureFlag } from '@hooks/useFeatureFlag';
+import type { FlagName } from '@services/featureFlagService';
+
+interface FeatureProps {
+  /** Flag that must be on for `children` to render */
+  name: FlagName;
+  children: React.ReactNode;
+  /** Rendered instead when the flag is off */
+  fallback?: React.ReactNode;
+}
+
+/**
+ * Renders its children only when a feature flag is on.
+ *
+ * @example
+ * <Feature name="NEW_CHECKOUT" fallback={<LegacyCheckout />}>
+ *   <Checkout />
+ * </Feature>
+ */
+const Feature: React.FC<FeatureProps> = ({ name, children, fallback = null }) => {
+  const enabled = useFeatureFlag(name);
+  return <>{enabled ? children : fallback}</>;
+};
+
+export default Feature;
@@ -0,0 +1,40 @@
+import React from 'react';
+import FieldMessages from './FieldMessages';
+import { useFieldIds, type FieldProps } from './field';
+import styles from './Form.module.scss';
+
+export type CheckboxProps = FieldProps & Omit<React.InputHTMLAttributes<HTMLInputElement>, 'type'>;
+
+/** Checkbox with its label on the right */
+const Checkbox = React.forwardRef<HTMLInputElement, CheckboxProps>(
+  ({ label, hint, error, id, className, 'aria-describedby': describedBy, ...props }, ref) => {
+    const { fieldId, hintId, errorId, controlProps } = useFieldIds({
+      id,
+      hint,
+      error,
+      describedBy,
+    });
+
+    return (
+      <div className={[styles.field, className].filter(Boolean).join(' ')}>
+        <div className={styles.choice}>
+          <input
+            ref={ref}
+            type="checkbox"
+            className={styles.choice__control}
+            {...props}
+            {...controlProps}
+          />
+          <label htmlFor={fieldId} className={styles.choice__label}>
+            {label}
+          </label>
+        </div>
+        <FieldMessages hint={hint} hintId={hintId} error={error} errorId={errorId} />
+      </div>
+    );
+  },
+);
+
+Checkbox.displayName = 'Checkbox';
+
+export default Checkbox;
@@ -0,0 +1,21 @@
+import React from 'react';
+import styles from './Form.module.scss';
+
+interface FieldLabelProps {
+  htmlFor: string;
+  required?: boolean;
+  children: React.ReactNode;
+}
+
+const FieldLabel: React.FC<FieldLabelProps> = ({ htmlFor, required, children }) => (
+  <label htmlFor={htmlFor} className={styles.field__label}>
+    {children}
+    {required && (
+      <span className={styles.field__required} aria-hidden="true">
+        *
+      </span>
+    )}
+  </label>
+);
+
+export default FieldLabel;
@@ -0,0 +1,27 @@
+import React from 'react';
+import styles from './Form.module.scss';
+
+interface FieldMessagesProps {
+  hint?: React.ReactNode;
+  hintId?: string;
+  error?: string;
+  errorId?: string;
+}
+
+/** Hint and error text under a field, with the ids from `useFieldIds` */
+const FieldMessages: React.FC<FieldMessagesProps> = ({ hint, hintId, error, errorId }) => (
+  <>
+    {hint && (
+      <p id={hintId} className={styles.field__hint}>
+        {hint}
+      </p>
+    )}
+    {error && (
+      <p id={errorId} className={styles.field__error}>
+        {error}
+      </p>
+    )}
+  </>
+);
+
+export default FieldMessages;
@@ -0,0 +1,110 @@
+// src/components/common/Form/Form.test.tsx
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { API_ERROR_KIND } from '@constants/index';
+import { useForm } from '@hooks/useForm';
+import { required } from '@utils/validation';
+import { Checkbox, Form, Input, Radio, Select, Textarea } from './index';
+
+const plans = [
+  { value: 'free', label: 'Free' },
+  { value: 'pro', label: 'Pro' },
+];
+
+const SignupForm = ({ onSubmit }: { onSubmit: (values: unknown) => void }) => {
+  const form = useForm({
+    initialValues: { name: '', bio: '', role: '', plan: 'free', terms: false },
+    schema: {
+      name: required('Enter your name'),
+      role: required('Choose a role'),
+      terms: required('Please accept the terms'),
+    },
+    onSubmit,
+  });
+
+  return (
+    <Form form={form}>
+      <Input label="Name" hint="As shown on your profile" required {...form.register('name')} />
+      <Textarea label="Bio" {...form.register('bio')} />
+      <Select
+        label="Role"
+        placeholder="Choose…"
+        options={[{ value: 'dev', label: 'Developer' }]}
+        {...form.register('role')}
+      />
+      <Radio label="Plan" options={plans} {...form.register('plan')} />
+      <Checkbox label="I accept the terms" {...form.register('terms')} />
+      <button type="submit">Sign up</button>
+    </Form>
+  );
+};
+
+describe('Form kit', () => {
+  test('labels controls and links hints with aria-describedby', () => {
+    render(<SignupForm onSubmit={jest.fn()} />);
+    const name = screen.getByRole('textbox', { name: /Name/ });
+
+    expect(name).toBeRequired();
+    expect(name).toHaveAccessibleDescription('As shown on your profile');
+    expect(name).not.toHaveAttribute('aria-invalid');
+    expect(screen.getByRole('textbox', { name: 'Bio' })).toBeInTheDocument();
+    expect(screen.getByRole('combobox', { name: 'Role' })).toBeInTheDocument();
+    expect(screen.getByRole('radiogroup', { name: 'Plan' })).toBeInTheDocument();
+    expect(screen.getByRole('radio', { name: 'Free' })).toBeChecked();
+  });
+
+  test('marks invalid fields, describes their errors and focuses the first one', async () => {
+    const onSubmit = jest.fn();
+    render(<SignupForm onSubmit={onSubmit} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Sign up' }));
+
+    const name = screen.getByRole('textbox', { name: /Name/ });
+    expect(await screen.findByText('Enter your name')).toBeInTheDocument();
+    expect(name).toHaveAttribute('aria-invalid', 'true');
+    expect(name).toHaveAccessibleDescription('As shown on your profile Enter your name');
+    expect(name).toHaveFocus();
+    expect(
+      screen.getByRole('checkbox', { name: 'I accept the terms' }),
+    ).toHaveAccessibleDescription('Please accept the terms');
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  test('submits the values of every control type', async () => {
+    const onSubmit = jest.fn();
+    render(<SignupForm onSubmit={onSubmit} />);
+
+    fireEvent.change(screen.getByRole('textbox', { name: /Name/ }), { target: { value: 'Ada' } });
+    fireEvent.change(screen.getByRole('textbox', { name: 'Bio' }), { target: { value: 'Hi' } });
+    fireEvent.change(screen.getByRole('combobox', { name: 'Role' }), { target: { value: 'dev' } });
+    fireEvent.click(screen.getByRole('radio', { name: 'Pro' }));
+    fireEvent.click(screen.getByRole('checkbox', { name: 'I accept the terms' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Sign up' }));
+
+    await waitFor(() =>
+      expect(onSubmit).toHaveBeenCalledWith({
+        name: 'Ada',
+        bio: 'Hi',
+        role: 'dev',
+        plan: 'pro',
+        terms: true,
+      }),
+    );
+  });
+
+  test('shows form-level errors in an alert', async () => {
+    const onSubmit = jest.fn().mockRejectedValue({
+      name: 'ApiError',
+      kind: API_ERROR_KIND.SERVER,
+      message: 'Sign-ups are closed',
+      status: 503,
+    });
+    render(<SignupForm onSubmit={onSubmit} />);
+
+    fireEvent.change(screen.getByRole('textbox', { name: /Name/ }), { target: { value: 'Ada' } });
+    fireEvent.change(screen.getByRole('combobox', { name: 'Role' }), { target: { value: 'dev' } });
+    fireEvent.click(screen.getByRole('checkbox', { name: 'I accept the terms' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Sign up' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Sign-ups are closed');
+  });
+});
@@ -0,0 +1,35 @@
+import React from 'react';
+import type { FormValues, UseFormReturn } from '@hooks/useForm';
+import styles from './Form.module.scss';
+
+interface FormProps<T extends FormValues> extends Omit<
+  React.FormHTMLAttributes<HTMLFormElement>,
+  'onSubmit'
+> {
+  /** The object returned by `useForm` */
+  form: Pick<UseFormReturn<T>, 'handleSubmit' | 'formError' | 'isSubmitting'>;
+  children: React.ReactNode;
+}
+
+/**
+ * `<form>` wired to `useForm`: submits through `handleSubmit`, leaves validation to
+ * the schema instead of the browser and shows form-level errors in an alert.
+ */
+const Form = <T extends FormValues>({ form, children, className, ...props }: FormProps<T>) => (
+  <form
+    noValidate
+    className={[styles.form, className].filter(Boolean).join(' ')}
+    aria-busy={form.isSubmitting || undefined}
+    onSubmit={(event) => void form.handleSubmit(event)}
+    {...props}
+  >
+    {form.formError && (
+      <p className={styles.form__error} role="alert">
+        {form.formError}
+      </p>
+    )}
+    {children}
+  </form>
+);
+
+export default Form;
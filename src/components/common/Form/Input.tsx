@@ -0,0 +1,47 @@
+import React from 'react';
+import FieldLabel from './FieldLabel';
+import FieldMessages from './FieldMessages';
+import { useFieldIds, type FieldProps } from './field';
+import styles from './Form.module.scss';
+
+export type InputProps = FieldProps & React.InputHTMLAttributes<HTMLInputElement>;
+
+/**
+ * Labelled text input.
+ *
+ * @example
+ * <Input label="Email" type="email" required {...form.register('email')} />
+ */
+const Input = React.forwardRef<HTMLInputElement, InputProps>(
+  (
+    { label, hint, error, id, className, required, 'aria-describedby': describedBy, ...props },
+    ref,
+  ) => {
+    const { fieldId, hintId, errorId, controlProps } = useFieldIds({
+      id,
+      hint,
+      error,
+      describedBy,
+    });
+
+    return (
+      <div className={[styles.field, className].filter(Boolean).join(' ')}>
+        <FieldLabel htmlFor={fieldId} required={required}>
+          {label}
+        </FieldLabel>
+        <input
+          ref={ref}
+          className={styles.field__control}
+          required={required}
+          {...props}
+          {...controlProps}
+        />
+        <FieldMessages hint={hint} hintId={hintId} error={error} errorId={errorId} />
+      </div>
+    );
+  },
+);
+
+Input.displayName = 'Input';
+
+export default Input;
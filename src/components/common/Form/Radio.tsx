@@ -0,0 +1,97 @@
+import React from 'react';
+import FieldMessages from './FieldMessages';
+import { useFieldIds, type FieldProps } from './field';
+import type { SelectOption } from './Select';
+import styles from './Form.module.scss';
+
+export interface RadioProps extends FieldProps {
+  name: string;
+  options: SelectOption[];
+  /** The selected option's value */
+  value?: string;
+  onChange?: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onBlur?: () => void;
+  required?: boolean;
+  disabled?: boolean;
+  /** Lays the options out in a row */
+  inline?: boolean;
+  id?: string;
+  className?: string;
+}
+
+/**
+ * A group of radio buttons, one per option, labelled by a legend.
+ *
+ * @example
+ * <Radio label="Plan" options={planOptions} {...form.register('plan')} />
+ */
+const Radio = React.forwardRef<HTMLFieldSetElement, RadioProps>(
+  (
+    {
+      label,
+      hint,
+      error,
+      id,
+      className,
+      name,
+      options,
+      value,
+      onChange,
+      onBlur,
+      required,
+      disabled,
+      inline = false,
+    },
+    ref,
+  ) => {
+    const { fieldId, hintId, errorId, controlProps } = useFieldIds({ id, hint, error });
+
+    return (
+      <fieldset
+        ref={ref}
+        role="radiogroup"
+        aria-required={required || undefined}
+        className={[styles.field, styles.fieldset, className].filter(Boolean).join(' ')}
+        disabled={disabled}
+        {...controlProps}
+      >
+        <legend className={styles.field__label}>
+          {label}
+          {required && (
+            <span className={styles.field__required} aria-hidden="true">
+              *
+            </span>
+          )}
+        </legend>
+        <div className={inline ? styles.fieldsetOptionsInline : styles.fieldset__options}>
+          {options.map((option) => {
+            const optionId = `${fieldId}-${option.value}`;
+            return (
+              <div key={option.value} className={styles.choice}>
+                <input
+                  type="radio"
+                  id={optionId}
+                  className={styles.choice__control}
+                  name={name}
+                  value={option.value}
+                  checked={value === undefined ? undefined : value === option.value}
+                  disabled={option.disabled}
+                  onChange={onChange}
+                  onBlur={onBlur}
+                />
+                <label htmlFor={optionId} className={styles.choice__label}>
+                  {option.label}
+                </label>
+              </div>
+            );
+          })}
+        </div>
+        <FieldMessages hint={hint} hintId={hintId} error={error} errorId={errorId} />
+      </fieldset>
+    );
+  },
+);
+
+Radio.displayName = 'Radio';
+
+export default Radio;
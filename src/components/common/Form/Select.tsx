@@ -0,0 +1,80 @@
+import React from 'react';
+import FieldLabel from './FieldLabel';
+import FieldMessages from './FieldMessages';
+import { useFieldIds, type FieldProps } from './field';
+import styles from './Form.module.scss';
+
+export interface SelectOption {
+  value: string;
+  label: string;
+  disabled?: boolean;
+}
+
+export type SelectProps = FieldProps &
+  React.SelectHTMLAttributes<HTMLSelectElement> & {
+    options: SelectOption[];
+    /** Shown while no option is selected (value `''`) */
+    placeholder?: string;
+  };
+
+/**
+ * Labelled native select.
+ *
+ * @example
+ * <Select label="Role" placeholder="Choose a role" options={roleOptions} {...form.register('role')} />
+ */
+const Select = React.forwardRef<HTMLSelectElement, SelectProps>(
+  (
+    {
+      label,
+      hint,
+      error,
+      id,
+      className,
+      required,
+      options,
+      placeholder,
+      'aria-describedby': describedBy,
+      ...props
+    },
+    ref,
+  ) => {
+    const { fieldId, hintId, errorId, controlProps } = useFieldIds({
+      id,
+      hint,
+      error,
+      describedBy,
+    });
+
+    return (
+      <div className={[styles.field, className].filter(Boolean).join(' ')}>
+        <FieldLabel htmlFor={fieldId} required={required}>
+          {label}
+        </FieldLabel>
+        <select
+          ref={ref}
+          className={styles.field__control}
+          required={required}
+          {...props}
+          {...controlProps}
+        >
+          {placeholder !== undefined && (
+            <option value="" disabled={required}>
+              {placeholder}
+            </option>
+          )}
+          {options.map((option) => (
+            <option key={option.value} value={option.value} disabled={option.disabled}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <FieldMessages hint={hint} hintId={hintId} error={error} errorId={errorId} />
+      </div>
+    );
+  },
+);
+
+Select.displayName = 'Select';
+
+export default Select;
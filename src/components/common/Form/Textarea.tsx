@@ -0,0 +1,52 @@
+import React from 'react';
+import FieldLabel from './FieldLabel';
+import FieldMessages from './FieldMessages';
+import { useFieldIds, type FieldProps } from './field';
+import styles from './Form.module.scss';
+
+export type TextareaProps = FieldProps & React.TextareaHTMLAttributes<HTMLTextAreaElement>;
+
+const Textarea = React.forwardRef<HTMLTextAreaElement, TextareaProps>(
+  (
+    {
+      label,
+      hint,
+      error,
+      id,
+      className,
+      required,
+      rows = 4,
+      'aria-describedby': describedBy,
+      ...props
+    },
+    ref,
+  ) => {
+    const { fieldId, hintId, errorId, controlProps } = useFieldIds({
+      id,
+      hint,
+      error,
+      describedBy,
+    });
+
+    return (
+      <div className={[styles.field, className].filter(Boolean).join(' ')}>
+        <FieldLabel htmlFor={fieldId} required={required}>
+          {label}
+        </FieldLabel>
+        <textarea
+          ref={ref}
+          className={styles.field__control}
+          required={required}
+          rows={rows}
+          {...props}
+          {...controlProps}
+        />
+        <FieldMessages hint={hint} hintId={hintId} error={error} errorId={errorId} />
+      </div>
+    );
+  },
+);
+
+Textarea.displayName = 'Textarea';
+
+export default Textarea;
@@ -0,0 +1,40 @@
+import { useId } from 'react';
+
+/** Props shared by every form field component */
+export interface FieldProps {
+  label: React.ReactNode;
+  /** Help text shown under the control */
+  hint?: React.ReactNode;
+  /** Error message; marks the control invalid */
+  error?: string;
+}
+
+interface FieldIdOptions {
+  id?: string;
+  hint?: React.ReactNode;
+  error?: string;
+  /** Extra ids passed in by the caller */
+  describedBy?: string;
+}
+
+/**
+ * Ids linking a control to its hint and error message. The returned `controlProps`
+ * go on the control, so screen readers announce the hint and error along with it.
+ */
+export const useFieldIds = ({ id, hint, error, describedBy }: FieldIdOptions) => {
+  const generatedId = useId();
+  const fieldId = id ?? generatedId;
+  const hintId = hint ? `${fieldId}-hint` : undefined;
+  const errorId = error ? `${fieldId}-error` : undefined;
+
+  return {
+    fieldId,
+    hintId,
+    errorId,
+    controlProps: {
+      id: fieldId,
+      'aria-invalid': error ? true : undefined,
+      'aria-describedby': [describedBy, hintId, errorId].filter(Boolean).join(' ') || undefined,
+    },
+  };
+};
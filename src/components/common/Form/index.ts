@@ -0,0 +1,13 @@
+// Form kit: use with the `useForm` hook from @hooks/useForm
+export { default as Form } from './Form';
+export { default as Input } from './Input';
+export type { InputProps } from './Input';
+export { default as Textarea } from './Textarea';
+export type { TextareaProps } from './Textarea';
+export { default as Select } from './Select';
+export type { SelectOption, SelectProps } from './Select';
+export { default as Checkbox } from './Checkbox';
+export type { CheckboxProps } from './Checkbox';
+export { default as Radio } from './Radio';
+export type { RadioProps } from './Radio';
+export type { FieldProps } from './field';
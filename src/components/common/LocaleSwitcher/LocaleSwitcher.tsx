@@ -0,0 +1,47 @@
+import React from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { LOCALES } from '@constants/index';
+import { useTranslation } from '@hooks/useTranslation';
+import {
+  getLocaleFromPath,
+  localizePath,
+  stripLocale,
+  SUPPORTED_LOCALES,
+  type Locale,
+} from '@i18n/locale';
+import styles from './LocaleSwitcher.module.scss';
+
+/**
+ * Language picker. When the URL has a `/:locale/` prefix it is switched too,
+ * so the address stays shareable in the chosen language.
+ */
+const LocaleSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useTranslation();
+  const { pathname, search, hash } = useLocation();
+  const navigate = useNavigate();
+
+  const handleChange = (next: Locale) => {
+    setLocale(next);
+    if (getLocaleFromPath(pathname)) {
+      navigate(`${localizePath(stripLocale(pathname), next)}${search}${hash}`);
+    }
+  };
+
+  return (
+    <select
+      className={styles.localeSwitcher}
+      aria-label={t('localeSwitcher.label')}
+      value={locale}
+      onChange={(event) => handleChange(event.target.value as Locale)}
+    >
+      {SUPPORTED_LOCALES.map((option) => (
+        // Each language is named in itself, and marked so screen readers pronounce it right
+        <option key={option} value={option} lang={option}>
+          {LOCALES[option].name}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default LocaleSwitcher;
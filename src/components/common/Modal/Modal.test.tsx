@@ -0,0 +1,119 @@
+// src/components/common/Modal/Modal.test.tsx
+import { useState } from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import Modal from './Modal';
+import I18nProvider from '@i18n/I18nProvider';
+
+const Dialogs = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isNestedOpen, setIsNestedOpen] = useState(false);
+
+  return (
+    <>
+      <button onClick={() => setIsOpen(true)}>Open</button>
+      <Modal
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        title="Settings"
+        footer={<button onClick={() => setIsNestedOpen(true)}>Delete account</button>}
+      >
+        <input aria-label="Display name" />
+        <Modal isOpen={isNestedOpen} onClose={() => setIsNestedOpen(false)} title="Are you sure?">
+          <button>Confirm</button>
+        </Modal>
+      </Modal>
+    </>
+  );
+};
+
+const openModal = () => {
+  fireEvent.click(screen.getByRole('button', { name: 'Open' }));
+  return screen.getByRole('dialog', { name: 'Settings' });
+};
+
+describe('Modal', () => {
+  test('renders nothing while closed', () => {
+    render(<Dialogs />, { wrapper: I18nProvider });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  test('renders a labelled modal dialog in a portal and focuses its first control', () => {
+    const { container } = render(<Dialogs />, { wrapper: I18nProvider });
+    const dialog = openModal();
+
+    expect(dialog).toHaveAttribute('aria-modal', 'true');
+    expect(container).not.toContainElement(dialog);
+    expect(screen.getByRole('button', { name: 'Close dialog' })).toHaveFocus();
+  });
+
+  test('locks page scroll while open', () => {
+    render(<Dialogs />, { wrapper: I18nProvider });
+    openModal();
+    expect(document.body.style.overflow).toBe('hidden');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close dialog' }));
+    expect(document.body.style.overflow).toBe('');
+  });
+
+  test('closes on Escape and returns focus to the opener', () => {
+    render(<Dialogs />, { wrapper: I18nProvider });
+    const opener = screen.getByRole('button', { name: 'Open' });
+    opener.focus();
+    const dialog = openModal();
+
+    fireEvent.keyDown(dialog, { key: 'Escape' });
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(opener).toHaveFocus();
+  });
+
+  test('closes on a backdrop click but not on clicks inside the dialog', () => {
+    render(<Dialogs />, { wrapper: I18nProvider });
+    const dialog = openModal();
+
+    fireEvent.mouseDown(dialog);
+    fireEvent.click(dialog);
+    expect(dialog).toBeInTheDocument();
+
+    // Pressed inside, released on the backdrop (e.g. selecting text)
+    fireEvent.mouseDown(dialog);
+    fireEvent.click(dialog.parentElement!);
+    expect(dialog).toBeInTheDocument();
+
+    fireEvent.mouseDown(dialog.parentElement!);
+    fireEvent.click(dialog.parentElement!);
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  test('keeps Tab focus inside the dialog', () => {
+    render(<Dialogs />, { wrapper: I18nProvider });
+    const dialog = openModal();
+    const close = screen.getByRole('button', { name: 'Close dialog' });
+    const last = screen.getByRole('button', { name: 'Delete account' });
+
+    last.focus();
+    fireEvent.keyDown(last, { key: 'Tab' });
+    expect(close).toHaveFocus();
+
+    fireEvent.keyDown(close, { key: 'Tab', shiftKey: true });
+    expect(last).toHaveFocus();
+    expect(dialog).toContainElement(last);
+  });
+
+  test('stacks dialogs and closes only the top one on Escape', () => {
+    render(<Dialogs />, { wrapper: I18nProvider });
+    openModal();
+    const opener = screen.getByRole('button', { name: 'Delete account' });
+    opener.focus();
+    fireEvent.click(opener);
+    const nested = screen.getByRole('dialog', { name: 'Are you sure?' });
+
+    fireEvent.keyDown(nested, { key: 'Escape' });
+
+    expect(screen.queryByRole('dialog', { name: 'Are you sure?' })).not.toBeInTheDocument();
+    expect(screen.getByRole('dialog', { name: 'Settings' })).toBeInTheDocument();
+    expect(opener).toHaveFocus();
+    // Still locked: the first dialog is open
+    expect(document.body.style.overflow).toBe('hidden');
+  });
+});
@@ -0,0 +1,166 @@
+import React, { useEffect, useId, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { FaTimes } from 'react-icons/fa';
+import { useTranslation } from '@hooks/useTranslation';
+import { getFocusable, modalStack } from './modalStack';
+import styles from './Modal.module.scss';
+
+interface ModalProps {
+  isOpen: boolean;
+  /** Called on Escape, backdrop click and the close button */
+  onClose: () => void;
+  title: React.ReactNode;
+  children: React.ReactNode;
+  /** Actions shown at the bottom, e.g. Cancel / Confirm buttons */
+  footer?: React.ReactNode;
+  size?: 'small' | 'medium' | 'large';
+  closeOnBackdrop?: boolean;
+  closeOnEscape?: boolean;
+  /** Focused when the modal opens; defaults to the first focusable element */
+  initialFocusRef?: React.RefObject<HTMLElement | null>;
+  /** Hides the × button, e.g. for confirmations that need an explicit choice */
+  hideCloseButton?: boolean;
+}
+
+const sizeClasses = {
+  small: styles.modalDialogSmall,
+  medium: styles.modalDialogMedium,
+  large: styles.modalDialogLarge,
+};
+
+type ModalDialogProps = Omit<ModalProps, 'isOpen'>;
+
+// Mounted only while open, so its effects run on open and clean up on close
+const ModalDialog: React.FC<ModalDialogProps> = ({
+  onClose,
+  title,
+  children,
+  footer,
+  size = 'medium',
+  closeOnBackdrop = true,
+  closeOnEscape = true,
+  initialFocusRef,
+  hideCloseButton = false,
+}) => {
+  const { t } = useTranslation();
+  const id = useId();
+  const titleId = `${id}-title`;
+  const dialogRef = useRef<HTMLDivElement>(null);
+  // A click only counts as a backdrop click if it also started there,
+  // so selecting text and releasing outside the dialog doesn't close it
+  const pressedBackdrop = useRef(false);
+
+  useEffect(() => {
+    const previouslyFocused = document.activeElement;
+    modalStack.push(id);
+
+    const dialog = dialogRef.current;
+    if (dialog) {
+      (initialFocusRef?.current ?? getFocusable(dialog)[0] ?? dialog).focus();
+    }
+
+    return () => {
+      modalStack.remove(id);
+      if (previouslyFocused instanceof HTMLElement) previouslyFocused.focus();
+    };
+  }, [id, initialFocusRef]);
+
+  // Key events from a nested modal bubble up through React's tree, so every
+  // handler checks that its modal is the top one
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const dialog = dialogRef.current;
+    if (!dialog || !modalStack.isTop(id)) return;
+
+    if (event.key === 'Escape' && closeOnEscape) {
+      event.stopPropagation();
+      onClose();
+      return;
+    }
+
+    if (event.key === 'Tab') {
+      const focusable = getFocusable(dialog);
+      if (focusable.length === 0) {
+        event.preventDefault();
+        return;
+      }
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (
+        event.shiftKey &&
+        (document.activeElement === first || document.activeElement === dialog)
+      ) {
+        event.preventDefault();
+        last.focus();
+      } else if (!event.shiftKey && document.activeElement === last) {
+        event.preventDefault();
+        first.focus();
+      }
+    }
+  };
+
+  return (
+    <div
+      className={styles.modal}
+      onMouseDown={(event) => {
+        pressedBackdrop.current = event.target === event.currentTarget;
+      }}
+      onClick={(event) => {
+        if (closeOnBackdrop && pressedBackdrop.current && event.target === event.currentTarget) {
+          onClose();
+        }
+        pressedBackdrop.current = false;
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className={`${styles.modal__dialog} ${sizeClasses[size]}`}
+        onKeyDown={handleKeyDown}
+      >
+        <header className={styles.modal__header}>
+          <h2 id={titleId} className={styles.modal__title}>
+            {title}
+          </h2>
+          {!hideCloseButton && (
+            <button
+              type="button"
+              className={styles.modal__close}
+              aria-label={t('modal.close')}
+              onClick={onClose}
+            >
+              <FaTimes aria-hidden="true" />
+            </button>
+          )}
+        </header>
+        <div className={styles.modal__body}>{children}</div>
+        {footer && <footer className={styles.modal__footer}>{footer}</footer>}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Accessible dialog rendered in a portal on `<body>`.
+ *
+ * Traps focus while open and returns it to the previously focused element on close,
+ * locks page scrolling, and closes on Escape or a backdrop click. Modals can be
+ * stacked: opening one from inside another puts it on top, and Escape closes only
+ * the top one.
+ *
+ * @example
+ * <Modal
+ *   isOpen={isOpen}
+ *   onClose={() => setIsOpen(false)}
+ *   title="Delete project?"
+ *   footer={<Button variant="danger" onClick={handleDelete}>Delete</Button>}
+ * >
+ *   This can't be undone.
+ * </Modal>
+ */
+const Modal: React.FC<ModalProps> = ({ isOpen, ...props }) =>
+  isOpen ? createPortal(<ModalDialog {...props} />, document.body) : null;
+
+export default Modal;
@@ -0,0 +1,50 @@
+// Open modals, bottom to top. Only the top one reacts to Escape and traps focus,
+// and page scrolling stays locked while any modal is open.
+const stack: string[] = [];
+let savedBodyStyle: { overflow: string; paddingRight: string } | null = null;
+
+const lockScroll = () => {
+  const { body } = document;
+  // Keep the layout from shifting when the scrollbar disappears
+  const scrollbarWidth = window.innerWidth - document.documentElement.clientWidth;
+  savedBodyStyle = { overflow: body.style.overflow, paddingRight: body.style.paddingRight };
+  body.style.overflow = 'hidden';
+  if (scrollbarWidth > 0) {
+    body.style.paddingRight = `${scrollbarWidth}px`;
+  }
+};
+
+const unlockScroll = () => {
+  if (!savedBodyStyle) return;
+  document.body.style.overflow = savedBodyStyle.overflow;
+  document.body.style.paddingRight = savedBodyStyle.paddingRight;
+  savedBodyStyle = null;
+};
+
+export const modalStack = {
+  push(id: string) {
+    if (stack.length === 0) lockScroll();
+    stack.push(id);
+  },
+
+  remove(id: string) {
+    const index = stack.indexOf(id);
+    if (index === -1) return;
+    stack.splice(index, 1);
+    if (stack.length === 0) unlockScroll();
+  },
+
+  isTop: (id: string) => stack[stack.length - 1] === id,
+};
+
+const FOCUSABLE = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',');
+
+export const getFocusable = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE));
@@ -0,0 +1,47 @@
+// src/components/common/OfflineNotice/OfflineNotice.test.tsx
+import { act, render, screen } from '@testing-library/react';
+import { outbox } from '@utils/outbox';
+import OfflineNotice from './OfflineNotice';
+import I18nProvider from '@i18n/I18nProvider';
+
+const setOnline = (online: boolean) => {
+  jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+  act(() => {
+    window.dispatchEvent(new Event(online ? 'online' : 'offline'));
+  });
+};
+
+describe('OfflineNotice', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    act(() => {
+      outbox.clear();
+    });
+  });
+
+  test('appears while the connection is down', () => {
+    render(<OfflineNotice />, { wrapper: I18nProvider });
+    const region = screen.getByRole('status');
+    expect(region).toBeEmptyDOMElement();
+
+    setOnline(false);
+    expect(region).toHaveTextContent("You're offline. Some features may be unavailable.");
+
+    setOnline(true);
+    expect(region).toBeEmptyDOMElement();
+  });
+
+  test('counts the changes waiting to be sent', () => {
+    render(<OfflineNotice />, { wrapper: I18nProvider });
+    setOnline(false);
+
+    act(() => {
+      outbox.add({ method: 'POST', url: '/notes', data: '{"text":"a"}' });
+      outbox.add({ method: 'DELETE', url: '/notes/1' });
+    });
+
+    expect(screen.getByRole('status')).toHaveTextContent(
+      "You're offline. 2 changes will be sent when you reconnect.",
+    );
+  });
+});
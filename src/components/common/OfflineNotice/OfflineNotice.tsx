@@ -0,0 +1,32 @@
+import React, { useSyncExternalStore } from 'react';
+import { FaWifi } from 'react-icons/fa';
+import { useOnlineStatus } from '@hooks/useOnlineStatus';
+import { useTranslation } from '@hooks/useTranslation';
+import { outbox } from '@utils/outbox';
+import styles from './OfflineNotice.module.scss';
+
+/**
+ * Tells the user they are offline, and how many changes are waiting to be sent
+ * (requests made with `queueOffline`, see utils/outbox.ts). Render it once, near the root.
+ */
+const OfflineNotice: React.FC = () => {
+  const isOnline = useOnlineStatus();
+  const { t } = useTranslation();
+  const pending = useSyncExternalStore(outbox.subscribe, outbox.getEntries).length;
+
+  // Always in the DOM, so screen readers announce the change when the connection drops
+  return (
+    <div className={styles.offlineNotice} role="status">
+      {!isOnline && (
+        <p className={styles.offlineNotice__message}>
+          <FaWifi aria-hidden="true" />
+          {pending > 0
+            ? t('offlineNotice.pending', { count: pending })
+            : t('offlineNotice.offline')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default OfflineNotice;
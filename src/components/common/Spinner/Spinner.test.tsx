@@ -0,0 +1,26 @@
+// src/components/common/Spinner/Spinner.test.tsx
+import { render, screen } from '@testing-library/react';
+import Spinner from './Spinner';
+import styles from './Spinner.module.scss';
+
+describe('Spinner Component', () => {
+  it('renders an accessible status with a default label', () => {
+    render(<Spinner />);
+    expect(screen.getByRole('status', { name: 'Loading' })).toBeInTheDocument();
+  });
+
+  it('uses a custom label', () => {
+    render(<Spinner label="Loading page" />);
+    expect(screen.getByRole('status', { name: 'Loading page' })).toBeInTheDocument();
+  });
+
+  it('applies the size class', () => {
+    render(<Spinner size="large" />);
+    expect(screen.getByRole('status')).toHaveClass(styles.spinnerLarge);
+  });
+
+  it('wraps itself in a page container when fullPage is set', () => {
+    render(<Spinner fullPage />);
+    expect(screen.getByRole('status').parentElement).toHaveClass(styles.spinnerPage);
+  });
+});
@@ -0,0 +1,26 @@
+import React from 'react';
+import styles from './Spinner.module.scss';
+
+interface SpinnerProps {
+  /** Accessible label announced to screen readers */
+  label?: string;
+  size?: 'small' | 'medium' | 'large';
+  /** Center the spinner in the available page area (used as a Suspense fallback) */
+  fullPage?: boolean;
+}
+
+const sizeClasses = {
+  small: styles.spinnerSmall,
+  medium: styles.spinnerMedium,
+  large: styles.spinnerLarge,
+};
+
+const Spinner: React.FC<SpinnerProps> = ({ label = 'Loading', size = 'medium', fullPage }) => {
+  const spinner = (
+    <span className={`${styles.spinner} ${sizeClasses[size]}`} role="status" aria-label={label} />
+  );
+
+  return fullPage ? <div className={styles.spinnerPage}>{spinner}</div> : spinner;
+};
+
+export default Spinner;
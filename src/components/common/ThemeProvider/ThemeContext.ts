@@ -0,0 +1,13 @@
+// src/components/common/ThemeProvider/ThemeContext.ts
+import { createContext } from 'react';
+import type { Theme, ThemePreference } from './theme';
+
+export interface ThemeContextValue {
+  /** The user's choice, possibly 'system' */
+  preference: ThemePreference;
+  /** The theme actually applied */
+  theme: Theme;
+  setPreference: (preference: ThemePreference) => void;
+}
+
+export const ThemeContext = createContext<ThemeContextValue | null>(null);
@@ -0,0 +1,91 @@
+// src/components/common/ThemeProvider/ThemeProvider.test.tsx
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { THEME_STORAGE_KEY } from '@constants/index';
+import { useTheme } from '@hooks/useTheme';
+import ThemeProvider from './ThemeProvider';
+
+let prefersDark = false;
+const mediaListeners = new Set<() => void>();
+
+const mockMatchMedia = (query: string) => ({
+  matches: query === '(prefers-color-scheme: dark)' && prefersDark,
+  addEventListener: (_: string, listener: () => void) => mediaListeners.add(listener),
+  removeEventListener: (_: string, listener: () => void) => mediaListeners.delete(listener),
+});
+
+const ThemeConsumer = () => {
+  const { theme, preference, setPreference } = useTheme();
+  return (
+    <div>
+      <p>
+        {preference} / {theme}
+      </p>
+      <button onClick={() => setPreference('high-contrast')}>High contrast</button>
+      <button onClick={() => setPreference('system')}>System</button>
+    </div>
+  );
+};
+
+const renderProvider = () =>
+  render(
+    <ThemeProvider>
+      <ThemeConsumer />
+    </ThemeProvider>,
+  );
+
+describe('ThemeProvider Component', () => {
+  beforeAll(() => {
+    Object.defineProperty(window, 'matchMedia', { value: mockMatchMedia, configurable: true });
+  });
+
+  beforeEach(() => {
+    prefersDark = false;
+    mediaListeners.clear();
+    localStorage.clear();
+    delete document.documentElement.dataset.theme;
+  });
+
+  test('follows the OS color scheme by default', () => {
+    prefersDark = true;
+    renderProvider();
+
+    expect(screen.getByText('system / dark')).toBeInTheDocument();
+    expect(document.documentElement.dataset.theme).toBe('dark');
+  });
+
+  test('updates when the OS color scheme changes', () => {
+    renderProvider();
+
+    prefersDark = true;
+    act(() => mediaListeners.forEach((listener) => listener()));
+
+    expect(document.documentElement.dataset.theme).toBe('dark');
+  });
+
+  test('applies and persists an explicit choice', () => {
+    renderProvider();
+
+    fireEvent.click(screen.getByRole('button', { name: 'High contrast' }));
+
+    expect(screen.getByText('high-contrast / high-contrast')).toBeInTheDocument();
+    expect(document.documentElement.dataset.theme).toBe('high-contrast');
+    expect(localStorage.getItem(THEME_STORAGE_KEY)).toBe('high-contrast');
+  });
+
+  test('restores the saved choice and can go back to the system theme', () => {
+    localStorage.setItem(THEME_STORAGE_KEY, 'dark');
+    renderProvider();
+    expect(screen.getByText('dark / dark')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'System' }));
+
+    expect(screen.getByText('system / light')).toBeInTheDocument();
+    expect(localStorage.getItem(THEME_STORAGE_KEY)).toBeNull();
+  });
+
+  test('useTheme throws outside the provider', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => render(<ThemeConsumer />)).toThrow(/inside <ThemeProvider>/);
+    jest.restoreAllMocks();
+  });
+});
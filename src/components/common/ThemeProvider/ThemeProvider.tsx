@@ -0,0 +1,52 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ThemeContext } from './ThemeContext';
+import {
+  applyTheme,
+  getSystemTheme,
+  onSystemThemeChange,
+  readThemePreference,
+  saveThemePreference,
+  type ThemePreference,
+} from './theme';
+
+interface ThemeProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Applies the light, dark or high-contrast theme and remembers the user's choice.
+ * With the 'system' preference it follows the OS setting, including live changes.
+ *
+ * index.html applies the stored theme before the bundle loads, so this only takes
+ * over an attribute that is already correct and there is no flash on load.
+ */
+const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
+  const [preference, setPreferenceState] = useState(readThemePreference);
+  const [systemTheme, setSystemTheme] = useState(getSystemTheme);
+  const theme = preference === 'system' ? systemTheme : preference;
+
+  useEffect(() => {
+    applyTheme(theme);
+  }, [theme]);
+
+  useEffect(() => {
+    if (preference !== 'system') return;
+    return onSystemThemeChange(() => setSystemTheme(getSystemTheme()));
+  }, [preference]);
+
+  const setPreference = useCallback((next: ThemePreference) => {
+    saveThemePreference(next);
+    // The OS setting may have changed while it wasn't being followed
+    if (next === 'system') setSystemTheme(getSystemTheme());
+    setPreferenceState(next);
+  }, []);
+
+  const value = useMemo(
+    () => ({ preference, theme, setPreference }),
+    [preference, theme, setPreference],
+  );
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
+
+export default ThemeProvider;
@@ -0,0 +1,56 @@
+// src/components/common/ThemeProvider/theme.ts
+import { THEME_STORAGE_KEY, THEMES } from '@constants/index';
+
+export type Theme = (typeof THEMES)[keyof typeof THEMES];
+/** What the user picked; 'system' follows the OS color scheme and contrast settings */
+export type ThemePreference = Theme | 'system';
+
+export const THEME_PREFERENCES: ThemePreference[] = ['system', ...Object.values(THEMES)];
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+const CONTRAST_QUERY = '(prefers-contrast: more)';
+
+const matches = (query: string) =>
+  typeof window.matchMedia === 'function' && window.matchMedia(query).matches;
+
+export const getSystemTheme = (): Theme => {
+  if (matches(CONTRAST_QUERY)) return THEMES.HIGH_CONTRAST;
+  return matches(DARK_QUERY) ? THEMES.DARK : THEMES.LIGHT;
+};
+
+export const readThemePreference = (): ThemePreference => {
+  try {
+    const stored = localStorage.getItem(THEME_STORAGE_KEY);
+    return THEME_PREFERENCES.includes(stored as ThemePreference)
+      ? (stored as ThemePreference)
+      : 'system';
+  } catch {
+    return 'system';
+  }
+};
+
+export const saveThemePreference = (preference: ThemePreference) => {
+  try {
+    if (preference === 'system') {
+      localStorage.removeItem(THEME_STORAGE_KEY);
+    } else {
+      localStorage.setItem(THEME_STORAGE_KEY, preference);
+    }
+  } catch {
+    // The choice still applies until the page is reloaded
+  }
+};
+
+/** Switches the `--color-*` tokens by setting `data-theme` on <html> (see _themes.scss) */
+export const applyTheme = (theme: Theme) => {
+  document.documentElement.dataset.theme = theme;
+};
+
+/** Calls `listener` when the OS color scheme or contrast setting changes */
+export const onSystemThemeChange = (listener: () => void) => {
+  if (typeof window.matchMedia !== 'function') return () => {};
+
+  const queries = [DARK_QUERY, CONTRAST_QUERY].map((query) => window.matchMedia(query));
+  queries.forEach((query) => query.addEventListener('change', listener));
+  return () => queries.forEach((query) => query.removeEventListener('change', listener));
+};
@@ -0,0 +1,181 @@
+// src/components/common/Toast/Toast.test.tsx
+import { act, render, screen, fireEvent, within } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { AxiosError, AxiosHeaders, type InternalAxiosRequestConfig } from 'axios';
+import { TOAST } from '@constants/index';
+import I18nProvider from '@i18n/I18nProvider';
+import { toastsCleared } from '@store/slices/toastSlice';
+import { store } from '@store/store';
+import { toast } from '@store/toast';
+import api from '@utils/axiosInstance';
+import ToastContainer from './ToastContainer';
+
+const renderToasts = () =>
+  render(
+    <I18nProvider initialLocale="en">
+      <Provider store={store}>
+        <ToastContainer />
+      </Provider>
+    </I18nProvider>,
+  );
+
+describe('Toasts', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    act(() => {
+      store.dispatch(toastsCleared());
+    });
+    jest.useRealTimers();
+  });
+
+  test('announces toasts through a polite live region', () => {
+    renderToasts();
+    const region = screen.getByRole('region', { name: 'Notifications' });
+
+    act(() => {
+      toast.success('Profile saved', { title: 'Done' });
+    });
+
+    const list = within(region).getByRole('list');
+    expect(list).toHaveAttribute('aria-live', 'polite');
+    expect(within(list).getByText('Profile saved')).toBeInTheDocument();
+    expect(within(list).getByText('Done')).toBeInTheDocument();
+  });
+
+  test('dismisses itself after its duration, or when closed', () => {
+    renderToasts();
+    act(() => {
+      toast.info('Auto');
+      toast.error('Manual', { duration: 0 });
+    });
+
+    act(() => {
+      jest.advanceTimersByTime(TOAST.DURATION_MS);
+    });
+    expect(screen.queryByText('Auto')).not.toBeInTheDocument();
+    expect(screen.getByText('Manual')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Dismiss notification' }));
+    expect(screen.queryByText('Manual')).not.toBeInTheDocument();
+  });
+
+  test('pauses the dismiss timer while hovered', () => {
+    renderToasts();
+    act(() => {
+      toast.info('Hover me', { duration: 1000 });
+    });
+    const item = screen.getByText('Hover me').closest('li')!;
+
+    act(() => {
+      jest.advanceTimersByTime(600);
+    });
+    fireEvent.mouseEnter(item);
+    act(() => {
+      jest.advanceTimersByTime(5000);
+    });
+    expect(screen.getByText('Hover me')).toBeInTheDocument();
+
+    // Resumes with the time that was left
+    fireEvent.mouseLeave(item);
+    act(() => {
+      jest.advanceTimersByTime(399);
+    });
+    expect(screen.getByText('Hover me')).toBeInTheDocument();
+    act(() => {
+      jest.advanceTimersByTime(1);
+    });
+    expect(screen.queryByText('Hover me')).not.toBeInTheDocument();
+  });
+
+  test('replaces a toast shown with the same id, restarting its timer', () => {
+    renderToasts();
+    act(() => {
+      toast.info('Saving…', { id: 'save', duration: 1000 });
+    });
+    act(() => {
+      jest.advanceTimersByTime(800);
+      toast.success('Saved', { id: 'save', duration: 1000 });
+    });
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(1);
+    expect(screen.getByText('Saved')).toBeInTheDocument();
+    expect(screen.queryByText('Saving…')).not.toBeInTheDocument();
+
+    // The replacement gets its own full duration
+    act(() => {
+      jest.advanceTimersByTime(999);
+    });
+    expect(screen.getByText('Saved')).toBeInTheDocument();
+    act(() => {
+      jest.advanceTimersByTime(1);
+    });
+    expect(screen.queryByText('Saved')).not.toBeInTheDocument();
+  });
+
+  test('starts the timer of a timed toast that replaces a persistent one', () => {
+    renderToasts();
+    act(() => {
+      toast.info('Saving…', { id: 'save', duration: 0 });
+    });
+    act(() => {
+      toast.success('Saved', { id: 'save', duration: 1000 });
+    });
+
+    expect(screen.getByText('Saved')).toBeInTheDocument();
+    act(() => {
+      jest.advanceTimersByTime(999);
+    });
+    expect(screen.getByText('Saved')).toBeInTheDocument();
+    act(() => {
+      jest.advanceTimersByTime(1);
+    });
+    expect(screen.queryByText('Saved')).not.toBeInTheDocument();
+  });
+
+  test('keeps at most the configured number of toasts', () => {
+    renderToasts();
+    act(() => {
+      for (let i = 0; i <= TOAST.MAX_VISIBLE; i += 1) toast.info(`Toast ${i}`);
+    });
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(TOAST.MAX_VISIBLE);
+    expect(screen.queryByText('Toast 0')).not.toBeInTheDocument();
+  });
+
+  test('shows an error toast for failed requests that opt in with errorToast', async () => {
+    jest.useRealTimers();
+    renderToasts();
+    const failWith500 = (config: InternalAxiosRequestConfig) =>
+      Promise.reject(
+        new AxiosError(
+          'Request failed',
+          'ERR_BAD_RESPONSE',
+          config,
+          {},
+          {
+            status: 500,
+            statusText: 'Server Error',
+            headers: {},
+            config: { ...config, headers: new AxiosHeaders() },
+            data: { message: 'Database unavailable' },
+          },
+        ),
+      );
+
+    await act(async () => {
+      await api.get('/silent', { adapter: failWith500, retry: false }).catch(() => {});
+      await api
+        .get('/reports', { adapter: failWith500, retry: false, errorToast: true })
+        .catch(() => {});
+      await api
+        .get('/export', { adapter: failWith500, retry: false, errorToast: 'Export failed' })
+        .catch(() => {});
+    });
+
+    const messages = screen.getAllByRole('listitem').map((item) => item.textContent);
+    expect(messages).toEqual(['Database unavailable', 'Export failed']);
+  });
+});
@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  FaCheckCircle,
+  FaExclamationCircle,
+  FaExclamationTriangle,
+  FaInfoCircle,
+  FaTimes,
+} from 'react-icons/fa';
+import { useTranslation } from '@hooks/useTranslation';
+import { useAppDispatch } from '@store/hooks';
+import { toastDismissed, type Toast as ToastData } from '@store/slices/toastSlice';
+import styles from './Toast.module.scss';
+
+const icons = {
+  success: FaCheckCircle,
+  error: FaExclamationCircle,
+  warning: FaExclamationTriangle,
+  info: FaInfoCircle,
+};
+
+const typeClasses = {
+  success: styles.toastSuccess,
+  error: styles.toastError,
+  warning: styles.toastWarning,
+  info: styles.toastInfo,
+};
+
+interface ToastProps {
+  toast: ToastData;
+}
+
+/** One notification. Its dismiss timer pauses while hovered or focused. */
+const Toast: React.FC<ToastProps> = ({ toast }) => {
+  const dispatch = useAppDispatch();
+  const { t } = useTranslation();
+  const [isHovered, setIsHovered] = useState(false);
+  const [isFocused, setIsFocused] = useState(false);
+  // Time left for the toast it was measured for; a replacement with the same id starts afresh
+  const remaining = useRef({ toast, ms: toast.duration });
+  const isPaused = isHovered || isFocused;
+  const Icon = icons[toast.type];
+
+  useEffect(() => {
+    if (remaining.current.toast !== toast) {
+      remaining.current = { toast, ms: toast.duration };
+    }
+    if (isPaused || toast.duration <= 0) return;
+
+    const countdown = remaining.current;
+    const startedAt = Date.now();
+    const timer = setTimeout(() => dispatch(toastDismissed(toast.id)), countdown.ms);
+    return () => {
+      clearTimeout(timer);
+      countdown.ms -= Date.now() - startedAt;
+    };
+  }, [isPaused, toast, dispatch]);
+
+  return (
+    <li
+      className={`${styles.toast} ${typeClasses[toast.type]}`}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+      onFocus={() => setIsFocused(true)}
+      onBlur={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget)) setIsFocused(false);
+      }}
+    >
+      <Icon className={styles.toast__icon} aria-hidden="true" />
+      <div className={styles.toast__content}>
+        {toast.title && <p className={styles.toast__title}>{toast.title}</p>}
+        <p className={styles.toast__message}>{toast.message}</p>
+      </div>
+      <button
+        type="button"
+        className={styles.toast__close}
+        aria-label={t('toast.dismiss')}
+        onClick={() => dispatch(toastDismissed(toast.id))}
+      >
+        <FaTimes aria-hidden="true" />
+      </button>
+    </li>
+  );
+};
+
+export default Toast;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { useTranslation } from '@hooks/useTranslation';
+import { useAppSelector } from '@store/hooks';
+import { selectToasts } from '@store/slices/toastSlice';
+import Toast from './Toast';
+import styles from './Toast.module.scss';
+
+/**
+ * Renders the toasts from the store (see `toast` in @store/toast). Render it once,
+ * near the root. The list is a polite live region that is always in the DOM, so
+ * screen readers announce each toast as it is added.
+ */
+const ToastContainer: React.FC = () => {
+  const toasts = useAppSelector(selectToasts);
+  const { t } = useTranslation();
+
+  return createPortal(
+    <section className={styles.toasts} aria-label={t('toast.regionLabel')}>
+      <ol className={styles.toasts__list} aria-live="polite" aria-relevant="additions text">
+        {toasts.map((toast) => (
+          // A replaced toast keeps its element (and hover or focus); Toast restarts its timer
+          <Toast key={toast.id} toast={toast} />
+        ))}
+      </ol>
+    </section>,
+    document.body,
+  );
+};
+
+export default ToastContainer;
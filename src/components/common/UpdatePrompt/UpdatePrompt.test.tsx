@@ -0,0 +1,86 @@
+// src/components/common/UpdatePrompt/UpdatePrompt.test.tsx
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { serviceWorker } from '@utils/serviceWorker';
+import UpdatePrompt from './UpdatePrompt';
+import I18nProvider from '@i18n/I18nProvider';
+
+// Registration is skipped outside production builds
+jest.mock('@config/env', () => ({
+  env: { ...jest.requireActual<typeof import('@config/env')>('@config/env').env, PROD: true },
+}));
+
+class FakeWorker extends EventTarget {
+  state = 'installing';
+  postMessage = jest.fn();
+
+  install() {
+    this.state = 'installed';
+    this.dispatchEvent(new Event('statechange'));
+  }
+}
+
+// Just enough of navigator.serviceWorker for the registration flow
+const setup = ({ controlled }: { controlled: boolean }) => {
+  const registration = Object.assign(new EventTarget(), {
+    installing: null as FakeWorker | null,
+    waiting: null as FakeWorker | null,
+    update: jest.fn(() => Promise.resolve()),
+  });
+  const container = Object.assign(new EventTarget(), {
+    controller: controlled ? new FakeWorker() : null,
+    register: jest.fn(() => Promise.resolve(registration)),
+  });
+  Object.defineProperty(navigator, 'serviceWorker', { value: container, configurable: true });
+
+  const deploy = () => {
+    const worker = new FakeWorker();
+    registration.installing = worker;
+    registration.dispatchEvent(new Event('updatefound'));
+    worker.install();
+    return worker;
+  };
+  return { container, deploy };
+};
+
+describe('UpdatePrompt', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('stays hidden when the first install has nothing to replace', async () => {
+    const { container, deploy } = setup({ controlled: false });
+    render(<UpdatePrompt />, { wrapper: I18nProvider });
+
+    await serviceWorker.register({ apiBaseUrl: 'http://localhost:3000/api' });
+    act(() => {
+      deploy();
+    });
+
+    expect(container.register).toHaveBeenCalledWith(
+      '/sw.js?api=http%3A%2F%2Flocalhost%3A3000%2Fapi',
+      { scope: '/' },
+    );
+    expect(screen.queryByRole('status', { name: 'Update available' })).not.toBeInTheDocument();
+  });
+
+  test('offers a new deploy and activates it on reload', async () => {
+    const { deploy } = setup({ controlled: true });
+    render(<UpdatePrompt />, { wrapper: I18nProvider });
+    await serviceWorker.register({ apiBaseUrl: '/api' });
+
+    let worker: FakeWorker | undefined;
+    act(() => {
+      worker = deploy();
+    });
+
+    const prompt = screen.getByRole('status', { name: 'Update available' });
+    expect(prompt).toHaveTextContent('A new version of the app is available.');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reload' }));
+    expect(worker?.postMessage).toHaveBeenCalledWith({ type: 'SKIP_WAITING' });
+  });
+});
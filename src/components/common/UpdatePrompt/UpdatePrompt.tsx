@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { FaSyncAlt } from 'react-icons/fa';
+import Button from '@components/common/Button/Button';
+import { useTranslation } from '@hooks/useTranslation';
+import { useUpdateAvailable } from '@hooks/useUpdateAvailable';
+import styles from './UpdatePrompt.module.scss';
+
+/**
+ * Offers to load a new deploy once its service worker is waiting (production builds only).
+ * Render it once, near the root. Dismissing it keeps the current version until the next visit.
+ */
+const UpdatePrompt: React.FC = () => {
+  const { isUpdateAvailable, applyUpdate } = useUpdateAvailable();
+  const { t } = useTranslation();
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  if (!isUpdateAvailable || isDismissed) return null;
+
+  return (
+    <section className={styles.updatePrompt} role="status" aria-label={t('updatePrompt.label')}>
+      <FaSyncAlt className={styles.updatePrompt__icon} aria-hidden="true" />
+      <p className={styles.updatePrompt__message}>{t('updatePrompt.message')}</p>
+      <div className={styles.updatePrompt__actions}>
+        <Button variant="ghost" size="small" onClick={() => setIsDismissed(true)}>
+          {t('updatePrompt.later')}
+        </Button>
+        <Button
+          size="small"
+          loading={isUpdating}
+          onClick={() => {
+            setIsUpdating(true);
+            applyUpdate();
+          }}
+        >
+          {t('common.reload')}
+        </Button>
+      </div>
+    </section>
+  );
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,91 @@
+// src/components/layout/AppLayout/AppLayout.test.tsx
+import { act, fireEvent, render, screen, within } from '@testing-library/react';
+import { createMemoryRouter, RouterProvider } from 'react-router-dom';
+import { Provider } from 'react-redux';
+import ThemeProvider from '@components/common/ThemeProvider/ThemeProvider';
+import I18nProvider from '@i18n/I18nProvider';
+import { store } from '@store/store';
+import AppLayout from './AppLayout';
+
+describe('AppLayout Component', () => {
+  // Resolves the loader of /slow
+  let finishLoading: () => void;
+  let router: ReturnType<typeof createMemoryRouter>;
+
+  const createRouter = () =>
+    createMemoryRouter([
+      {
+        element: <AppLayout />,
+        children: [
+          { path: '/', element: <p>Page content</p> },
+          {
+            path: '/slow',
+            loader: () =>
+              new Promise<null>((resolve) => {
+                finishLoading = () => resolve(null);
+              }),
+            element: <p>Slow page</p>,
+          },
+        ],
+      },
+    ]);
+
+  beforeEach(() => {
+    router = createRouter();
+    render(
+      <ThemeProvider>
+        <I18nProvider initialLocale="en">
+          <Provider store={store}>
+            <RouterProvider router={router} />
+          </Provider>
+        </I18nProvider>
+      </ThemeProvider>,
+    );
+  });
+
+  test('renders the page inside the main landmark', () => {
+    expect(screen.getByRole('main')).toHaveTextContent('Page content');
+  });
+
+  test('renders header and footer landmarks', () => {
+    expect(screen.getByRole('banner')).toBeInTheDocument();
+    expect(screen.getByRole('contentinfo')).toBeInTheDocument();
+  });
+
+  test('provides a skip link to the main content', () => {
+    const skipLink = screen.getByRole('link', { name: 'Skip to main content' });
+    expect(skipLink).toHaveAttribute('href', '#main-content');
+    expect(screen.getByRole('main')).toHaveAttribute('id', 'main-content');
+  });
+
+  test('shows the sidebar routes, which can be collapsed', () => {
+    const sidebar = screen.getByTestId('sidebar');
+    expect(within(sidebar).getByRole('link', { name: 'Users' })).toHaveAttribute('href', '/users');
+
+    fireEvent.click(within(sidebar).getByRole('button', { name: 'Collapse sidebar' }));
+
+    expect(within(sidebar).queryByRole('link', { name: 'Users' })).not.toBeInTheDocument();
+    expect(within(sidebar).getByRole('button', { name: 'Expand sidebar' })).toHaveAttribute(
+      'aria-expanded',
+      'false',
+    );
+  });
+
+  test("shows progress while the next page's data loads", async () => {
+    expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
+
+    act(() => {
+      void router.navigate('/slow');
+    });
+
+    // The current page stays until the data is there
+    expect(screen.getByRole('progressbar', { name: 'Loading page' })).toBeInTheDocument();
+    expect(screen.getByRole('main')).toHaveTextContent('Page content');
+    expect(screen.getByRole('main')).toHaveAttribute('aria-busy', 'true');
+
+    await act(async () => finishLoading());
+
+    expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
+    expect(screen.getByRole('main')).toHaveTextContent('Slow page');
+  });
+});
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { Outlet, useLocation, useNavigation } from 'react-router-dom';
+import { useTranslation } from '@hooks/useTranslation';
+import { getNavRoutes } from '@router/routes';
+import { setLogContext } from '@utils/logger';
+import Header from '../Header/Header';
+import Sidebar from '../Sidebar/Sidebar';
+import Footer from '../Footer/Footer';
+import styles from './AppLayout.module.scss';
+
+/**
+ * Application shell rendered as the parent route in router/routeTree.tsx.
+ * Pages render into the `<main>` landmark through `<Outlet />`. Needs a data router
+ * (see AppRouter): a progress bar shows while the next page's loaders run.
+ */
+const AppLayout: React.FC = () => {
+  const { t } = useTranslation();
+  const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
+  const sidebarRoutes = getNavRoutes('sidebar');
+  const { pathname } = useLocation();
+  // Loaders (and actions) of the next page are running; the current one stays in place
+  const isNavigating = useNavigation().state !== 'idle';
+
+  // Tag every log entry with the page it was written on
+  useEffect(() => {
+    setLogContext({ route: pathname });
+  }, [pathname]);
+
+  return (
+    <div className={styles.appLayout}>
+      <a href="#main-content" className={styles.appLayout__skipLink}>
+        {t('appLayout.skipToContent')}
+      </a>
+
+      {isNavigating && (
+        <div
+          className={styles.appLayout__progress}
+          role="progressbar"
+          aria-label={t('common.loadingPage')}
+        />
+      )}
+
+      <Header />
+
+      <div className={styles.appLayout__body}>
+        {sidebarRoutes.length > 0 && (
+          <Sidebar
+            routes={sidebarRoutes}
+            collapsed={sidebarCollapsed}
+            onToggle={() => setSidebarCollapsed((collapsed) => !collapsed)}
+          />
+        )}
+
+        {/* tabIndex lets the skip link move keyboard focus here */}
+        <main
+          id="main-content"
+          className={styles.appLayout__main}
+          tabIndex={-1}
+          aria-busy={isNavigating || undefined}
+        >
+          <Outlet />
+        </main>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AppLayout;
@@ -0,0 +1,20 @@
+// src/components/layout/Footer/Footer.test.tsx
+import { render, screen } from '@testing-library/react';
+import Footer from './Footer';
+import I18nProvider from '@i18n/I18nProvider';
+
+describe('Footer Component', () => {
+  test('renders the copyright with the current year', () => {
+    render(<Footer />, { wrapper: I18nProvider });
+    expect(screen.getByRole('contentinfo')).toHaveTextContent(
+      `© ${new Date().getFullYear()} React + TypeScript Starter Kit`,
+    );
+  });
+
+  test('links to the repository in a new tab', () => {
+    render(<Footer />, { wrapper: I18nProvider });
+    const link = screen.getByRole('link', { name: /Source on GitHub/i });
+    expect(link).toHaveAttribute('target', '_blank');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer');
+  });
+});
@@ -0,0 +1,27 @@
+import React from 'react';
+import { FaGithub } from 'react-icons/fa';
+import { APP_NAME, REPOSITORY_URL } from '@constants/index';
+import { useTranslation } from '@hooks/useTranslation';
+import styles from './Footer.module.scss';
+
+const Footer: React.FC = () => {
+  const { t } = useTranslation();
+
+  return (
+    <footer className={styles.footer}>
+      <p className={styles.footer__text}>
+        © {new Date().getFullYear()} {APP_NAME}
+      </p>
+      <a
+        className={styles.footer__link}
+        href={REPOSITORY_URL}
+        target="_blank"
+        rel="noopener noreferrer"
+      >
+        <FaGithub aria-hidden="true" /> {t('footer.source')}
+      </a>
+    </footer>
+  );
+};
+
+export default Footer;
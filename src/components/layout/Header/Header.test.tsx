@@ -0,0 +1,65 @@
+// src/components/layout/Header/Header.test.tsx
+import { fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { Provider } from 'react-redux';
+import ThemeProvider from '@components/common/ThemeProvider/ThemeProvider';
+import I18nProvider from '@i18n/I18nProvider';
+import { store } from '@store/store';
+import Header from './Header';
+import styles from './Header.module.scss';
+
+const renderHeader = (path = '/') =>
+  render(
+    <ThemeProvider>
+      <I18nProvider initialLocale="en">
+        <Provider store={store}>
+          <MemoryRouter initialEntries={[path]}>
+            <Header />
+          </MemoryRouter>
+        </Provider>
+      </I18nProvider>
+    </ThemeProvider>,
+  );
+
+describe('Header Component', () => {
+  test('renders primary navigation from the route registry', () => {
+    renderHeader();
+    const nav = screen.getByRole('navigation', { name: 'Primary' });
+    expect(nav).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Home' })).toHaveAttribute('href', '/');
+  });
+
+  test('highlights the link for the current route', () => {
+    renderHeader('/');
+    expect(screen.getByRole('link', { name: 'Home' })).toHaveClass(styles.header__linkActive);
+    expect(screen.getByRole('link', { name: 'Sign in' })).not.toHaveClass(
+      styles.header__linkActive,
+    );
+  });
+
+  test('offers sign in to signed-out users', () => {
+    renderHeader();
+    expect(screen.getByRole('link', { name: 'Sign in' })).toHaveAttribute('href', '/login');
+  });
+
+  test('toggles the mobile menu', () => {
+    renderHeader();
+    const toggle = screen.getByRole('button', { name: 'Open menu' });
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+
+    fireEvent.click(toggle);
+
+    expect(screen.getByRole('button', { name: 'Close menu' })).toHaveAttribute(
+      'aria-expanded',
+      'true',
+    );
+  });
+
+  test('switches the theme', () => {
+    renderHeader();
+    fireEvent.change(screen.getByRole('combobox', { name: 'Theme' }), {
+      target: { value: 'dark' },
+    });
+    expect(document.documentElement.dataset.theme).toBe('dark');
+  });
+});
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Link, NavLink } from 'react-router-dom';
+import { FaBars, FaTimes } from 'react-icons/fa';
+import Button from '@components/common/Button/Button';
+import LocaleSwitcher from '@components/common/LocaleSwitcher/LocaleSwitcher';
+import { THEME_PREFERENCES, type ThemePreference } from '@components/common/ThemeProvider/theme';
+import { APP_NAME, ROUTES } from '@constants/index';
+import type { MessageKey } from '@i18n/messages/en';
+import { useLocalizedPath } from '@hooks/useLocalizedPath';
+import { useTheme } from '@hooks/useTheme';
+import { useTranslation } from '@hooks/useTranslation';
+import { getNavRoutes, getPreloadProps } from '@router/routes';
+import { useAppDispatch, useAppSelector } from '@store/hooks';
+import { logout, selectIsAuthenticated } from '@store/slices/authSlice';
+import styles from './Header.module.scss';
+
+const THEME_LABELS: Record<ThemePreference, MessageKey> = {
+  system: 'header.theme.system',
+  light: 'header.theme.light',
+  dark: 'header.theme.dark',
+  'high-contrast': 'header.theme.highContrast',
+};
+
+const Header: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const isAuthenticated = useAppSelector(selectIsAuthenticated);
+  const { preference, setPreference } = useTheme();
+  const localize = useLocalizedPath();
+  const { t } = useTranslation();
+  const [menuOpen, setMenuOpen] = useState(false);
+  const routes = getNavRoutes('primary');
+
+  const closeMenu = () => setMenuOpen(false);
+
+  return (
+    <header className={styles.header}>
+      <Link
+        to={localize(ROUTES.HOME)}
+        className={styles.header__brand}
+        {...getPreloadProps(ROUTES.HOME)}
+      >
+        {APP_NAME}
+      </Link>
+
+      {/* Collapses behind this toggle on small screens */}
+      <button
+        type="button"
+        className={styles.header__menuToggle}
+        aria-expanded={menuOpen}
+        aria-controls="primary-navigation"
+        aria-label={t(menuOpen ? 'header.closeMenu' : 'header.openMenu')}
+        onClick={() => setMenuOpen((open) => !open)}
+      >
+        {menuOpen ? <FaTimes /> : <FaBars />}
+      </button>
+
+      <nav
+        id="primary-navigation"
+        aria-label={t('header.navLabel')}
+        className={`${styles.header__nav} ${menuOpen ? styles.header__navOpen : ''}`}
+      >
+        <ul className={styles.header__links}>
+          {routes.map((route) => (
+            <li key={route.path}>
+              <NavLink
+                to={localize(route.path)}
+                end
+                className={({ isActive }) =>
+                  `${styles.header__link} ${isActive ? styles.header__linkActive : ''}`
+                }
+                onClick={closeMenu}
+                {...getPreloadProps(route.path)}
+              >
+                {t(route.title)}
+              </NavLink>
+            </li>
+          ))}
+        </ul>
+
+        <LocaleSwitcher />
+
+        <select
+          className={styles.header__theme}
+          aria-label={t('header.theme.label')}
+          value={preference}
+          onChange={(event) => setPreference(event.target.value as ThemePreference)}
+        >
+          {THEME_PREFERENCES.map((option) => (
+            <option key={option} value={option}>
+              {t(THEME_LABELS[option])}
+            </option>
+          ))}
+        </select>
+
+        {isAuthenticated ? (
+          <Button variant="secondary" onClick={() => dispatch(logout())}>
+            {t('header.signOut')}
+          </Button>
+        ) : (
+          <NavLink
+            to={localize(ROUTES.LOGIN)}
+            className={({ isActive }) =>
+              `${styles.header__link} ${isActive ? styles.header__linkActive : ''}`
+            }
+            onClick={closeMenu}
+            {...getPreloadProps(ROUTES.LOGIN)}
+          >
+            {t('header.signIn')}
+          </NavLink>
+        )}
+      </nav>
+    </header>
+  );
+};
+
+export default Header;
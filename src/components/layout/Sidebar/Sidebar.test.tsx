@@ -0,0 +1,41 @@
+// src/components/layout/Sidebar/Sidebar.test.tsx
+import { fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import I18nProvider from '@i18n/I18nProvider';
+import { appRoutes } from '@router/routes';
+import Sidebar from './Sidebar';
+import styles from './Sidebar.module.scss';
+
+const renderSidebar = (collapsed = false, onToggle = jest.fn()) =>
+  render(
+    <I18nProvider initialLocale="en">
+      <MemoryRouter>
+        <Sidebar routes={appRoutes.slice(0, 1)} collapsed={collapsed} onToggle={onToggle} />
+      </MemoryRouter>
+    </I18nProvider>,
+  );
+
+describe('Sidebar Component', () => {
+  test('renders the given routes as links', () => {
+    renderSidebar();
+    expect(screen.getByRole('navigation', { name: 'Secondary' })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Home' })).toBeInTheDocument();
+  });
+
+  test('hides links and narrows when collapsed', () => {
+    renderSidebar(true);
+    expect(screen.getByTestId('sidebar')).toHaveClass(styles.sidebarCollapsed);
+    expect(screen.queryByRole('navigation', { name: 'Secondary' })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Expand sidebar' })).toHaveAttribute(
+      'aria-expanded',
+      'false',
+    );
+  });
+
+  test('calls onToggle from the collapse button', () => {
+    const onToggle = jest.fn();
+    renderSidebar(false, onToggle);
+    fireEvent.click(screen.getByRole('button', { name: 'Collapse sidebar' }));
+    expect(onToggle).toHaveBeenCalledTimes(1);
+  });
+});
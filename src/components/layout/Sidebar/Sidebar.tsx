@@ -0,0 +1,56 @@
+import React from 'react';
+import { NavLink } from 'react-router-dom';
+import { FaAngleDoubleLeft, FaAngleDoubleRight } from 'react-icons/fa';
+import { useLocalizedPath } from '@hooks/useLocalizedPath';
+import { useTranslation } from '@hooks/useTranslation';
+import { getPreloadProps, type AppRoute } from '@router/routes';
+import styles from './Sidebar.module.scss';
+
+interface SidebarProps {
+  routes: AppRoute[];
+  collapsed: boolean;
+  onToggle: () => void;
+}
+
+const Sidebar: React.FC<SidebarProps> = ({ routes, collapsed, onToggle }) => {
+  const localize = useLocalizedPath();
+  const { t } = useTranslation();
+
+  return (
+    <aside
+      className={`${styles.sidebar} ${collapsed ? styles.sidebarCollapsed : ''}`}
+      data-testid="sidebar"
+    >
+      <button
+        type="button"
+        className={styles.sidebar__toggle}
+        aria-expanded={!collapsed}
+        aria-controls="sidebar-navigation"
+        aria-label={t(collapsed ? 'sidebar.expand' : 'sidebar.collapse')}
+        onClick={onToggle}
+      >
+        {collapsed ? <FaAngleDoubleRight /> : <FaAngleDoubleLeft />}
+      </button>
+
+      <nav id="sidebar-navigation" aria-label={t('sidebar.navLabel')} hidden={collapsed}>
+        <ul className={styles.sidebar__links}>
+          {routes.map((route) => (
+            <li key={route.path}>
+              <NavLink
+                to={localize(route.path)}
+                className={({ isActive }) =>
+                  `${styles.sidebar__link} ${isActive ? styles.sidebar__linkActive : ''}`
+                }
+                {...getPreloadProps(route.path)}
+              >
+                {t(route.title)}
+              </NavLink>
+            </li>
+          ))}
+        </ul>
+      </nav>
+    </aside>
+  );
+};
+
+export default Sidebar;
@@ -22,6 +22,7 @@
  */
 
 // Import layout components directly from their folders
+// import AppLayout from './AppLayout/AppLayout';  (app shell, parent route in router/routeTree.tsx)
 // import Header from './Header/Header';
 // import Footer from './Footer/Footer';
 // import Sidebar from './Sidebar/Sidebar';
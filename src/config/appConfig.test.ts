@@ -0,0 +1,139 @@
+// src/config/appConfig.test.ts
+import { ConfigError, getConfig, loadConfig, parseConfig } from './appConfig';
+
+describe('appConfig', () => {
+  describe('parseConfig', () => {
+    test('parses valid variables into a typed config', () => {
+      expect(
+        parseConfig({
+          VITE_API_BASE_URL: 'https://api.example.com',
+          VITE_API_TIMEOUT: '5000',
+          VITE_ENABLE_ANALYTICS: 'true',
+          VITE_TELEMETRY_ENDPOINT: 'https://telemetry.example.com/events',
+        }),
+      ).toEqual({
+        apiBaseUrl: 'https://api.example.com',
+        apiTimeout: 5000,
+        enableAnalytics: true,
+        telemetryEndpoint: 'https://telemetry.example.com/events',
+        mockApi: false,
+        mockLatency: 400,
+        mockErrorRate: 0,
+        realtimeUrl: '',
+      });
+    });
+
+    test('accepts same-origin paths and applies defaults for optional values', () => {
+      expect(parseConfig({ VITE_API_BASE_URL: '/api' })).toEqual({
+        apiBaseUrl: '/api',
+        apiTimeout: 30000,
+        enableAnalytics: false,
+        telemetryEndpoint: '/api/telemetry',
+        mockApi: false,
+        mockLatency: 400,
+        mockErrorRate: 0,
+        realtimeUrl: '',
+      });
+    });
+
+    test('parses the realtime endpoint, which is optional', () => {
+      expect(
+        parseConfig({ VITE_API_BASE_URL: '/api', VITE_REALTIME_URL: 'wss://rt.example.com' }),
+      ).toMatchObject({ realtimeUrl: 'wss://rt.example.com' });
+
+      expect(() =>
+        parseConfig({ VITE_API_BASE_URL: '/api', VITE_REALTIME_URL: 'realtime' }),
+      ).toThrow(/VITE_REALTIME_URL must be an absolute URL or a path starting with "\/"/);
+    });
+
+    test('parses the mock API switch, latency and error rate', () => {
+      expect(
+        parseConfig({
+          VITE_API_BASE_URL: '/api',
+          VITE_API_MOCKS: 'true',
+          VITE_API_MOCK_LATENCY: '0',
+          VITE_API_MOCK_ERROR_RATE: '0.25',
+        }),
+      ).toMatchObject({ mockApi: true, mockLatency: 0, mockErrorRate: 0.25 });
+
+      expect(() =>
+        parseConfig({ VITE_API_BASE_URL: '/api', VITE_API_MOCK_ERROR_RATE: '25' }),
+      ).toThrow(/VITE_API_MOCK_ERROR_RATE must be a number from 0 to 1/);
+    });
+
+    test('reports every missing or malformed variable at once', () => {
+      expect.assertions(4);
+      try {
+        parseConfig({ VITE_API_TIMEOUT: 'soon', VITE_ENABLE_ANALYTICS: 'yes' });
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConfigError);
+        const { problems } = error as ConfigError;
+        expect(problems).toHaveLength(3);
+        expect(problems[0]).toMatch(/VITE_API_BASE_URL is required/);
+        expect((error as Error).message).toMatch(/VITE_API_TIMEOUT must be a positive integer/);
+      }
+    });
+
+    test('rejects a base URL that is neither absolute nor a path', () => {
+      expect(() => parseConfig({ VITE_API_BASE_URL: 'api.example.com' })).toThrow(
+        /must be an absolute URL/,
+      );
+    });
+  });
+
+  describe('getConfig', () => {
+    test('falls back to build-time variables before loadConfig runs', () => {
+      expect(getConfig().apiBaseUrl).toBe('http://localhost:3000/api');
+    });
+  });
+
+  describe('loadConfig', () => {
+    const fetchMock = jest.fn();
+
+    beforeAll(() => {
+      Object.assign(globalThis, { fetch: fetchMock });
+    });
+
+    beforeEach(() => {
+      fetchMock.mockReset();
+    });
+
+    test('applies values from config.json', async () => {
+      fetchMock.mockResolvedValue(
+        new Response(JSON.stringify({ VITE_API_BASE_URL: '/api/v2' }), {
+          headers: { 'content-type': 'application/json' },
+        }),
+      );
+
+      await expect(loadConfig('/config.json')).resolves.toMatchObject({ apiBaseUrl: '/api/v2' });
+      expect(getConfig().apiBaseUrl).toBe('/api/v2');
+    });
+
+    test('uses the build-time variables when there is no config.json', async () => {
+      fetchMock.mockResolvedValue(new Response('Not found', { status: 404 }));
+
+      await expect(loadConfig('/config.json')).resolves.toMatchObject({
+        apiBaseUrl: 'http://localhost:3000/api',
+      });
+    });
+
+    test('reports a config.json that could not be fetched as a ConfigError', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+      const error: unknown = await loadConfig('/config.json').catch((reason: unknown) => reason);
+
+      expect(error).toBeInstanceOf(ConfigError);
+      expect((error as ConfigError).problems).toEqual([
+        '/config.json could not be loaded (Failed to fetch)',
+      ]);
+    });
+
+    test('reports a failed response as a ConfigError', async () => {
+      fetchMock.mockResolvedValue(new Response('Bad gateway', { status: 502 }));
+
+      await expect(loadConfig('/config.json')).rejects.toThrow(
+        '/config.json could not be loaded (HTTP 502)',
+      );
+    });
+  });
+});
@@ -0,0 +1,212 @@
+// src/config/appConfig.ts
+import { API_ENDPOINTS, API_TIMEOUT, MOCK_API } from '@constants/index';
+import { env } from '@config/env';
+
+/**
+ * Typed application configuration.
+ *
+ * Values come from the build-time `VITE_*` variables and can be overridden at
+ * runtime by a `config.json` served next to the bundle, using the same keys:
+ *
+ *   { "VITE_API_BASE_URL": "https://api.staging.example.com" }
+ *
+ * This lets one production image be promoted across environments.
+ */
+export interface AppConfig {
+  apiBaseUrl: string;
+  apiTimeout: number;
+  enableAnalytics: boolean;
+  /** Where telemetry batches are sent; defaults to the API's telemetry endpoint */
+  telemetryEndpoint: string;
+  /** Answer API requests in the browser with the handlers in src/mocks, no backend needed */
+  mockApi: boolean;
+  /** Delay in ms added to every mocked response */
+  mockLatency: number;
+  /** Share (0-1) of mocked requests that fail with a 500, to exercise error states */
+  mockErrorRate: number;
+  /** Realtime endpoint (see utils/realtimeClient.ts); empty when the backend has none */
+  realtimeUrl: string;
+}
+
+type ConfigSource = Record<string, unknown>;
+
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid application configuration:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+// === Field Parsers ===
+// Each returns the parsed value or pushes a readable problem description.
+
+const readString = (source: ConfigSource, key: string): string | undefined => {
+  const value = source[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  return String(value).trim();
+};
+
+const isAbsoluteUrl = (value: string) => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const parseUrl = (
+  source: ConfigSource,
+  key: string,
+  problems: string[],
+  fallback?: string,
+): string => {
+  const value = readString(source, key) ?? fallback;
+  if (!value) {
+    problems.push(`${key} is required (e.g. https://api.example.com or /api)`);
+    return '';
+  }
+  // Allow same-origin paths like `/api` as well as absolute URLs
+  if (!value.startsWith('/') && !isAbsoluteUrl(value)) {
+    problems.push(`${key} must be an absolute URL or a path starting with "/", got "${value}"`);
+  }
+  return value;
+};
+
+const parsePositiveInt = (
+  source: ConfigSource,
+  key: string,
+  fallback: number,
+  problems: string[],
+  { allowZero = false } = {},
+): number => {
+  const value = readString(source, key);
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < (allowZero ? 0 : 1)) {
+    problems.push(
+      `${key} must be a ${allowZero ? 'non-negative' : 'positive'} integer, got "${value}"`,
+    );
+    return fallback;
+  }
+  return parsed;
+};
+
+const parseRate = (
+  source: ConfigSource,
+  key: string,
+  fallback: number,
+  problems: string[],
+): number => {
+  const value = readString(source, key);
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (Number.isNaN(parsed) || parsed < 0 || parsed > 1) {
+    problems.push(`${key} must be a number from 0 to 1, got "${value}"`);
+    return fallback;
+  }
+  return parsed;
+};
+
+const parseBoolean = (
+  source: ConfigSource,
+  key: string,
+  fallback: boolean,
+  problems: string[],
+): boolean => {
+  const value = readString(source, key);
+  if (value === undefined) return fallback;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+
+  problems.push(`${key} must be "true" or "false", got "${value}"`);
+  return fallback;
+};
+
+/**
+ * Validates a raw `VITE_*` key/value source and returns a typed config.
+ * Collects every problem before throwing so they can all be fixed in one go.
+ */
+export const parseConfig = (source: ConfigSource): AppConfig => {
+  const problems: string[] = [];
+
+  const apiBaseUrl = parseUrl(source, 'VITE_API_BASE_URL', problems);
+  const config: AppConfig = {
+    apiBaseUrl,
+    apiTimeout: parsePositiveInt(source, 'VITE_API_TIMEOUT', API_TIMEOUT, problems),
+    enableAnalytics: parseBoolean(source, 'VITE_ENABLE_ANALYTICS', false, problems),
+    telemetryEndpoint: parseUrl(
+      source,
+      'VITE_TELEMETRY_ENDPOINT',
+      problems,
+      `${apiBaseUrl.replace(/\/$/, '')}${API_ENDPOINTS.TELEMETRY}`,
+    ),
+    mockApi: parseBoolean(source, 'VITE_API_MOCKS', false, problems),
+    mockLatency: parsePositiveInt(source, 'VITE_API_MOCK_LATENCY', MOCK_API.LATENCY_MS, problems, {
+      allowZero: true,
+    }),
+    mockErrorRate: parseRate(source, 'VITE_API_MOCK_ERROR_RATE', 0, problems),
+    // Optional, unlike the URLs above: without it the app just doesn't connect
+    realtimeUrl: readString(source, 'VITE_REALTIME_URL')
+      ? parseUrl(source, 'VITE_REALTIME_URL', problems)
+      : '',
+  };
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config;
+};
+
+// === Runtime Loading ===
+
+let currentConfig: AppConfig | null = null;
+
+// Fetches the optional runtime override. A missing file is not an error.
+const fetchRuntimeConfig = async (url: string): Promise<ConfigSource> => {
+  const response = await fetch(url, { cache: 'no-store' }).catch((error: unknown) => {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError([`${url} could not be loaded (${reason})`]);
+  });
+
+  // The dev server answers unknown paths with index.html, so check the content type too
+  const isJson = response.headers.get('content-type')?.includes('application/json');
+  if (response.status === 404 || (response.ok && !isJson)) {
+    return {};
+  }
+  if (!response.ok) {
+    throw new ConfigError([`${url} could not be loaded (HTTP ${response.status})`]);
+  }
+
+  try {
+    return (await response.json()) as ConfigSource;
+  } catch {
+    throw new ConfigError([`${url} is not valid JSON`]);
+  }
+};
+
+/**
+ * Loads and validates the configuration. Call once before the first render;
+ * it throws a ConfigError describing every missing or malformed value.
+ */
+export const loadConfig = async (url = `${env.BASE_URL}config.json`): Promise<AppConfig> => {
+  const runtimeConfig = await fetchRuntimeConfig(url);
+  currentConfig = parseConfig({ ...env, ...runtimeConfig });
+  return currentConfig;
+};
+
+/**
+ * Returns the active configuration. Falls back to the build-time variables
+ * when `loadConfig` has not run (e.g. in unit tests).
+ */
+export const getConfig = (): AppConfig => {
+  if (!currentConfig) {
+    currentConfig = parseConfig(env);
+  }
+  return currentConfig;
+};
@@ -0,0 +1,8 @@
+// src/config/env.ts
+// The only module that reads `import.meta.env`. Everything else imports `env`
+// from here, which lets Jest swap in a process-based stand-in (see __mocks__/env.ts).
+export const env: ImportMetaEnv = import.meta.env;
+
+// `false` in production builds, written as a literal so code behind it is dropped from
+// the bundle entirely. Use it for what must never ship, such as the mock API.
+export const isDevBuild: boolean = import.meta.env.DEV;
@@ -16,16 +16,81 @@
  * - Avoid hardcoding values throughout the app - always define them here
  */
 
+import { env } from '@config/env';
+
+// Application
+export const APP_NAME = 'React + TypeScript Starter Kit';
+export const REPOSITORY_URL = 'https://github.com/kalyankashaboina/react-ci-docker';
+
 // API Configuration
-export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+// The base URL and timeout are resolved at runtime by config/appConfig.ts (VITE_API_BASE_URL,
+// VITE_API_TIMEOUT or config.json); this is the default timeout when none is set.
 export const API_TIMEOUT = 30000; // 30 seconds
 
-// Feature Flags
+// Retry policy for idempotent requests (see utils/retry.ts)
+export const API_RETRY = {
+  RETRIES: 3,
+  BASE_DELAY: 300, // ms, doubled on every attempt
+  MAX_DELAY: 10000, // ms, also caps Retry-After
+  METHODS: ['get', 'head', 'put', 'delete'],
+  STATUS_CODES: [408, 429, 500, 502, 503, 504],
+} as const;
+
+// Mock API used when VITE_API_MOCKS is on, and by tests (see src/mocks)
+export const MOCK_API = {
+  LATENCY_MS: 400, // default delay for mocked responses in the browser
+  ERROR_STATUS: 500, // status of the failures injected by VITE_API_MOCK_ERROR_RATE
+} as const;
+
+// API Endpoints
+export const API_ENDPOINTS = {
+  AUTH_LOGIN: '/auth/login',
+  AUTH_LOGOUT: '/auth/logout',
+  AUTH_REFRESH: '/auth/refresh',
+  AUTH_ME: '/auth/me',
+  USERS: '/users',
+  TELEMETRY: '/telemetry',
+  FEATURE_FLAGS: '/feature-flags',
+} as const;
+
+// Auth Storage Keys (localStorage)
+export const AUTH_STORAGE_KEYS = {
+  ACCESS_TOKEN: 'authToken',
+  REFRESH_TOKEN: 'refreshToken',
+} as const;
+
+// Feature Flags; ENABLE_ANALYTICS defaults to `enableAnalytics` from the runtime config
 export const FEATURES = {
-  ENABLE_ANALYTICS: import.meta.env.VITE_ENABLE_ANALYTICS === 'true',
-  ENABLE_DEBUG_MODE: import.meta.env.MODE === 'development',
+  ENABLE_DEBUG_MODE: env.MODE === 'development',
 };
 
+// Runtime Feature Flags (see services/featureFlagService.ts); FEATURES above are the defaults
+export const FEATURE_FLAGS = {
+  QUERY_PARAM: 'flags', // ?flags=NEW_CHECKOUT,-ENABLE_ANALYTICS or ?flags=reset
+  OVERRIDES_STORAGE_KEY: 'featureFlags:overrides',
+  ANONYMOUS_ID_STORAGE_KEY: 'featureFlags:anonymousId',
+} as const;
+
+// Theming (see components/common/ThemeProvider). The inline script in index.html
+// reads the same storage key to apply the theme before the first paint.
+export const THEMES = {
+  LIGHT: 'light',
+  DARK: 'dark',
+  HIGH_CONTRAST: 'high-contrast',
+} as const;
+
+export const THEME_STORAGE_KEY = 'theme';
+
+// Internationalization (see src/i18n). `dir` drives RTL layout.
+export const LOCALES = {
+  en: { name: 'English', dir: 'ltr' },
+  es: { name: 'Español', dir: 'ltr' },
+  ar: { name: 'العربية', dir: 'rtl' },
+} as const;
+
+export const DEFAULT_LOCALE = 'en';
+export const LOCALE_STORAGE_KEY = 'locale';
+
 // Common Status Values
 export const STATUS = {
   IDLE: 'idle',
@@ -34,6 +99,90 @@ export const STATUS = {
   ERROR: 'error',
 } as const;
 
+// Query Cache (see utils/queryCache.ts)
+export const QUERY_CACHE = {
+  GC_TIME_MS: 5 * 60 * 1000, // entries nothing has used for this long are dropped
+} as const;
+
+// Redux State Persistence (see store/persist.ts)
+export const PERSIST = {
+  KEY_PREFIX: 'persist:',
+  SYNC_SUFFIX: ':updated', // localStorage ping used to sync IndexedDB slices across tabs
+  THROTTLE_MS: 500,
+} as const;
+
+// Logging (see utils/logger.ts)
+export const LOGGING = {
+  BUFFER_SIZE: 50, // recent entries kept in memory and attached to telemetry error events
+} as const;
+
+// Client Telemetry (see utils/telemetry.ts)
+export const TELEMETRY = {
+  BATCH_SIZE: 20,
+  FLUSH_INTERVAL_MS: 5000,
+  QUEUE_STORAGE_KEY: 'telemetry:queue', // localStorage, holds batches that failed to send
+  MAX_QUEUED_EVENTS: 500,
+} as const;
+
+// Realtime Channel (see utils/realtimeClient.ts)
+export const REALTIME = {
+  WEBSOCKET_PATH: '/ws',
+  SSE_PATH: '/sse', // fallback where WebSockets can't connect
+  HEARTBEAT_INTERVAL_MS: 25000, // ping sent over the WebSocket
+  HEARTBEAT_TIMEOUT_MS: 60000, // nothing received for this long: the connection is dead
+  RECONNECT_BASE_DELAY: 1000, // ms, doubled on every attempt
+  RECONNECT_MAX_DELAY: 30000,
+  WEBSOCKET_ATTEMPTS: 2, // WebSocket connections that never open before switching to SSE
+  UNAUTHORIZED_CLOSE_CODE: 4401, // close code for a missing or expired token
+} as const;
+
+// Offline Support (see utils/serviceWorker.ts and utils/outbox.ts)
+export const OFFLINE = {
+  SERVICE_WORKER_URL: 'sw.js', // relative to the Vite base, emitted by vite.prod.config.ts
+  UPDATE_CHECK_INTERVAL_MS: 60 * 60 * 1000, // long-lived tabs look for a new deploy hourly
+  OUTBOX_STORAGE_KEY: 'outbox:queue', // localStorage, holds mutations made while offline
+  MAX_OUTBOX_ENTRIES: 100,
+} as const;
+
+// Toast Notifications (see store/slices/toastSlice.ts)
+export const TOAST = {
+  DURATION_MS: 5000,
+  ERROR_DURATION_MS: 8000, // errors stay longer so they can be read
+  MAX_VISIBLE: 5, // the oldest toast is dropped beyond this
+} as const;
+
+// Lists and Tables (see hooks/usePaginatedList.ts and components/common/DataTable)
+export const DATA_TABLE = {
+  PAGE_SIZE: 20,
+  PAGE_SIZE_OPTIONS: [10, 20, 50, 100],
+  FILTER_DEBOUNCE_MS: 300, // server-side filters wait for typing to pause
+  ROW_HEIGHT: 44, // px, fixed so virtualized rows can be positioned without measuring
+  OVERSCAN: 8, // virtualized rows rendered beyond each edge of the viewport
+} as const;
+
+// Application Routes
+export const ROUTES = {
+  HOME: '/',
+  LOGIN: '/login',
+  USERS: '/users',
+} as const;
+
+// User Roles
+export const USER_ROLES = {
+  ADMIN: 'admin',
+  USER: 'user',
+} as const;
+
+// API Error Kinds (see utils/apiError.ts)
+export const API_ERROR_KIND = {
+  NETWORK: 'network',
+  TIMEOUT: 'timeout',
+  VALIDATION: 'validation',
+  AUTH: 'auth',
+  NOT_FOUND: 'notFound',
+  SERVER: 'server',
+  CANCELLED: 'cancelled',
+  UNKNOWN: 'unknown',
+} as const;
+
 // Example: Add more constants as needed
-// export const USER_ROLES = { ... };
-// export const ERROR_MESSAGES = { ... };
@@ -9,12 +9,58 @@
  * - Abstract common stateful logic to avoid repetition (DRY principle)
  * - Make hooks self-contained and reusable across components
  *
+ * Data fetching:
+ * - useQuery: Cached, deduplicated reads with stale-while-revalidate
+ * - useMutation: Writes that invalidate cached queries by key
+ * - usePaginatedList: Offset- or cursor-paginated lists with sort and filter (see <DataTable>)
+ * - useLatestRequest: Imperative requests where each call aborts the previous one
+ *
+ * Routing:
+ * - useUrlState: Filters, sort order and paging kept in the query string, with typed parsing
+ *
+ * Forms:
+ * - useForm: Values, schema validation, touched/dirty state and submission (see components/common/Form)
+ *
+ * Realtime:
+ * - useSubscription: Events on a realtime topic while mounted, and the connection status
+ *
+ * Offline and updates:
+ * - useOnlineStatus: Whether the browser currently has a network connection
+ * - useUpdateAvailable: Whether a new deploy is waiting, and a way to switch to it (see <UpdatePrompt>)
+ *
+ * Feature flags:
+ * - useFeatureFlag: Whether a runtime flag is on for the current user (see <Feature>)
+ *
  * Examples:
  * - useUserData: Fetch and manage user data
- * - usePaginatedList: Handle pagination logic
  * - useLocalStorage: Interact with browser's localStorage
  */
 
 // Export custom hooks here
+export { useQuery } from './useQuery';
+export type { UseQueryOptions, UseQueryResult } from './useQuery';
+export { useMutation } from './useMutation';
+export type { UseMutationOptions } from './useMutation';
+export { useLatestRequest } from './useLatestRequest';
+export { usePaginatedList } from './usePaginatedList';
+export type {
+  CursorPage,
+  OffsetPage,
+  PaginationState,
+  SortState,
+  UsePaginatedListOptions,
+} from './usePaginatedList';
+export { parseUrlState, urlParam, useUrlState, writeUrlState } from './useUrlState';
+export type { SetUrlStateOptions, UrlParam, UrlState, UrlStateSchema } from './useUrlState';
+export { useForm } from './useForm';
+export type { FormValues, UseFormOptions, UseFormReturn } from './useForm';
+export { useErrorHandler } from './useErrorHandler';
+export { useSubscription } from './useSubscription';
+export type { UseSubscriptionOptions } from './useSubscription';
+export { useOnlineStatus } from './useOnlineStatus';
+export { useUpdateAvailable } from './useUpdateAvailable';
+export { useFeatureFlag } from './useFeatureFlag';
+export { useTheme } from './useTheme';
+export { useTranslation } from './useTranslation';
+export { useLocalizedPath } from './useLocalizedPath';
 // export { useUserData } from './useUserData';
-// export { usePaginatedList } from './usePaginatedList';
@@ -0,0 +1,25 @@
+// src/hooks/useErrorHandler.ts
+import { useCallback, useState } from 'react';
+import { isCancelledError } from '@utils/apiError';
+
+/**
+ * Lets event handlers and async code hand an error to the nearest ErrorBoundary.
+ * The error is re-thrown during the next render, where boundaries can catch it.
+ * Cancelled requests are ignored.
+ *
+ * @example
+ * const handleError = useErrorHandler();
+ * useEffect(() => { loadData().catch(handleError); }, [handleError]);
+ */
+export const useErrorHandler = () => {
+  const [error, setError] = useState<unknown>(null);
+
+  if (error !== null) {
+    throw error;
+  }
+
+  return useCallback((caught: unknown) => {
+    if (isCancelledError(caught)) return;
+    setError(caught ?? new Error('Unknown error'));
+  }, []);
+};
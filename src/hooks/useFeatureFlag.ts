@@ -0,0 +1,20 @@
+// src/hooks/useFeatureFlag.ts
+import { useSyncExternalStore } from 'react';
+import { featureFlagService, type FlagName } from '@services/featureFlagService';
+import { useAppSelector } from '@store/hooks';
+import { selectCurrentUser } from '@store/slices/authSlice';
+
+/**
+ * Returns whether a feature flag is on for the current user.
+ * Re-renders when remote rules load, overrides change or the user signs in or out.
+ *
+ * @example
+ * const newCheckout = useFeatureFlag('NEW_CHECKOUT');
+ */
+export const useFeatureFlag = (name: FlagName): boolean => {
+  const user = useAppSelector(selectCurrentUser);
+  // Subscribing to the state snapshot is what triggers re-renders on changes
+  useSyncExternalStore(featureFlagService.subscribe, featureFlagService.getState);
+
+  return featureFlagService.isEnabled(name, user);
+};
@@ -0,0 +1,169 @@
+// src/hooks/useForm.test.tsx
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { API_ERROR_KIND } from '@constants/index';
+import type { ApiError } from '@utils/apiError';
+import { email, minLength, required } from '@utils/validation';
+import { useForm } from './useForm';
+
+const changeEvent = (value: string) =>
+  ({ target: { value, type: 'text' } }) as React.ChangeEvent<HTMLInputElement>;
+
+const setup = (onSubmit: (values: { email: string; password: string }) => unknown = jest.fn()) =>
+  renderHook(() =>
+    useForm({
+      initialValues: { email: '', password: '' },
+      schema: { email: [required(), email()], password: minLength(8) },
+      onSubmit,
+    }),
+  );
+
+describe('useForm', () => {
+  test('tracks values and dirty state', () => {
+    const { result } = setup();
+
+    act(() => result.current.register('email').onChange(changeEvent('a@b.co')));
+
+    expect(result.current.values.email).toBe('a@b.co');
+    expect(result.current.dirty).toEqual({ email: true, password: false });
+    expect(result.current.isDirty).toBe(true);
+
+    act(() => result.current.register('email').onChange(changeEvent('')));
+    expect(result.current.isDirty).toBe(false);
+  });
+
+  test('shows field errors only after the field is touched', () => {
+    const { result } = setup();
+
+    act(() => result.current.register('email').onChange(changeEvent('nope')));
+    expect(result.current.register('email').error).toBeUndefined();
+
+    act(() => result.current.register('email').onBlur());
+    expect(result.current.touched.email).toBe(true);
+    expect(result.current.register('email').error).toBe('Enter a valid email address');
+
+    // Touched fields revalidate on every change
+    act(() => result.current.register('email').onChange(changeEvent('a@b.co')));
+    expect(result.current.register('email').error).toBeUndefined();
+  });
+
+  test('validates every field on submit and skips onSubmit while invalid', async () => {
+    const onSubmit = jest.fn();
+    const { result } = setup(onSubmit);
+
+    await act(() => result.current.handleSubmit());
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(result.current.submitCount).toBe(1);
+    expect(result.current.register('email').error).toBe('This field is required');
+    expect(result.current.isValid).toBe(false);
+  });
+
+  test('submits valid values and tracks the submit state', async () => {
+    let finish: () => void = () => {};
+    const onSubmit = jest.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+    const { result } = setup(onSubmit);
+    act(() => {
+      result.current.register('email').onChange(changeEvent('a@b.co'));
+    });
+    act(() => {
+      result.current.register('password').onChange(changeEvent('correct horse'));
+    });
+
+    let submission: Promise<void> = Promise.resolve();
+    act(() => {
+      submission = result.current.handleSubmit();
+    });
+    await waitFor(() =>
+      expect(onSubmit).toHaveBeenCalledWith({ email: 'a@b.co', password: 'correct horse' }),
+    );
+    expect(result.current.isSubmitting).toBe(true);
+
+    await act(async () => {
+      finish();
+      await submission;
+    });
+    expect(result.current.isSubmitting).toBe(false);
+  });
+
+  test('runs async validators and ignores results for outdated values', async () => {
+    const resolvers: Record<string, (message?: string) => void> = {};
+    const { result } = renderHook(() =>
+      useForm({
+        initialValues: { username: '' },
+        schema: {
+          username: (value) => new Promise((resolve) => (resolvers[value] = resolve)),
+        },
+        onSubmit: jest.fn(),
+      }),
+    );
+
+    act(() => result.current.register('username').onChange(changeEvent('taken')));
+    act(() => result.current.register('username').onBlur());
+    expect(result.current.isValidating).toBe(true);
+
+    act(() => result.current.register('username').onChange(changeEvent('free')));
+    await act(async () => {
+      resolvers.free(undefined);
+      resolvers.taken('Already taken');
+    });
+
+    expect(result.current.isValidating).toBe(false);
+    expect(result.current.errors.username).toBeUndefined();
+  });
+
+  test('maps 422 field errors from the API onto the form', async () => {
+    const apiError: ApiError = {
+      name: 'ApiError',
+      kind: API_ERROR_KIND.VALIDATION,
+      message: 'The given data was invalid.',
+      status: 422,
+      fieldErrors: { email: ['Email is already taken'], plan: ['Plan is not available'] },
+    };
+    const { result } = setup(() => Promise.reject(apiError));
+    act(() => {
+      result.current.register('email').onChange(changeEvent('a@b.co'));
+    });
+
+    await act(() => result.current.handleSubmit());
+
+    expect(result.current.register('email').error).toBe('Email is already taken');
+    // Messages for fields the form doesn't have are shown for the whole form
+    expect(result.current.formError).toBe('Plan is not available');
+  });
+
+  test('shows other API errors as the form error, but not cancellations', async () => {
+    const serverError: ApiError = {
+      name: 'ApiError',
+      kind: API_ERROR_KIND.SERVER,
+      message: 'Something went wrong',
+      status: 500,
+    };
+    const onSubmit = jest.fn().mockRejectedValueOnce(serverError).mockRejectedValueOnce({
+      name: 'ApiError',
+      kind: API_ERROR_KIND.CANCELLED,
+      message: 'The request was cancelled.',
+    });
+    const { result } = setup(onSubmit);
+    act(() => {
+      result.current.register('email').onChange(changeEvent('a@b.co'));
+    });
+
+    await act(() => result.current.handleSubmit());
+    expect(result.current.formError).toBe('Something went wrong');
+
+    await act(() => result.current.handleSubmit());
+    expect(result.current.formError).toBeNull();
+  });
+
+  test('reset restores the initial values and clears state', async () => {
+    const { result } = setup();
+    act(() => result.current.register('email').onChange(changeEvent('x')));
+    await act(() => result.current.handleSubmit());
+
+    act(() => result.current.reset());
+
+    expect(result.current.values).toEqual({ email: '', password: '' });
+    expect(result.current.errors).toEqual({});
+    expect(result.current.submitCount).toBe(0);
+  });
+});
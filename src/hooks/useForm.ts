@@ -0,0 +1,266 @@
+// src/hooks/useForm.ts
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { API_ERROR_KIND } from '@constants/index';
+import { isApiError, normalizeApiError } from '@utils/apiError';
+import { reportError } from '@utils/errorReporter';
+import { createLogger } from '@utils/logger';
+import { runValidators, type ValidationResult, type ValidationSchema } from '@utils/validation';
+
+/** Native inputs produce strings, checkboxes booleans */
+export type FormValues = Record<string, string | boolean>;
+
+export type FieldElement = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+export interface UseFormOptions<T extends FormValues> {
+  initialValues: T;
+  schema?: ValidationSchema<T>;
+  /**
+   * Called with valid values. A rejected ApiError is shown on the form: 422 field
+   * errors on their fields, anything else as `formError`.
+   */
+  onSubmit: (values: T) => unknown;
+}
+
+/** Props for the field components (`Input`, `Checkbox`, ...), from `register` */
+export interface FieldRegistration {
+  name: string;
+  value?: string;
+  checked?: boolean;
+  onChange: (event: React.ChangeEvent<FieldElement>) => void;
+  onBlur: () => void;
+  /** Only set once the field was touched or the form submitted */
+  error?: string;
+}
+
+type FieldErrors<T> = Partial<Record<keyof T, string>>;
+type FieldFlags<T> = Partial<Record<keyof T, boolean>>;
+
+const log = createLogger('form');
+
+/**
+ * Form state, validation and submission.
+ *
+ * Fields validate on blur, then on every change once touched. Submitting validates
+ * everything, focuses the first invalid field and only calls `onSubmit` when all
+ * fields pass.
+ *
+ * @example
+ * const form = useForm({
+ *   initialValues: { email: '', terms: false },
+ *   schema: { email: [required(), email()], terms: required('Please accept the terms') },
+ *   onSubmit: (values) => userService.signUp(values),
+ * });
+ *
+ * <Form form={form}>
+ *   <Input label="Email" type="email" {...form.register('email')} />
+ *   <Checkbox label="I accept the terms" {...form.register('terms')} />
+ *   <Button type="submit" loading={form.isSubmitting}>Sign up</Button>
+ * </Form>
+ */
+export const useForm = <T extends FormValues>({
+  initialValues,
+  schema = {},
+  onSubmit,
+}: UseFormOptions<T>) => {
+  const [initial, setInitial] = useState(initialValues);
+  const [values, setValues] = useState(initialValues);
+  const [errors, setErrors] = useState<FieldErrors<T>>({});
+  const [touched, setTouched] = useState<FieldFlags<T>>({});
+  const [validating, setValidating] = useState<FieldFlags<T>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitCount, setSubmitCount] = useState(0);
+
+  // Latest values for async work, and a counter per field so a slow async
+  // validation can't overwrite the result for a newer value
+  const valuesRef = useRef(values);
+  const validationRuns = useRef<Partial<Record<keyof T, number>>>({});
+  const isSubmittingRef = useRef(false);
+
+  const validateField = useCallback(
+    (name: keyof T, nextValues: T): ValidationResult | Promise<ValidationResult> => {
+      const run = (validationRuns.current[name] ?? 0) + 1;
+      validationRuns.current[name] = run;
+
+      const apply = (message: ValidationResult) => {
+        if (validationRuns.current[name] === run) {
+          setErrors((prev) => ({ ...prev, [name]: message }));
+        }
+        return message;
+      };
+
+      const result = runValidators(schema[name], nextValues[name], nextValues);
+      if (!(result instanceof Promise)) return apply(result);
+
+      setValidating((prev) => ({ ...prev, [name]: true }));
+      return result
+        .catch((error: unknown) => {
+          log.warn('Validator failed', { field: String(name), error });
+          return undefined;
+        })
+        .then(apply)
+        .finally(() => {
+          if (validationRuns.current[name] === run) {
+            setValidating((prev) => ({ ...prev, [name]: false }));
+          }
+        });
+    },
+    [schema],
+  );
+
+  const setValue = useCallback(
+    <K extends keyof T>(name: K, value: T[K]) => {
+      const nextValues = { ...valuesRef.current, [name]: value };
+      valuesRef.current = nextValues;
+      setValues(nextValues);
+      if (touched[name] || submitCount > 0) {
+        void validateField(name, nextValues);
+      }
+    },
+    [touched, submitCount, validateField],
+  );
+
+  const handleBlur = useCallback(
+    (name: keyof T) => {
+      setTouched((prev) => ({ ...prev, [name]: true }));
+      void validateField(name, valuesRef.current);
+    },
+    [validateField],
+  );
+
+  /** Shows a message on a field, e.g. from a custom server check */
+  const setFieldError = useCallback((name: keyof T, message: string | undefined) => {
+    setErrors((prev) => ({ ...prev, [name]: message }));
+    setTouched((prev) => ({ ...prev, [name]: true }));
+  }, []);
+
+  // 422 responses become field errors; messages for fields the form doesn't have,
+  // and every other failure, become the form-level error
+  const applySubmitError = useCallback((error: unknown) => {
+    if (!isApiError(error)) reportError(error, { source: 'useForm' });
+    const apiError = normalizeApiError(error);
+    if (apiError.kind === API_ERROR_KIND.CANCELLED) return;
+
+    if (apiError.kind !== API_ERROR_KIND.VALIDATION) {
+      setFormError(apiError.message);
+      return;
+    }
+
+    const fieldErrors: FieldErrors<T> = {};
+    const unmatched: string[] = [];
+    Object.entries(apiError.fieldErrors).forEach(([field, messages]) => {
+      if (field in valuesRef.current) {
+        fieldErrors[field as keyof T] = messages.join(' ');
+      } else {
+        unmatched.push(...messages);
+      }
+    });
+
+    setErrors((prev) => ({ ...prev, ...fieldErrors }));
+    const hasFieldErrors = Object.keys(fieldErrors).length > 0;
+    setFormError(
+      unmatched.length > 0 ? unmatched.join(' ') : hasFieldErrors ? null : apiError.message,
+    );
+  }, []);
+
+  const handleSubmit = useCallback(
+    async (event?: React.FormEvent<HTMLFormElement>) => {
+      event?.preventDefault();
+      if (isSubmittingRef.current) return;
+
+      const form = event?.currentTarget;
+      const submitted = valuesRef.current;
+      const names = Object.keys(submitted) as (keyof T)[];
+
+      setSubmitCount((count) => count + 1);
+      setTouched(Object.fromEntries(names.map((name) => [name, true])) as FieldFlags<T>);
+      setFormError(null);
+
+      isSubmittingRef.current = true;
+      setIsSubmitting(true);
+      try {
+        const messages = await Promise.all(names.map((name) => validateField(name, submitted)));
+        const firstInvalid = names.find((_, index) => messages[index]);
+        if (firstInvalid !== undefined) {
+          form?.querySelector<HTMLElement>(`[name="${String(firstInvalid)}"]`)?.focus();
+          return;
+        }
+
+        await onSubmit(submitted);
+      } catch (error) {
+        applySubmitError(error);
+      } finally {
+        isSubmittingRef.current = false;
+        setIsSubmitting(false);
+      }
+    },
+    [validateField, onSubmit, applySubmitError],
+  );
+
+  /** Clears all state; pass values to make them the new baseline for `dirty` */
+  const reset = useCallback(
+    (nextValues?: T) => {
+      const baseline = nextValues ?? initial;
+      valuesRef.current = baseline;
+      validationRuns.current = {};
+      setInitial(baseline);
+      setValues(baseline);
+      setErrors({});
+      setTouched({});
+      setValidating({});
+      setFormError(null);
+      setSubmitCount(0);
+    },
+    [initial],
+  );
+
+  const register = useCallback(
+    (name: keyof T & string): FieldRegistration => {
+      const value = values[name];
+      const isVisible = touched[name] || submitCount > 0;
+      return {
+        name,
+        ...(typeof value === 'boolean' ? { checked: value } : { value }),
+        onChange: (event) => {
+          const { target } = event;
+          const next =
+            target instanceof HTMLInputElement && target.type === 'checkbox'
+              ? target.checked
+              : target.value;
+          setValue(name, next as T[typeof name]);
+        },
+        onBlur: () => handleBlur(name),
+        error: isVisible ? errors[name] : undefined,
+      };
+    },
+    [values, touched, submitCount, errors, setValue, handleBlur],
+  );
+
+  const dirty = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.keys(values).map((name) => [name, !Object.is(values[name], initial[name])]),
+      ) as FieldFlags<T>,
+    [values, initial],
+  );
+
+  return {
+    values,
+    errors,
+    touched,
+    dirty,
+    formError,
+    isDirty: Object.values(dirty).some(Boolean),
+    isValid: Object.values(errors).every((message) => !message),
+    isValidating: Object.values(validating).some(Boolean),
+    isSubmitting,
+    submitCount,
+    register,
+    setValue,
+    setFieldError,
+    handleSubmit,
+    reset,
+  };
+};
+
+export type UseFormReturn<T extends FormValues> = ReturnType<typeof useForm<T>>;
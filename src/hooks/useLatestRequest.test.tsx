@@ -0,0 +1,68 @@
+// src/hooks/useLatestRequest.test.tsx
+import { act, renderHook } from '@testing-library/react';
+import { API_ERROR_KIND } from '@constants/index';
+import { useLatestRequest } from './useLatestRequest';
+
+interface Deferred {
+  term: string;
+  signal: AbortSignal;
+  resolve: (value: string) => void;
+}
+
+// Requests that settle only when the test says so, in any order
+const setup = () => {
+  const pending: Deferred[] = [];
+  const request = (signal: AbortSignal, term: string) =>
+    new Promise<string>((resolve) => {
+      pending.push({ term, signal, resolve });
+    });
+  const hook = renderHook(() => useLatestRequest(request));
+  return { pending, hook };
+};
+
+describe('useLatestRequest', () => {
+  test('resolves with the result of the latest call', async () => {
+    const { pending, hook } = setup();
+
+    let result: Promise<string> | undefined;
+    act(() => {
+      result = hook.result.current.run('ada');
+    });
+    pending[0].resolve('Ada Lovelace');
+
+    await expect(result).resolves.toBe('Ada Lovelace');
+  });
+
+  test('aborts and rejects an older call once a newer one starts', async () => {
+    const { pending, hook } = setup();
+
+    let first: Promise<string> | undefined;
+    let second: Promise<string> | undefined;
+    act(() => {
+      first = hook.result.current.run('a');
+      second = hook.result.current.run('ad');
+    });
+
+    expect(pending[0].signal.aborted).toBe(true);
+    // Even if the old response still arrives, it loses to the newer call
+    pending[0].resolve('stale');
+    pending[1].resolve('fresh');
+
+    await expect(first).rejects.toMatchObject({ kind: API_ERROR_KIND.CANCELLED });
+    await expect(second).resolves.toBe('fresh');
+  });
+
+  test('aborts the call in flight on unmount', async () => {
+    const { pending, hook } = setup();
+
+    let result: Promise<string> | undefined;
+    act(() => {
+      result = hook.result.current.run('ada');
+    });
+    hook.unmount();
+
+    expect(pending[0].signal.aborted).toBe(true);
+    pending[0].resolve('too late');
+    await expect(result).rejects.toMatchObject({ kind: API_ERROR_KIND.CANCELLED });
+  });
+});
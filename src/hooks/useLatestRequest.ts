@@ -0,0 +1,64 @@
+// src/hooks/useLatestRequest.ts
+import { useCallback, useEffect, useRef } from 'react';
+import { createCancelledError } from '@utils/apiError';
+
+/**
+ * Runs a request so that only the latest call counts ("latest wins").
+ *
+ * Each call aborts the previous one, and unmounting aborts whatever is still in
+ * flight. Superseded calls reject with a cancelled ApiError, even when the request
+ * ignored its signal, so a slow old response can never overwrite a newer one.
+ * Check with `isCancelledError` and ignore those.
+ *
+ * For data shown on screen prefer `useQuery`, which does the same per key; this is
+ * for imperative requests such as search-as-you-type suggestions.
+ *
+ * @example
+ * const { run: search } = useLatestRequest((signal, term: string) =>
+ *   userService.search(term, { signal }),
+ * );
+ *
+ * const handleChange = (term: string) =>
+ *   search(term).then(setSuggestions, (error) => {
+ *     if (!isCancelledError(error)) setSearchError(error);
+ *   });
+ */
+export const useLatestRequest = <TArgs extends unknown[], TResult>(
+  request: (signal: AbortSignal, ...args: TArgs) => Promise<TResult>,
+) => {
+  const requestRef = useRef(request);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    requestRef.current = request;
+  });
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const run = useCallback(
+    async (...args: TArgs): Promise<TResult> => {
+      cancel();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      try {
+        const result = await requestRef.current(controller.signal, ...args);
+        if (controller.signal.aborted) throw createCancelledError();
+        return result;
+      } catch (error) {
+        if (controller.signal.aborted) throw createCancelledError();
+        throw error;
+      } finally {
+        if (controllerRef.current === controller) controllerRef.current = null;
+      }
+    },
+    [cancel],
+  );
+
+  return { run, cancel };
+};
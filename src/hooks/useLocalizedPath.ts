@@ -0,0 +1,17 @@
+// src/hooks/useLocalizedPath.ts
+import { useCallback } from 'react';
+import { useLocation } from 'react-router-dom';
+import { getLocaleFromPath, localizePath } from '@i18n/locale';
+
+/**
+ * Keeps links inside the current `/:locale/` prefix, if the URL has one.
+ *
+ * @example
+ * const localize = useLocalizedPath();
+ * <NavLink to={localize(ROUTES.LOGIN)} />   // "/es/login" while on "/es/..."
+ */
+export const useLocalizedPath = () => {
+  const { pathname } = useLocation();
+  const prefix = getLocaleFromPath(pathname);
+  return useCallback((path: string) => localizePath(path, prefix), [prefix]);
+};
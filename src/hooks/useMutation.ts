@@ -0,0 +1,84 @@
+// src/hooks/useMutation.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { STATUS } from '@constants/index';
+import { isCancelledError, normalizeApiError, type ApiError } from '@utils/apiError';
+import { queryCache, type QueryKey, type QueryStatus } from '@utils/queryCache';
+
+export interface UseMutationOptions<TData, TVariables> {
+  /** Query key prefixes to invalidate once the mutation succeeds */
+  invalidates?: QueryKey[];
+  onSuccess?: (data: TData, variables: TVariables) => void;
+  onError?: (error: ApiError, variables: TVariables) => void;
+}
+
+interface MutationState<TData> {
+  data: TData | undefined;
+  error: ApiError | null;
+  status: QueryStatus;
+}
+
+const initialState = { data: undefined, error: null, status: STATUS.IDLE } as const;
+
+/**
+ * Runs a write operation (create/update/delete) and tracks its state.
+ *
+ * @example
+ * const { mutate, status } = useMutation(userService.updateUser, { invalidates: [['users']] });
+ */
+export const useMutation = <TData, TVariables = void>(
+  mutationFn: (variables: TVariables) => Promise<TData>,
+  options: UseMutationOptions<TData, TVariables> = {},
+) => {
+  const [state, setState] = useState<MutationState<TData>>(initialState);
+
+  // Always call the latest function/callbacks without re-creating `mutate`
+  const mutationFnRef = useRef(mutationFn);
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    mutationFnRef.current = mutationFn;
+    optionsRef.current = options;
+  });
+
+  const mutateAsync = useCallback(async (variables: TVariables): Promise<TData> => {
+    setState({ data: undefined, error: null, status: STATUS.LOADING });
+    const { invalidates = [], onSuccess, onError } = optionsRef.current;
+
+    try {
+      const data = await mutationFnRef.current(variables);
+      setState({ data, error: null, status: STATUS.SUCCESS });
+      invalidates.forEach((key) => queryCache.invalidate(key));
+      onSuccess?.(data, variables);
+      return data;
+    } catch (error) {
+      const apiError = normalizeApiError(error);
+      // A cancelled write didn't fail; the promise still rejects so callers stop waiting
+      if (isCancelledError(apiError)) {
+        setState(initialState);
+      } else {
+        setState({ data: undefined, error: apiError, status: STATUS.ERROR });
+        onError?.(apiError, variables);
+      }
+      throw apiError;
+    }
+  }, []);
+
+  // Fire-and-forget variant; errors are available through `error`
+  const mutate = useCallback(
+    (variables: TVariables) => {
+      mutateAsync(variables).catch(() => {});
+    },
+    [mutateAsync],
+  );
+
+  const reset = useCallback(() => setState(initialState), []);
+
+  return {
+    ...state,
+    isLoading: state.status === STATUS.LOADING,
+    isSuccess: state.status === STATUS.SUCCESS,
+    isError: state.status === STATUS.ERROR,
+    mutate,
+    mutateAsync,
+    reset,
+  };
+};
@@ -0,0 +1,22 @@
+// src/hooks/useOnlineStatus.ts
+import { useSyncExternalStore } from 'react';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+const getSnapshot = () => navigator.onLine;
+
+/**
+ * Whether the browser has a network connection, updated as it comes and goes.
+ * `true` only means there is a network, not that the API is reachable.
+ *
+ * @example
+ * const isOnline = useOnlineStatus();
+ */
+export const useOnlineStatus = (): boolean => useSyncExternalStore(subscribe, getSnapshot);
@@ -0,0 +1,144 @@
+// src/hooks/usePaginatedList.test.tsx
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { DATA_TABLE, STATUS } from '@constants/index';
+import { queryCache } from '@utils/queryCache';
+import { usePaginatedList, type CursorFetcher, type OffsetFetcher } from './usePaginatedList';
+
+const letters = 'abcdefghijklmnopqrstuvwxy'.split('');
+
+const offsetFetcher: OffsetFetcher<string> = async ({ offset, pageSize, filter }) => {
+  const matching = letters.filter((letter) => letter.includes(filter));
+  return { items: matching.slice(offset, offset + pageSize), total: matching.length };
+};
+
+describe('usePaginatedList', () => {
+  afterEach(() => {
+    queryCache.clear();
+    jest.useRealTimers();
+  });
+
+  test('pages through an offset API', async () => {
+    const fetcher = jest.fn(offsetFetcher);
+    const { result } = renderHook(() =>
+      usePaginatedList(['letters'], { mode: 'offset', fetcher, pageSize: 10 }),
+    );
+
+    await waitFor(() => expect(result.current.status).toBe(STATUS.SUCCESS));
+    expect(result.current.items).toEqual(letters.slice(0, 10));
+    expect(result.current).toMatchObject({ page: 1, pageCount: 3, total: 25 });
+    expect(result.current.hasPreviousPage).toBe(false);
+
+    act(() => result.current.nextPage());
+    await waitFor(() => expect(result.current.items).toEqual(letters.slice(10, 20)));
+    expect(fetcher).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2, offset: 10 }));
+
+    act(() => result.current.goToPage?.(3));
+    await waitFor(() => expect(result.current.items).toEqual(letters.slice(20)));
+    expect(result.current.hasNextPage).toBe(false);
+  });
+
+  test('remembers cursors so a cursor API can go back', async () => {
+    const fetcher = jest.fn<ReturnType<CursorFetcher<string>>, Parameters<CursorFetcher<string>>>(
+      async ({ cursor, pageSize }) => {
+        const start = cursor === null ? 0 : Number(cursor);
+        const end = start + pageSize;
+        return {
+          items: letters.slice(start, end),
+          nextCursor: end < letters.length ? String(end) : null,
+        };
+      },
+    );
+    const { result } = renderHook(() =>
+      usePaginatedList(['cursor-letters'], {
+        mode: 'cursor',
+        fetcher,
+        pageSize: 20,
+        staleTime: 60_000,
+      }),
+    );
+
+    await waitFor(() => expect(result.current.status).toBe(STATUS.SUCCESS));
+    expect(result.current.pageCount).toBeUndefined();
+    expect(result.current.goToPage).toBeUndefined();
+    expect(result.current.hasNextPage).toBe(true);
+
+    act(() => result.current.nextPage());
+    await waitFor(() => expect(result.current.items).toEqual(letters.slice(20)));
+    expect(fetcher).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: '20' }));
+    expect(result.current.hasNextPage).toBe(false);
+
+    act(() => result.current.previousPage());
+    expect(result.current.page).toBe(1);
+    // Served from the cache under the first page's key
+    expect(result.current.items).toEqual(letters.slice(0, 20));
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  test('starts from the first page when the sort or page size changes', async () => {
+    const fetcher = jest.fn(offsetFetcher);
+    const { result } = renderHook(() =>
+      usePaginatedList(['sorted-letters'], { mode: 'offset', fetcher, pageSize: 10 }),
+    );
+    await waitFor(() => expect(result.current.status).toBe(STATUS.SUCCESS));
+
+    act(() => result.current.nextPage());
+    await waitFor(() => expect(result.current.page).toBe(2));
+
+    act(() => result.current.setSort({ key: 'letter', direction: 'desc' }));
+    expect(result.current.page).toBe(1);
+    await waitFor(() =>
+      expect(fetcher).toHaveBeenLastCalledWith(
+        expect.objectContaining({ page: 1, sort: { key: 'letter', direction: 'desc' } }),
+      ),
+    );
+
+    act(() => result.current.nextPage());
+    await waitFor(() => expect(result.current.page).toBe(2));
+    act(() => result.current.setPageSize(50));
+    expect(result.current.page).toBe(1);
+    await waitFor(() => expect(result.current.items).toHaveLength(25));
+  });
+
+  test('moves to the new last page when the list shrinks under the current one', async () => {
+    let rows = letters;
+    const fetcher = jest.fn<ReturnType<OffsetFetcher<string>>, Parameters<OffsetFetcher<string>>>(
+      async ({ offset, pageSize }) => ({
+        items: rows.slice(offset, offset + pageSize),
+        total: rows.length,
+      }),
+    );
+    const { result } = renderHook(() =>
+      usePaginatedList(['shrinking-letters'], { mode: 'offset', fetcher, pageSize: 10 }),
+    );
+    await waitFor(() => expect(result.current.status).toBe(STATUS.SUCCESS));
+    act(() => result.current.goToPage?.(3));
+    await waitFor(() => expect(result.current.items).toEqual(letters.slice(20)));
+
+    // e.g. the rows on the last page were deleted elsewhere
+    rows = letters.slice(0, 15);
+    await act(() => result.current.refetch());
+
+    await waitFor(() => expect(result.current.items).toEqual(letters.slice(10, 15)));
+    expect(result.current).toMatchObject({ page: 2, pageCount: 2, total: 15 });
+    expect(fetcher).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2, offset: 10 }));
+  });
+
+  test('applies the filter once typing pauses', async () => {
+    jest.useFakeTimers();
+    const fetcher = jest.fn(offsetFetcher);
+    const { result } = renderHook(() =>
+      usePaginatedList(['filtered-letters'], { mode: 'offset', fetcher, pageSize: 10 }),
+    );
+    await waitFor(() => expect(result.current.status).toBe(STATUS.SUCCESS));
+
+    act(() => result.current.setFilter('q'));
+    act(() => jest.advanceTimersByTime(DATA_TABLE.FILTER_DEBOUNCE_MS - 1));
+    expect(result.current.filter).toBe('q');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    act(() => jest.advanceTimersByTime(1));
+    await waitFor(() => expect(result.current.items).toEqual(['q']));
+    expect(fetcher).toHaveBeenLastCalledWith(expect.objectContaining({ filter: 'q', page: 1 }));
+    expect(result.current.total).toBe(1);
+  });
+});
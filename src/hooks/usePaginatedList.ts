@@ -0,0 +1,200 @@
+// src/hooks/usePaginatedList.ts
+import { useCallback, useEffect, useState } from 'react';
+import { DATA_TABLE } from '@constants/index';
+import type { QueryKey } from '@utils/queryCache';
+import { useQuery } from './useQuery';
+
+export type SortDirection = 'asc' | 'desc';
+
+/** Column being sorted, or `null` for the API's default order */
+export type SortState = { key: string; direction: SortDirection } | null;
+
+export interface ListParams {
+  pageSize: number;
+  sort: SortState;
+  /** Free-text filter, debounced while the user types */
+  filter: string;
+}
+
+/** Offset APIs: `GET /users?offset=40&limit=20` -> `{ items, total }` */
+export interface OffsetPage<T> {
+  items: T[];
+  total: number;
+}
+
+/** Cursor APIs: `GET /events?cursor=abc&limit=20` -> `{ items, nextCursor }` */
+export interface CursorPage<T> {
+  items: T[];
+  /** `null` on the last page */
+  nextCursor: string | null;
+}
+
+export type OffsetFetcher<T> = (
+  params: ListParams & { page: number; offset: number; signal: AbortSignal },
+) => Promise<OffsetPage<T>>;
+
+export type CursorFetcher<T> = (
+  params: ListParams & { cursor: string | null; signal: AbortSignal },
+) => Promise<CursorPage<T>>;
+
+interface BaseOptions {
+  pageSize?: number;
+  initialSort?: SortState;
+  initialFilter?: string;
+  /** How long (ms) a fetched page is served from cache before it is refetched */
+  staleTime?: number;
+}
+
+export type UsePaginatedListOptions<T> =
+  | (BaseOptions & { mode: 'offset'; fetcher: OffsetFetcher<T> })
+  | (BaseOptions & { mode: 'cursor'; fetcher: CursorFetcher<T> });
+
+/** Page navigation, shaped so the hook's result can be passed to `<DataTable pagination>` */
+export interface PaginationState {
+  /** 1-based */
+  page: number;
+  pageSize: number;
+  /** Unknown for cursor APIs */
+  pageCount?: number;
+  total?: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  nextPage: () => void;
+  previousPage: () => void;
+  /** Offset APIs only; cursor APIs can't jump ahead */
+  goToPage?: (page: number) => void;
+  setPageSize: (pageSize: number) => void;
+}
+
+/**
+ * Server-side pagination, sorting and filtering on top of `useQuery`.
+ *
+ * Every page is cached under `[...key, params]`, so going back is instant. Changing
+ * the sort, filter or page size starts again from the first page. For cursor APIs
+ * the cursors of visited pages are remembered, so "previous" works as well. Leaving
+ * a page aborts its request (via `signal`), so only the latest one can land.
+ *
+ * @example
+ * const users = usePaginatedList(['users'], {
+ *   mode: 'offset',
+ *   fetcher: ({ offset, pageSize, sort, filter, signal }) =>
+ *     userService.list({ offset, limit: pageSize, sort, q: filter }, { signal }),
+ * });
+ *
+ * <DataTable mode="server" rows={users.items} status={users.status} pagination={users} ... />
+ */
+export const usePaginatedList = <T>(key: QueryKey, options: UsePaginatedListOptions<T>) => {
+  const {
+    pageSize: initialPageSize = DATA_TABLE.PAGE_SIZE,
+    initialSort = null,
+    initialFilter = '',
+    staleTime,
+  } = options;
+
+  const [pageSize, setPageSizeState] = useState(initialPageSize);
+  const [sort, setSortState] = useState<SortState>(initialSort);
+  const [filter, setFilterState] = useState(initialFilter);
+  const [appliedFilter, setAppliedFilter] = useState(initialFilter);
+  const [page, setPage] = useState(1);
+  // Cursor mode: cursors[i] loads page i + 1
+  const [cursors, setCursors] = useState<(string | null)[]>([null]);
+
+  const restart = useCallback(() => {
+    setPage(1);
+    setCursors([null]);
+  }, []);
+
+  // Apply the filter once typing pauses, not on every keystroke
+  useEffect(() => {
+    if (filter === appliedFilter) return;
+    const timer = setTimeout(() => {
+      setAppliedFilter(filter);
+      restart();
+    }, DATA_TABLE.FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filter, appliedFilter, restart]);
+
+  const params: ListParams = { pageSize, sort, filter: appliedFilter };
+  const cursor = cursors[page - 1] ?? null;
+
+  const query = useQuery<OffsetPage<T> | CursorPage<T>>(
+    [...key, options.mode === 'offset' ? { ...params, page } : { ...params, cursor }],
+    ({ signal }) =>
+      options.mode === 'offset'
+        ? options.fetcher({ ...params, page, offset: (page - 1) * pageSize, signal })
+        : options.fetcher({ ...params, cursor, signal }),
+    { staleTime },
+  );
+
+  const { data } = query;
+  const total = data && 'total' in data ? data.total : undefined;
+  const nextCursor = data && 'nextCursor' in data ? data.nextCursor : null;
+  const pageCount = total === undefined ? undefined : Math.max(1, Math.ceil(total / pageSize));
+
+  // The list shrank under the current page, e.g. its last rows were deleted: move to the
+  // new last page. Set during render, so the out-of-range page is never shown.
+  if (pageCount !== undefined && page > pageCount) {
+    setPage(pageCount);
+  }
+
+  const hasNextPage = pageCount === undefined ? nextCursor !== null : page < pageCount;
+  const hasPreviousPage = page > 1;
+
+  const nextPage = useCallback(() => {
+    if (!hasNextPage) return;
+    if (options.mode === 'cursor') {
+      setCursors((prev) => [...prev.slice(0, page), nextCursor]);
+    }
+    setPage(page + 1);
+  }, [hasNextPage, options.mode, page, nextCursor]);
+
+  const previousPage = useCallback(() => {
+    setPage((current) => Math.max(1, current - 1));
+  }, []);
+
+  const goToPage = useCallback(
+    (target: number) => {
+      setPage(Math.min(Math.max(1, target), pageCount ?? 1));
+    },
+    [pageCount],
+  );
+
+  const setPageSize = useCallback(
+    (size: number) => {
+      setPageSizeState(size);
+      restart();
+    },
+    [restart],
+  );
+
+  const setSort = useCallback(
+    (next: SortState) => {
+      setSortState(next);
+      restart();
+    },
+    [restart],
+  );
+
+  return {
+    items: data?.items ?? [],
+    status: query.status,
+    error: query.error,
+    isFetching: query.isFetching,
+    refetch: query.refetch,
+    page,
+    pageSize,
+    pageCount,
+    total,
+    hasNextPage,
+    hasPreviousPage,
+    nextPage,
+    previousPage,
+    goToPage: options.mode === 'offset' ? goToPage : undefined,
+    setPageSize,
+    sort,
+    setSort,
+    /** The filter as typed; the request uses it after a short pause */
+    filter,
+    setFilter: setFilterState,
+  };
+};
@@ -0,0 +1,164 @@
+// src/hooks/useQuery.test.tsx
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { CanceledError } from 'axios';
+import { QUERY_CACHE, STATUS } from '@constants/index';
+import { queryCache, type QueryFetcherContext } from '@utils/queryCache';
+import { useQuery } from './useQuery';
+import { useMutation } from './useMutation';
+
+// Never settles by itself; rejects the way axios does once the signal aborts
+const untilAborted = ({ signal }: QueryFetcherContext) =>
+  new Promise<never>((_, reject) => {
+    signal.addEventListener('abort', () => reject(new CanceledError()));
+  });
+
+describe('useQuery', () => {
+  afterEach(() => {
+    queryCache.clear();
+    jest.useRealTimers();
+  });
+
+  test('reports loading, then success with the fetched data', async () => {
+    const fetcher = jest.fn().mockResolvedValue({ id: 1 });
+    const { result } = renderHook(() => useQuery(['user', 1], fetcher));
+
+    expect(result.current.status).toBe(STATUS.LOADING);
+    await waitFor(() => expect(result.current.status).toBe(STATUS.SUCCESS));
+    expect(result.current.data).toEqual({ id: 1 });
+  });
+
+  test('deduplicates concurrent requests for the same key', async () => {
+    const fetcher = jest.fn().mockResolvedValue('shared');
+    const first = renderHook(() => useQuery(['shared'], fetcher));
+    const second = renderHook(() => useQuery(['shared'], fetcher));
+
+    await waitFor(() => expect(second.result.current.data).toBe('shared'));
+    expect(first.result.current.data).toBe('shared');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  test('serves fresh cached data without refetching', async () => {
+    const fetcher = jest.fn().mockResolvedValue('cached');
+    const first = renderHook(() => useQuery(['cached'], fetcher, { staleTime: 60_000 }));
+    await waitFor(() => expect(first.result.current.data).toBe('cached'));
+
+    const second = renderHook(() => useQuery(['cached'], fetcher, { staleTime: 60_000 }));
+    expect(second.result.current.data).toBe('cached');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  test('exposes failures as a normalized ApiError', async () => {
+    const fetcher = jest.fn().mockRejectedValue(new Error('boom'));
+    const { result } = renderHook(() => useQuery(['failing'], fetcher));
+
+    await waitFor(() => expect(result.current.status).toBe(STATUS.ERROR));
+    expect(result.current.error).toMatchObject({ name: 'ApiError', kind: 'unknown' });
+  });
+
+  test('does not fetch while disabled', () => {
+    const fetcher = jest.fn().mockResolvedValue('never');
+    const { result } = renderHook(() => useQuery(['disabled'], fetcher, { enabled: false }));
+
+    expect(result.current.status).toBe(STATUS.IDLE);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  test('aborts the request once no component uses the key', async () => {
+    const fetcher = jest.fn(untilAborted);
+    const { unmount } = renderHook(() => useQuery(['report'], fetcher));
+    const [{ signal }] = fetcher.mock.calls[0];
+
+    unmount();
+
+    await waitFor(() => expect(signal.aborted).toBe(true));
+    // Cancelled is not a failure: the entry goes back to where it was
+    await waitFor(() => expect(queryCache.getState(['report']).isFetching).toBe(false));
+    expect(queryCache.getState(['report'])).toMatchObject({ status: STATUS.IDLE, error: null });
+  });
+
+  test('aborts the previous key when the key changes, so the latest request wins', async () => {
+    const fetcher = jest.fn((term: string, context: QueryFetcherContext) =>
+      term === 'slow' ? untilAborted(context) : Promise.resolve(`results for ${term}`),
+    );
+    const { result, rerender } = renderHook(
+      ({ term }) => useQuery(['search', term], (context) => fetcher(term, context)),
+      { initialProps: { term: 'slow' } },
+    );
+
+    rerender({ term: 'fast' });
+
+    await waitFor(() => expect(result.current.data).toBe('results for fast'));
+    expect(fetcher.mock.calls[0][1].signal.aborted).toBe(true);
+    expect(result.current.error).toBeNull();
+  });
+
+  test('keeps a shared request while another component still uses the key', async () => {
+    const fetcher = jest.fn(untilAborted);
+    const first = renderHook(() => useQuery(['shared-slow'], fetcher));
+    const second = renderHook(() => useQuery(['shared-slow'], fetcher));
+
+    first.unmount();
+    await act(() => new Promise((resolve) => setTimeout(resolve, 10)));
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(fetcher.mock.calls[0][0].signal.aborted).toBe(false);
+    second.unmount();
+  });
+
+  test('drops cached data once nothing has used it for the gc time', async () => {
+    jest.useFakeTimers({ doNotFake: ['queueMicrotask'] });
+    const fetcher = jest.fn().mockResolvedValue('report');
+    const render = () => renderHook(() => useQuery(['gc'], fetcher, { staleTime: Infinity }));
+
+    const first = render();
+    await waitFor(() => expect(first.result.current.data).toBe('report'));
+    first.unmount();
+
+    // Coming back in time finds the data, and starts the wait over
+    act(() => jest.advanceTimersByTime(QUERY_CACHE.GC_TIME_MS - 1));
+    const second = render();
+    expect(second.result.current.data).toBe('report');
+    second.unmount();
+
+    act(() => jest.advanceTimersByTime(1));
+    expect(queryCache.getState(['gc']).data).toBe('report');
+    act(() => jest.advanceTimersByTime(QUERY_CACHE.GC_TIME_MS - 1));
+    expect(queryCache.getState(['gc']).data).toBeUndefined();
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  test('refetches queries invalidated by a mutation', async () => {
+    let todos = ['a'];
+    const fetcher = jest.fn(() => Promise.resolve([...todos]));
+    const query = renderHook(() => useQuery(['todos', 'list'], fetcher, { staleTime: 60_000 }));
+    await waitFor(() => expect(query.result.current.data).toEqual(['a']));
+
+    const mutation = renderHook(() =>
+      useMutation(
+        async (todo: string) => {
+          todos = [...todos, todo];
+        },
+        { invalidates: [['todos']] },
+      ),
+    );
+
+    await act(() => mutation.result.current.mutateAsync('b'));
+
+    expect(mutation.result.current.status).toBe(STATUS.SUCCESS);
+    await waitFor(() => expect(query.result.current.data).toEqual(['a', 'b']));
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  test('treats a cancelled mutation as neither success nor error', async () => {
+    const onError = jest.fn();
+    const { result } = renderHook(() =>
+      useMutation((_id: string) => Promise.reject(new CanceledError()), { onError }),
+    );
+
+    await act(() => result.current.mutateAsync('42').catch(() => {}));
+
+    expect(result.current.status).toBe(STATUS.IDLE);
+    expect(result.current.error).toBeNull();
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
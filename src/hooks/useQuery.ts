@@ -0,0 +1,106 @@
+// src/hooks/useQuery.ts
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { STATUS } from '@constants/index';
+import {
+  hashQueryKey,
+  queryCache,
+  type QueryFetcher,
+  type QueryKey,
+  type QueryState,
+} from '@utils/queryCache';
+
+export interface UseQueryOptions {
+  /** Set to false to hold off fetching, e.g. until a required id is known */
+  enabled?: boolean;
+  /** How long (ms) cached data counts as fresh before it is revalidated */
+  staleTime?: number;
+  /** Revalidate stale data when the window regains focus */
+  refetchOnWindowFocus?: boolean;
+}
+
+export interface UseQueryResult<T> extends QueryState<T> {
+  isLoading: boolean;
+  isSuccess: boolean;
+  isError: boolean;
+  refetch: () => Promise<T>;
+}
+
+/**
+ * Fetches and caches data under `key`.
+ *
+ * Components using the same key share one cache entry and one in-flight request.
+ * Cached data is returned immediately and revalidated in the background once stale.
+ *
+ * The fetcher gets an AbortSignal that fires once no component uses the key any
+ * more: on unmount, or when the key changes, so the latest search term wins.
+ *
+ * @example
+ * const { data: user, status } = useQuery(['users', id], ({ signal }) =>
+ *   userService.getUser(id, { signal }),
+ * );
+ */
+export const useQuery = <T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { enabled = true, staleTime = 0, refetchOnWindowFocus = true }: UseQueryOptions = {},
+): UseQueryResult<T> => {
+  // Callers usually pass a new array literal on every render; only the contents matter,
+  // so the key the cache sees is rebuilt from its hash and changes only with it
+  const hash = hashQueryKey(key);
+  const queryKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => queryCache.subscribe(queryKey, listener),
+    [queryKey],
+  );
+  const getSnapshot = useCallback(() => queryCache.getState<T>(queryKey), [queryKey]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  const refetch = useCallback(
+    () => queryCache.fetch(queryKey, (context) => fetcherRef.current(context)),
+    [queryKey],
+  );
+
+  // Fetch on mount / key change when there is no fresh data
+  useEffect(() => {
+    if (!enabled) return;
+
+    queryCache.setFetcher(queryKey, (context) => fetcherRef.current(context));
+    if (queryCache.isStale(queryKey, staleTime)) {
+      refetch().catch(() => {
+        // The error is stored in the cache and returned as `error`
+      });
+    }
+  }, [enabled, queryKey, staleTime, refetch]);
+
+  // Revalidate when the user comes back to the tab
+  useEffect(() => {
+    if (!enabled || !refetchOnWindowFocus) return;
+
+    const handleFocus = () => {
+      if (document.visibilityState === 'visible' && queryCache.isStale(queryKey, staleTime)) {
+        refetch().catch(() => {});
+      }
+    };
+
+    window.addEventListener('focus', handleFocus);
+    document.addEventListener('visibilitychange', handleFocus);
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('visibilitychange', handleFocus);
+    };
+  }, [enabled, refetchOnWindowFocus, queryKey, staleTime, refetch]);
+
+  return {
+    ...state,
+    isLoading: state.status === STATUS.LOADING,
+    isSuccess: state.status === STATUS.SUCCESS,
+    isError: state.status === STATUS.ERROR,
+    refetch,
+  };
+};
@@ -0,0 +1,60 @@
+// src/hooks/useSubscription.test.tsx
+import { act, renderHook } from '@testing-library/react';
+import { createMockRealtimeServer } from '@mocks/realtimeServer';
+import { realtime } from '@services/realtime';
+import { useSubscription } from './useSubscription';
+
+jest.mock('@config/appConfig', () => {
+  const actual = jest.requireActual<typeof import('@config/appConfig')>('@config/appConfig');
+  return { ...actual, getConfig: () => ({ ...actual.getConfig(), realtimeUrl: '/realtime' }) };
+});
+
+const server = createMockRealtimeServer();
+
+// Lets the mock server open the connection
+const connect = async () => {
+  await act(async () => {
+    realtime.connect();
+  });
+};
+
+describe('useSubscription', () => {
+  beforeEach(() => server.listen());
+  afterEach(() => {
+    act(() => {
+      realtime.disconnect();
+    });
+    server.close();
+  });
+
+  test('returns the latest event on the topic and the connection status', async () => {
+    const onEvent = jest.fn();
+    const { result } = renderHook(() => useSubscription('user.deleted', onEvent));
+    expect(result.current).toEqual({ data: undefined, status: 'idle' });
+
+    await connect();
+    expect(result.current.status).toBe('open');
+
+    act(() => {
+      server.publish('user.deleted', { id: '4' });
+    });
+    expect(result.current.data).toEqual({ id: '4' });
+    expect(onEvent).toHaveBeenCalledWith({ id: '4' });
+  });
+
+  test('unsubscribes on unmount and while disabled', async () => {
+    await connect();
+    const { rerender, unmount } = renderHook(
+      ({ enabled }) => useSubscription('user.deleted', undefined, { enabled }),
+      { initialProps: { enabled: false } },
+    );
+    const [connection] = server.getConnections();
+    expect(connection.topics.has('user.deleted')).toBe(false);
+
+    rerender({ enabled: true });
+    expect(connection.topics.has('user.deleted')).toBe(true);
+
+    unmount();
+    expect(connection.topics.has('user.deleted')).toBe(false);
+  });
+});
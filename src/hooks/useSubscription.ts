@@ -0,0 +1,45 @@
+// src/hooks/useSubscription.ts
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { realtime, type RealtimeEvents, type RealtimeTopic } from '@services/realtime';
+
+export interface UseSubscriptionOptions {
+  /** Subscribe only while true (default true) */
+  enabled?: boolean;
+}
+
+/**
+ * Subscribes to a realtime topic while the component is mounted.
+ * Returns the data of the latest event (`undefined` until one arrives) and the
+ * connection status; `onEvent` is called for every event.
+ *
+ * Data that lives in Redux is already kept up to date from store.ts; this is for
+ * what only one screen cares about.
+ *
+ * @example
+ * const { data: lastNotification, status } = useSubscription('notification', (event) =>
+ *   setUnread((count) => count + 1),
+ * );
+ */
+export const useSubscription = <K extends RealtimeTopic>(
+  topic: K,
+  onEvent?: (data: RealtimeEvents[K]) => void,
+  { enabled = true }: UseSubscriptionOptions = {},
+) => {
+  const [data, setData] = useState<RealtimeEvents[K]>();
+  const onEventRef = useRef(onEvent);
+  const status = useSyncExternalStore(realtime.onStatusChange, realtime.getStatus);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    return realtime.subscribe(topic, (event) => {
+      setData(event);
+      onEventRef.current?.(event);
+    });
+  }, [topic, enabled]);
+
+  return { data, status };
+};
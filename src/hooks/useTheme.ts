@@ -0,0 +1,18 @@
+// src/hooks/useTheme.ts
+import { useContext } from 'react';
+import { ThemeContext } from '@components/common/ThemeProvider/ThemeContext';
+
+/**
+ * Current theme and a setter for the user's preference.
+ *
+ * @example
+ * const { theme, preference, setPreference } = useTheme();
+ * setPreference('dark');
+ */
+export const useTheme = () => {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error('useTheme must be used inside <ThemeProvider>');
+  }
+  return context;
+};
@@ -0,0 +1,18 @@
+// src/hooks/useTranslation.ts
+import { useContext } from 'react';
+import { I18nContext } from '@i18n/I18nContext';
+
+/**
+ * Translation function, current locale and locale-aware formatters.
+ *
+ * @example
+ * const { t, formatNumber } = useTranslation();
+ * t('home.tools.count', { count: 9 }); // "9 tools ready to use"
+ */
+export const useTranslation = () => {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useTranslation must be used inside <I18nProvider>');
+  }
+  return context;
+};
@@ -0,0 +1,18 @@
+// src/hooks/useUpdateAvailable.ts
+import { useSyncExternalStore } from 'react';
+import { serviceWorker } from '@utils/serviceWorker';
+
+/**
+ * Whether a new deploy has been downloaded and is waiting to take over (see <UpdatePrompt>).
+ * `applyUpdate` switches to it and reloads the page.
+ *
+ * @example
+ * const { isUpdateAvailable, applyUpdate } = useUpdateAvailable();
+ */
+export const useUpdateAvailable = () => {
+  const isUpdateAvailable = useSyncExternalStore(
+    serviceWorker.onUpdateAvailable,
+    serviceWorker.isUpdateAvailable,
+  );
+  return { isUpdateAvailable, applyUpdate: serviceWorker.applyUpdate };
+};
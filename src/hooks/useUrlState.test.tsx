@@ -0,0 +1,71 @@
+// src/hooks/useUrlState.test.tsx
+import { act, renderHook } from '@testing-library/react';
+import { MemoryRouter, useLocation, useNavigate } from 'react-router-dom';
+import { useUrlState, urlParam } from './useUrlState';
+
+const schema = {
+  q: urlParam.string(),
+  page: urlParam.number(1, { min: 1 }),
+  order: urlParam.oneOf(['asc', 'desc'], 'asc'),
+  roles: urlParam.list(['admin', 'user']),
+  archived: urlParam.boolean(),
+};
+
+const setup = (url: string) =>
+  renderHook(
+    () => ({ url: useUrlState(schema), location: useLocation(), navigate: useNavigate() }),
+    {
+      wrapper: ({ children }) => <MemoryRouter initialEntries={[url]}>{children}</MemoryRouter>,
+    },
+  );
+
+describe('useUrlState', () => {
+  test('parses typed values from the query string', () => {
+    const { result } = setup('/users?q=ada&page=3&order=desc&roles=admin,owner&archived=true');
+
+    expect(result.current.url[0]).toEqual({
+      q: 'ada',
+      page: 3,
+      order: 'desc',
+      roles: ['admin'],
+      archived: true,
+    });
+  });
+
+  test('falls back to the defaults for missing or invalid values', () => {
+    const { result } = setup('/users?page=-2&order=sideways&archived=maybe');
+
+    expect(result.current.url[0]).toEqual({
+      q: '',
+      page: 1,
+      order: 'asc',
+      roles: [],
+      archived: false,
+    });
+  });
+
+  test('writes changes, leaving out defaults and keeping unrelated parameters', () => {
+    const { result } = setup('/users?tab=active&page=2');
+
+    act(() => result.current.url[1]({ q: 'ada', page: 1, roles: ['admin', 'user'] }));
+
+    expect(result.current.location.search).toBe('?tab=active&q=ada&roles=admin%2Cuser');
+    expect(result.current.url[0]).toMatchObject({ q: 'ada', page: 1, roles: ['admin', 'user'] });
+  });
+
+  test('adds a history entry per change unless asked to replace', () => {
+    const { result } = setup('/users');
+    const setState = () => result.current.url[1];
+
+    act(() => setState()({ page: 2 }));
+    act(() => setState()((current) => ({ page: current.page + 1 })));
+    act(() => setState()({ q: 'ada' }, { replace: true }));
+    expect(result.current.location.search).toBe('?page=3&q=ada');
+
+    // Back skips the replaced entry and restores the previous page
+    act(() => {
+      void result.current.navigate(-1);
+    });
+    expect(result.current.url[0]).toMatchObject({ page: 2, q: '' });
+  });
+});
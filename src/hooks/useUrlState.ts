@@ -0,0 +1,157 @@
+// src/hooks/useUrlState.ts
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+/**
+ * One query-string parameter: how to read it, how to write it, and its value when
+ * it is missing or invalid. Values equal to the default are left out of the URL.
+ */
+export interface UrlParam<T> {
+  defaultValue: T;
+  /** `raw` is `null` when the parameter is absent; never throws */
+  parse(raw: string | null): T;
+  serialize(value: T): string;
+}
+
+export type UrlStateSchema = Record<string, UrlParam<unknown>>;
+
+/** The typed values described by a schema */
+export type UrlState<S extends UrlStateSchema> = {
+  [K in keyof S]: S[K] extends UrlParam<infer T> ? T : never;
+};
+
+export type UrlStateUpdate<S extends UrlStateSchema> =
+  | Partial<UrlState<S>>
+  | ((current: UrlState<S>) => Partial<UrlState<S>>);
+
+export interface SetUrlStateOptions {
+  /**
+   * Replace the current history entry instead of adding one, e.g. while typing in a
+   * filter. Defaults to false, so the back button steps through sorts and pages.
+   */
+  replace?: boolean;
+}
+
+/** Parameter builders for `useUrlState` schemas */
+export const urlParam = {
+  string: (defaultValue = ''): UrlParam<string> => ({
+    defaultValue,
+    parse: (raw) => raw ?? defaultValue,
+    serialize: (value) => value,
+  }),
+
+  /** Integers by default; out-of-range values fall back to the default */
+  number: (
+    defaultValue: number,
+    { min = -Infinity, max = Infinity, integer = true } = {},
+  ): UrlParam<number> => ({
+    defaultValue,
+    parse: (raw) => {
+      const value = raw === null || raw.trim() === '' ? NaN : Number(raw);
+      const isValid =
+        Number.isFinite(value) &&
+        value >= min &&
+        value <= max &&
+        (!integer || Number.isInteger(value));
+      return isValid ? value : defaultValue;
+    },
+    serialize: (value) => String(value),
+  }),
+
+  boolean: (defaultValue = false): UrlParam<boolean> => ({
+    defaultValue,
+    parse: (raw) => (raw === 'true' ? true : raw === 'false' ? false : defaultValue),
+    serialize: (value) => String(value),
+  }),
+
+  /** One of a fixed set of strings, e.g. a sort column */
+  oneOf: <V extends string>(values: readonly V[], defaultValue: V): UrlParam<V> => ({
+    defaultValue,
+    parse: (raw) => values.find((value) => value === raw) ?? defaultValue,
+    serialize: (value) => value,
+  }),
+
+  /** Comma-separated strings, e.g. `?roles=admin,user`; `values` limits which are kept */
+  list: <V extends string = string>(
+    values?: readonly V[],
+    defaultValue: V[] = [],
+  ): UrlParam<V[]> => ({
+    defaultValue,
+    parse: (raw) => {
+      if (raw === null) return defaultValue;
+      const items = raw.split(',').filter(Boolean);
+      return values ? values.filter((value) => items.includes(value)) : (items as V[]);
+    },
+    serialize: (value) => value.join(','),
+  }),
+};
+
+/** Reads a schema's values from a query string; also for route loaders, via `request.url` */
+export const parseUrlState = <S extends UrlStateSchema>(
+  searchParams: URLSearchParams,
+  schema: S,
+): UrlState<S> =>
+  Object.fromEntries(
+    Object.entries(schema).map(([key, param]) => [key, param.parse(searchParams.get(key))]),
+  ) as UrlState<S>;
+
+/**
+ * Returns a copy of `searchParams` with `patch` written into it. Parameters the
+ * schema doesn't describe are kept.
+ */
+export const writeUrlState = <S extends UrlStateSchema>(
+  searchParams: URLSearchParams,
+  schema: S,
+  patch: Partial<UrlState<S>>,
+) => {
+  const next = new URLSearchParams(searchParams);
+  Object.entries(patch).forEach(([key, value]) => {
+    const param = schema[key];
+    if (!param || value === undefined) return;
+    const raw = param.serialize(value);
+    if (raw === param.serialize(param.defaultValue)) next.delete(key);
+    else next.set(key, raw);
+  });
+  return next;
+};
+
+/**
+ * State kept in the query string, so deep links and the back button restore a view
+ * exactly: filters, sort order, the current page.
+ *
+ * `schema` maps each parameter to a `urlParam` parser; define it once at module level
+ * (a new object every render would re-parse every time). Loaders read the same schema
+ * with `parseUrlState`, so a page and its data always agree on what the URL means.
+ *
+ * @example
+ * const search = {
+ *   q: urlParam.string(),
+ *   sort: urlParam.oneOf(['name', 'email'], 'name'),
+ *   page: urlParam.number(1, { min: 1 }),
+ * };
+ *
+ * const [{ q, sort, page }, setSearch] = useUrlState(search);
+ * setSearch({ sort: 'email', page: 1 });
+ * setSearch({ q: 'ada' }, { replace: true });
+ */
+export const useUrlState = <S extends UrlStateSchema>(schema: S) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const state = useMemo(() => parseUrlState(searchParams, schema), [searchParams, schema]);
+
+  const setState = useCallback(
+    (update: UrlStateUpdate<S>, { replace = false }: SetUrlStateOptions = {}) => {
+      setSearchParams(
+        (current) => {
+          const patch =
+            typeof update === 'function' ? update(parseUrlState(current, schema)) : update;
+          return writeUrlState(current, schema, patch);
+        },
+        { replace },
+      );
+    },
+    [schema, setSearchParams],
+  );
+
+  return [state, setState] as const;
+};
@@ -0,0 +1,16 @@
+// src/i18n/I18nContext.ts
+import { createContext } from 'react';
+import type { Locale } from './locale';
+import type { Translate } from './translator';
+
+export interface I18nContextValue {
+  /** Locale whose messages are currently shown */
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: Date | number, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
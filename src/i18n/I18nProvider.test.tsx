@@ -0,0 +1,47 @@
+// src/i18n/I18nProvider.test.tsx
+import { render, screen, fireEvent } from '@testing-library/react';
+import { useTranslation } from '@hooks/useTranslation';
+import I18nProvider from './I18nProvider';
+
+const Greeting = () => {
+  const { t, setLocale } = useTranslation();
+  return (
+    <>
+      <p>{t('home.hero.getStarted')}</p>
+      <button onClick={() => setLocale('ar')}>Arabic</button>
+    </>
+  );
+};
+
+describe('I18nProvider', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  test('renders the initial locale and sets the document language', () => {
+    render(
+      <I18nProvider initialLocale="en">
+        <Greeting />
+      </I18nProvider>,
+    );
+
+    expect(screen.getByText('Get Started')).toBeInTheDocument();
+    expect(document.documentElement.lang).toBe('en');
+    expect(document.documentElement.dir).toBe('ltr');
+  });
+
+  test('switches locale once its catalog has loaded and applies the text direction', async () => {
+    render(
+      <I18nProvider initialLocale="en">
+        <Greeting />
+      </I18nProvider>,
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Arabic' }));
+
+    expect(await screen.findByText('ابدأ الآن')).toBeInTheDocument();
+    expect(document.documentElement.lang).toBe('ar');
+    expect(document.documentElement.dir).toBe('rtl');
+    expect(localStorage.getItem('locale')).toBe('ar');
+  });
+});
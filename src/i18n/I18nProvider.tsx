@@ -0,0 +1,69 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { DEFAULT_LOCALE, LOCALES } from '@constants/index';
+import { createLogger } from '@utils/logger';
+import { I18nContext } from './I18nContext';
+import { applyLocale, detectLocale, saveLocale, type Locale } from './locale';
+import { createTranslator, isCatalogLoaded, loadMessages, setActiveLocale } from './translator';
+
+const log = createLogger('i18n');
+
+interface I18nProviderProps {
+  children: React.ReactNode;
+  /** Overrides detection, e.g. in tests */
+  initialLocale?: Locale;
+}
+
+/**
+ * Provides translations and locale-aware formatting.
+ *
+ * Switching to a locale whose catalog isn't loaded yet keeps showing the current
+ * one until it arrives, so text never flashes as raw keys.
+ */
+const I18nProvider: React.FC<I18nProviderProps> = ({ children, initialLocale }) => {
+  const [requestedLocale, setRequestedLocale] = useState(() => initialLocale ?? detectLocale());
+  const [locale, setLoadedLocale] = useState<Locale>(() =>
+    isCatalogLoaded(requestedLocale) ? requestedLocale : DEFAULT_LOCALE,
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMessages(requestedLocale)
+      .then(() => {
+        if (!cancelled) setLoadedLocale(requestedLocale);
+      })
+      .catch((error: unknown) => {
+        log.error('Could not load messages', { locale: requestedLocale, error });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [requestedLocale]);
+
+  useEffect(() => {
+    applyLocale(locale);
+    setActiveLocale(locale);
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    saveLocale(next);
+    setRequestedLocale(next);
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      locale,
+      dir: LOCALES[locale].dir,
+      setLocale,
+      t: createTranslator(locale),
+      formatNumber: (value: number, options?: Intl.NumberFormatOptions) =>
+        new Intl.NumberFormat(locale, options).format(value),
+      formatDate: (value: Date | number, options?: Intl.DateTimeFormatOptions) =>
+        new Intl.DateTimeFormat(locale, options).format(value),
+    }),
+    [locale, setLocale],
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
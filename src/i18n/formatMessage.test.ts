@@ -0,0 +1,43 @@
+// src/i18n/formatMessage.test.ts
+import { formatMessage } from './formatMessage';
+
+describe('formatMessage', () => {
+  test('interpolates values', () => {
+    expect(formatMessage('Hello {name}!', { name: 'Ada' })).toBe('Hello Ada!');
+  });
+
+  test('selects plural forms with exact matches and the locale rules', () => {
+    const message = '{count, plural, =0 {No items} one {# item} other {# items}}';
+    expect(formatMessage(message, { count: 0 })).toBe('No items');
+    expect(formatMessage(message, { count: 1 })).toBe('1 item');
+    expect(formatMessage(message, { count: 1200 })).toBe('1,200 items');
+  });
+
+  test('uses the plural categories of the given locale', () => {
+    const message = '{count, plural, one {one} two {two} few {few} many {many} other {other}}';
+    expect(formatMessage(message, { count: 2 }, 'ar')).toBe('two');
+    expect(formatMessage(message, { count: 5 }, 'ar')).toBe('few');
+    expect(formatMessage(message, { count: 2 }, 'en')).toBe('other');
+  });
+
+  test('supports select with nested plurals', () => {
+    const message =
+      '{role, select, admin {{count, plural, one {# admin} other {# admins}}} other {Members}}';
+    expect(formatMessage(message, { role: 'admin', count: 2 })).toBe('2 admins');
+    expect(formatMessage(message, { role: 'guest', count: 2 })).toBe('Members');
+  });
+
+  test('formats numbers and dates for the locale', () => {
+    expect(formatMessage('{total, number}', { total: 1234.5 }, 'es')).toBe('1234,5');
+    expect(formatMessage('{share, number, percent}', { share: 0.25 })).toBe('25%');
+    expect(formatMessage('{when, date, long}', { when: new Date(2024, 0, 15) }, 'en')).toBe(
+      'January 15, 2024',
+    );
+  });
+
+  test('throws on malformed messages and missing values', () => {
+    expect(() => formatMessage('{count, plural, one {#}}', { count: 1 })).toThrow(/other/);
+    expect(() => formatMessage('Hello {name', { name: 'Ada' })).toThrow(/Expected/);
+    expect(() => formatMessage('Hello {name}')).toThrow(/Missing value/);
+  });
+});
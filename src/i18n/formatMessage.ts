@@ -0,0 +1,183 @@
+// src/i18n/formatMessage.ts
+
+/**
+ * Formats ICU-style messages. The supported subset:
+ *
+ * - Interpolation:  `Hello {name}`
+ * - Numbers/dates:  `{total, number}`, `{when, date}`, `{when, date, long}`
+ * - Plurals:        `{count, plural, =0 {No items} one {# item} other {# items}}`
+ * - Select:         `{role, select, admin {Administrator} other {Member}}`
+ *
+ * `#` inside a plural branch is the locale-formatted count. Parsed messages are
+ * cached, so formatting the same message again only walks the tree.
+ */
+export type MessageValues = Record<string, string | number | Date>;
+
+type MessageNode =
+  | string
+  | { type: 'argument'; name: string; format?: string; style?: string }
+  | { type: 'plural' | 'select'; name: string; options: Record<string, MessageNode[]> }
+  | { type: 'pound' };
+
+const DATE_STYLES = ['short', 'medium', 'long', 'full'] as const;
+
+// === Parser ===
+
+const parseMessage = (message: string): MessageNode[] => {
+  let position = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`${reason} at position ${position} in message "${message}"`);
+  };
+
+  const skipWhitespace = () => {
+    while (/\s/.test(message[position] ?? '')) position += 1;
+  };
+
+  const expect = (char: string) => {
+    if (message[position] !== char) fail(`Expected "${char}"`);
+    position += 1;
+  };
+
+  const readWord = (): string => {
+    skipWhitespace();
+    const word = /^[^\s,{}]+/.exec(message.slice(position))?.[0] ?? fail('Expected a name');
+    position += word.length;
+    skipWhitespace();
+    return word;
+  };
+
+  // Called after the opening "{"
+  const parseArgument = (inPlural: boolean): MessageNode => {
+    const name = readWord();
+    if (message[position] === '}') {
+      position += 1;
+      return { type: 'argument', name };
+    }
+
+    expect(',');
+    const format = readWord();
+
+    if (format === 'plural' || format === 'select') {
+      expect(',');
+      const options: Record<string, MessageNode[]> = {};
+      skipWhitespace();
+      while (message[position] !== '}') {
+        if (position >= message.length) fail('Unclosed argument');
+        const selector = readWord();
+        expect('{');
+        options[selector] = parseNodes(format === 'plural' || inPlural);
+        expect('}');
+        skipWhitespace();
+      }
+      position += 1;
+      if (!options.other) fail(`"${name}" needs an "other" option`);
+      return { type: format, name, options };
+    }
+
+    let style: string | undefined;
+    if (message[position] === ',') {
+      position += 1;
+      style = readWord();
+    }
+    expect('}');
+    return { type: 'argument', name, format, style };
+  };
+
+  // `#` is only special inside a plural branch
+  const parseNodes = (inPlural: boolean): MessageNode[] => {
+    const nodes: MessageNode[] = [];
+    let text = '';
+
+    while (position < message.length && message[position] !== '}') {
+      const char = message[position];
+      if (char === '{' || (char === '#' && inPlural)) {
+        if (text) nodes.push(text);
+        text = '';
+        position += 1;
+        nodes.push(char === '#' ? { type: 'pound' } : parseArgument(inPlural));
+      } else {
+        text += char;
+        position += 1;
+      }
+    }
+
+    if (text) nodes.push(text);
+    return nodes;
+  };
+
+  const nodes = parseNodes(false);
+  if (position < message.length) fail('Unexpected "}"');
+  return nodes;
+};
+
+const parsedMessages = new Map<string, MessageNode[]>();
+
+const parse = (message: string) => {
+  let nodes = parsedMessages.get(message);
+  if (!nodes) {
+    nodes = parseMessage(message);
+    parsedMessages.set(message, nodes);
+  }
+  return nodes;
+};
+
+// === Formatter ===
+
+const formatValue = (
+  value: string | number | Date,
+  locale: string,
+  format?: string,
+  style?: string,
+): string => {
+  if (format === 'number' && typeof value === 'number') {
+    return new Intl.NumberFormat(locale, style === 'percent' ? { style: 'percent' } : {}).format(
+      value,
+    );
+  }
+  if (format === 'date' || format === 'time') {
+    const dateStyle = DATE_STYLES.find((candidate) => candidate === style) ?? 'medium';
+    return new Intl.DateTimeFormat(
+      locale,
+      format === 'date' ? { dateStyle } : { timeStyle: dateStyle },
+    ).format(new Date(value));
+  }
+  if (typeof value === 'number') return new Intl.NumberFormat(locale).format(value);
+  if (value instanceof Date) return new Intl.DateTimeFormat(locale).format(value);
+  return value;
+};
+
+const formatNodes = (
+  nodes: MessageNode[],
+  values: MessageValues,
+  locale: string,
+  count?: number,
+): string =>
+  nodes
+    .map((node) => {
+      if (typeof node === 'string') return node;
+      if (node.type === 'pound') return count === undefined ? '#' : formatValue(count, locale);
+
+      const value = values[node.name];
+      if (value === undefined) {
+        throw new Error(`Missing value for "{${node.name}}"`);
+      }
+
+      if (node.type === 'argument') return formatValue(value, locale, node.format, node.style);
+
+      if (node.type === 'plural') {
+        const amount = Number(value);
+        const branch =
+          node.options[`=${amount}`] ??
+          node.options[new Intl.PluralRules(locale).select(amount)] ??
+          node.options.other;
+        return formatNodes(branch, values, locale, amount);
+      }
+
+      return formatNodes(node.options[String(value)] ?? node.options.other, values, locale, count);
+    })
+    .join('');
+
+/** Formats `message` for `locale`. Throws on malformed messages or missing values. */
+export const formatMessage = (message: string, values: MessageValues = {}, locale = 'en') =>
+  formatNodes(parse(message), values, locale);
@@ -0,0 +1,57 @@
+// src/i18n/locale.ts
+import { DEFAULT_LOCALE, LOCALE_STORAGE_KEY, LOCALES } from '@constants/index';
+
+export type Locale = keyof typeof LOCALES;
+
+export const SUPPORTED_LOCALES = Object.keys(LOCALES) as Locale[];
+
+export const isSupportedLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+/** Locale from an optional `/:locale/` prefix, e.g. `/es/login` -> 'es' */
+export const getLocaleFromPath = (pathname: string): Locale | null => {
+  const segment = pathname.split('/')[1];
+  return isSupportedLocale(segment) ? segment : null;
+};
+
+/** Removes a `/:locale/` prefix: `/es/login` -> `/login`, `/es` -> `/` */
+export const stripLocale = (pathname: string) =>
+  getLocaleFromPath(pathname) ? pathname.replace(/^\/[^/]+/, '') || '/' : pathname;
+
+/** Adds a `/:locale/` prefix to an app path, or leaves it unprefixed when `locale` is null */
+export const localizePath = (path: string, locale: Locale | null) => {
+  if (!locale || !path.startsWith('/')) return path;
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch {
+    // The choice still applies until the page is reloaded
+  }
+};
+
+/** URL prefix first, then the saved choice, then the browser languages, then the default */
+export const detectLocale = (): Locale => {
+  const fromPath = getLocaleFromPath(window.location.pathname);
+  if (fromPath) return fromPath;
+
+  try {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isSupportedLocale(stored)) return stored;
+  } catch {
+    // Storage unavailable: fall through to the browser languages
+  }
+
+  const fromBrowser = navigator.languages
+    ?.map((language) => language.split('-')[0])
+    .find(isSupportedLocale);
+  return fromBrowser ?? DEFAULT_LOCALE;
+};
+
+/** Sets `lang` and `dir` on <html>, which switches the layout to right-to-left where needed */
+export const applyLocale = (locale: Locale) => {
+  document.documentElement.lang = locale;
+  document.documentElement.dir = LOCALES[locale].dir;
+};
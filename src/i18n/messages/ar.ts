@@ -0,0 +1,158 @@
+// src/i18n/messages/ar.ts
+import type { Messages } from './en';
+
+const ar: Partial<Messages> = {
+  'localeSwitcher.label': 'اللغة',
+
+  'home.hero.title': 'حزمة بدء React + TypeScript',
+  'home.hero.subtitle':
+    'أنشئ تطبيقات جاهزة للإنتاج باستخدام Vite وRedux Toolkit وSCSS وESLint وPrettier وDocker وخطوط CI/CD وبنية احترافية.',
+  'home.hero.getStarted': 'ابدأ الآن',
+  'home.hero.learnMore': 'اعرف المزيد',
+
+  'home.features.title': 'لماذا تختار هذا القالب',
+  'home.features.fastSetup.title': 'إعداد سريع',
+  'home.features.fastSetup.desc': 'Vite وRedux Toolkit وSCSS مُعدّة مسبقًا لتطبيقات قابلة للتوسع.',
+  'home.features.secure.title': 'آمن وموثوق',
+  'home.features.secure.desc': 'يفرض ESLint وPrettier وHusky أفضل الممارسات.',
+  'home.features.components.title': 'مكونات قابلة لإعادة الاستخدام',
+  'home.features.components.desc': 'مكونات واجهة معيارية تتبع مبادئ DRY/KISS.',
+  'home.features.stack.title': 'تقنيات حديثة',
+  'home.features.stack.desc': 'React وTypeScript وRedux Toolkit وVite وSCSS.',
+  'home.features.ui.title': 'واجهة احترافية',
+  'home.features.ui.desc': 'تصميم نظيف ومتجاوب باستخدام متغيرات SCSS.',
+  'home.features.docker.title': 'دعم Docker',
+  'home.features.docker.desc': 'ملفات Dockerfile مُعدّة مسبقًا لبيئتي التطوير والإنتاج.',
+
+  'home.devops.title': 'DevOps وخط CI/CD',
+  'home.devops.containers.title': 'الحاويات باستخدام Docker',
+  'home.devops.containers.desc': 'بيئات معزولة وقابلة للتكرار باستخدام Docker وDocker Compose.',
+  'home.devops.ci.title': 'CI/CD مؤتمت',
+  'home.devops.ci.desc': 'GitHub Actions للتكامل والنشر المستمرين.',
+  'home.devops.quality.title': 'جودة الشيفرة',
+  'home.devops.quality.desc': 'يضمن ESLint وPrettier وTypeScript اتساق الشيفرة.',
+  'home.devops.tests.title': 'تغطية الاختبارات',
+  'home.devops.tests.desc': 'Jest وReact Testing Library بتغطية 100%.',
+
+  'home.tools.title': 'الأدوات وأفضل الممارسات المضمّنة',
+  'home.tools.count':
+    '{count, plural, zero {لا توجد أدوات} one {أداة واحدة جاهزة} two {أداتان جاهزتان} few {# أدوات جاهزة} many {# أداة جاهزة} other {# أداة جاهزة}}',
+  'home.tools.principles': 'مبادئ DRY / KISS',
+
+  'common.loadingPage': 'جارٍ تحميل الصفحة',
+  'common.tryAgain': 'حاول مرة أخرى',
+  'common.reload': 'إعادة التحميل',
+
+  'routes.home': 'الرئيسية',
+  'routes.login': 'تسجيل الدخول',
+  'routes.users': 'المستخدمون',
+  'routes.notFound': 'غير موجودة',
+
+  'header.openMenu': 'فتح القائمة',
+  'header.closeMenu': 'إغلاق القائمة',
+  'header.navLabel': 'التنقل الرئيسي',
+  'header.theme.label': 'المظهر',
+  'header.theme.system': 'مظهر النظام',
+  'header.theme.light': 'فاتح',
+  'header.theme.dark': 'داكن',
+  'header.theme.highContrast': 'تباين عالٍ',
+  'header.signIn': 'تسجيل الدخول',
+  'header.signOut': 'تسجيل الخروج',
+
+  'sidebar.expand': 'توسيع الشريط الجانبي',
+  'sidebar.collapse': 'طي الشريط الجانبي',
+  'sidebar.navLabel': 'التنقل الثانوي',
+
+  'appLayout.skipToContent': 'انتقل إلى المحتوى الرئيسي',
+  'footer.source': 'الشيفرة المصدرية على GitHub',
+
+  'errorFallback.title': 'حدث خطأ ما',
+  'errorFallback.message':
+    'حدث خطأ غير متوقع. يمكنك المحاولة مرة أخرى، أو إعادة تحميل الصفحة إذا استمرت المشكلة.',
+
+  'routeError.title': 'تعذّر تحميل هذه الصفحة',
+  'routeError.loadFailed': 'حدث خطأ أثناء تحميل هذه الصفحة.',
+  'routeError.renderFailed': 'حدث خطأ أثناء عرض هذه الصفحة.',
+  'routeError.updated.title': 'يتوفر إصدار جديد',
+  'routeError.updated.message':
+    'تم تحديث التطبيق أثناء استخدامك له. أعد التحميل للحصول على أحدث إصدار.',
+
+  'protectedRoute.userFailed': 'تعذّر تحميل حسابك',
+
+  'notFound.title': 'الصفحة غير موجودة',
+  'notFound.message': 'لم نعثر على {path}. ربما تم نقلها أو حذفها.',
+  'notFound.backHome': 'العودة إلى الرئيسية',
+
+  'login.title': 'تسجيل الدخول',
+  'login.email': 'البريد الإلكتروني',
+  'login.email.required': 'أدخل بريدك الإلكتروني',
+  'login.email.invalid': 'أدخل بريدًا إلكترونيًا صالحًا',
+  'login.password': 'كلمة المرور',
+  'login.password.required': 'أدخل كلمة المرور',
+  'login.submit': 'تسجيل الدخول',
+  'login.submitting': 'جارٍ تسجيل الدخول…',
+
+  'users.title': 'المستخدمون',
+  'users.columns.name': 'الاسم',
+  'users.columns.email': 'البريد الإلكتروني',
+  'users.columns.roles': 'الأدوار',
+  'users.columns.actions': 'الإجراءات',
+  'users.empty': 'لا يوجد مستخدمون بعد',
+  'users.delete': 'حذف',
+  'users.delete.label': 'حذف {name}',
+  'users.delete.failed': 'تعذّر حذف المستخدم',
+
+  'dataTable.empty': 'لا توجد نتائج',
+  'dataTable.noMatches': 'لا توجد صفوف تطابق «{filter}»',
+  'dataTable.loadFailed': 'تعذّر تحميل البيانات.',
+  'dataTable.retry': 'إعادة المحاولة',
+  'dataTable.loading': 'جارٍ تحميل الصفوف',
+  'dataTable.filter.label': 'تصفية {caption}',
+  'dataTable.filter.placeholder': 'تصفية…',
+  'dataTable.selected': 'المحدد: {count, number}',
+  'dataTable.selectAll': 'تحديد كل الصفوف',
+  'dataTable.selectRow': 'تحديد الصف {id}',
+
+  'pagination.label': 'ترقيم الصفحات',
+  'pagination.pageSize': 'عدد الصفوف في الصفحة',
+  'pagination.page': 'الصفحة {page, number}',
+  'pagination.pageOf': 'الصفحة {page, number} من {pageCount, number}',
+  'pagination.rows':
+    '({count, plural, zero {لا صفوف} one {صف واحد} two {صفان} few {# صفوف} many {# صفًا} other {# صف}})',
+  'pagination.previous': 'السابق',
+  'pagination.next': 'التالي',
+
+  'modal.close': 'إغلاق مربع الحوار',
+
+  'toast.regionLabel': 'الإشعارات',
+  'toast.dismiss': 'إغلاق الإشعار',
+
+  'offlineNotice.offline': 'أنت غير متصل. قد لا تتوفر بعض الميزات.',
+  'offlineNotice.pending':
+    'أنت غير متصل. {count, plural, one {سيُرسل تغيير واحد} two {سيُرسل تغييران} few {ستُرسل # تغييرات} many {سيُرسل # تغييرًا} other {سيُرسل # تغيير}} عند عودة الاتصال.',
+  'outbox.replayFailed': 'تعذّر حفظ تغيير أُجري دون اتصال',
+
+  'apiError.network': 'تعذّر الاتصال بالخادم. يُرجى التحقق من اتصالك بالإنترنت.',
+  'apiError.timeout': 'استغرق الخادم وقتًا طويلًا للرد. يُرجى المحاولة مرة أخرى.',
+  'apiError.validation': 'بعض المعلومات التي أدخلتها غير صالحة.',
+  'apiError.auth': 'غير مصرّح لك بذلك. يُرجى تسجيل الدخول والمحاولة مرة أخرى.',
+  'apiError.notFound': 'تعذّر العثور على المورد المطلوب.',
+  'apiError.server': 'حدث خطأ من جهتنا. يُرجى المحاولة لاحقًا.',
+  'apiError.cancelled': 'أُلغي الطلب.',
+  'apiError.unknown': 'حدث خطأ غير متوقع. يُرجى المحاولة مرة أخرى.',
+
+  'validation.required': 'هذا الحقل مطلوب',
+  'validation.minLength':
+    'يجب ألا يقل عن {length, plural, one {حرف واحد} two {حرفين} few {# أحرف} many {# حرفًا} other {# حرف}}',
+  'validation.maxLength':
+    'يجب ألا يزيد على {length, plural, one {حرف واحد} two {حرفين} few {# أحرف} many {# حرفًا} other {# حرف}}',
+  'validation.pattern': 'تنسيق غير صالح',
+  'validation.email': 'أدخل عنوان بريد إلكتروني صالحًا',
+  'validation.matches': 'القيم غير متطابقة',
+
+  'updatePrompt.label': 'يتوفر تحديث',
+  'updatePrompt.message': 'يتوفر إصدار جديد من التطبيق.',
+  'updatePrompt.later': 'لاحقًا',
+};
+
+export default ar;
@@ -0,0 +1,160 @@
+// src/i18n/messages/en.ts
+// Default catalog: bundled with the app, the fallback for every other locale,
+// and the source of the `MessageKey` type. Messages use ICU syntax (see ../formatMessage.ts).
+const en = {
+  'localeSwitcher.label': 'Language',
+
+  'home.hero.title': 'React + TypeScript Starter Kit',
+  'home.hero.subtitle':
+    'Build production-ready apps with Vite, Redux Toolkit, SCSS, ESLint, Prettier, Docker, CI/CD pipelines, and professional architecture.',
+  'home.hero.getStarted': 'Get Started',
+  'home.hero.learnMore': 'Learn More',
+
+  'home.features.title': 'Why Choose This Template',
+  'home.features.fastSetup.title': 'Fast Setup',
+  'home.features.fastSetup.desc': 'Preconfigured Vite, Redux Toolkit, SCSS for scalable apps.',
+  'home.features.secure.title': 'Secure & Reliable',
+  'home.features.secure.desc': 'ESLint, Prettier, Husky enforce best practices.',
+  'home.features.components.title': 'Reusable Components',
+  'home.features.components.desc': 'Modular UI components following DRY/KISS principles.',
+  'home.features.stack.title': 'Modern Tech Stack',
+  'home.features.stack.desc': 'React, TypeScript, Redux Toolkit, Vite & SCSS.',
+  'home.features.ui.title': 'Professional UI',
+  'home.features.ui.desc': 'Clean, responsive design with SCSS variables.',
+  'home.features.docker.title': 'Docker Support',
+  'home.features.docker.desc': 'Pre-configured Dockerfiles for dev and production environments.',
+
+  'home.devops.title': 'DevOps & CI/CD Pipeline',
+  'home.devops.containers.title': 'Docker Containerization',
+  'home.devops.containers.desc':
+    'Isolated, reproducible environments with Docker & Docker Compose.',
+  'home.devops.ci.title': 'Automated CI/CD',
+  'home.devops.ci.desc': 'GitHub Actions for continuous integration and deployment.',
+  'home.devops.quality.title': 'Code Quality',
+  'home.devops.quality.desc': 'ESLint, Prettier, and TypeScript ensure code consistency.',
+  'home.devops.tests.title': 'Test Coverage',
+  'home.devops.tests.desc': 'Jest & React Testing Library with 100% code coverage.',
+
+  'home.tools.title': 'Included Tools & Best Practices',
+  'home.tools.count': '{count, plural, one {# tool ready to use} other {# tools ready to use}}',
+  'home.tools.principles': 'DRY / KISS Principles',
+
+  'common.loadingPage': 'Loading page',
+  'common.tryAgain': 'Try again',
+  'common.reload': 'Reload',
+
+  'routes.home': 'Home',
+  'routes.login': 'Sign in',
+  'routes.users': 'Users',
+  'routes.notFound': 'Not found',
+
+  'header.openMenu': 'Open menu',
+  'header.closeMenu': 'Close menu',
+  'header.navLabel': 'Primary',
+  'header.theme.label': 'Theme',
+  'header.theme.system': 'System theme',
+  'header.theme.light': 'Light',
+  'header.theme.dark': 'Dark',
+  'header.theme.highContrast': 'High contrast',
+  'header.signIn': 'Sign in',
+  'header.signOut': 'Sign out',
+
+  'sidebar.expand': 'Expand sidebar',
+  'sidebar.collapse': 'Collapse sidebar',
+  'sidebar.navLabel': 'Secondary',
+
+  'appLayout.skipToContent': 'Skip to main content',
+  'footer.source': 'Source on GitHub',
+
+  'errorFallback.title': 'Something went wrong',
+  'errorFallback.message':
+    'An unexpected error occurred. You can try again, or reload the page if the problem persists.',
+
+  'routeError.title': 'This page failed to load',
+  'routeError.loadFailed': 'Something went wrong while loading this page.',
+  'routeError.renderFailed': 'Something went wrong while showing this page.',
+  'routeError.updated.title': 'A new version is available',
+  'routeError.updated.message':
+    'The app was updated while you were using it. Reload to get the latest version.',
+
+  'protectedRoute.userFailed': 'Could not load your account',
+
+  'notFound.title': 'Page not found',
+  'notFound.message': "We couldn't find {path}. It may have been moved or deleted.",
+  'notFound.backHome': 'Back to home',
+
+  'login.title': 'Sign in',
+  'login.email': 'Email',
+  'login.email.required': 'Enter your email',
+  'login.email.invalid': 'Enter a valid email address',
+  'login.password': 'Password',
+  'login.password.required': 'Enter your password',
+  'login.submit': 'Sign in',
+  'login.submitting': 'Signing in…',
+
+  'users.title': 'Users',
+  'users.columns.name': 'Name',
+  'users.columns.email': 'Email',
+  'users.columns.roles': 'Roles',
+  'users.columns.actions': 'Actions',
+  'users.empty': 'No users yet',
+  'users.delete': 'Delete',
+  'users.delete.label': 'Delete {name}',
+  'users.delete.failed': 'Could not delete the user',
+
+  'dataTable.empty': 'No results',
+  'dataTable.noMatches': 'No rows match "{filter}"',
+  'dataTable.loadFailed': 'Could not load the data.',
+  'dataTable.retry': 'Retry',
+  'dataTable.loading': 'Loading rows',
+  'dataTable.filter.label': 'Filter {caption}',
+  'dataTable.filter.placeholder': 'Filter…',
+  'dataTable.selected': '{count, number} selected',
+  'dataTable.selectAll': 'Select all rows',
+  'dataTable.selectRow': 'Select row {id}',
+
+  'pagination.label': 'Pagination',
+  'pagination.pageSize': 'Rows per page',
+  'pagination.page': 'Page {page, number}',
+  'pagination.pageOf': 'Page {page, number} of {pageCount, number}',
+  'pagination.rows': '({count, plural, one {# row} other {# rows}})',
+  'pagination.previous': 'Previous',
+  'pagination.next': 'Next',
+
+  'modal.close': 'Close dialog',
+
+  'toast.regionLabel': 'Notifications',
+  'toast.dismiss': 'Dismiss notification',
+
+  'offlineNotice.offline': "You're offline. Some features may be unavailable.",
+  'offlineNotice.pending':
+    "You're offline. {count, plural, one {# change} other {# changes}} will be sent when you reconnect.",
+  'outbox.replayFailed': 'A change made while offline could not be saved',
+
+  'apiError.network': 'Unable to reach the server. Please check your internet connection.',
+  'apiError.timeout': 'The server took too long to respond. Please try again.',
+  'apiError.validation': 'Some of the information you entered is invalid.',
+  'apiError.auth': 'You are not authorized to do that. Please sign in and try again.',
+  'apiError.notFound': 'The requested resource could not be found.',
+  'apiError.server': 'Something went wrong on our end. Please try again later.',
+  'apiError.cancelled': 'The request was cancelled.',
+  'apiError.unknown': 'An unexpected error occurred. Please try again.',
+
+  'validation.required': 'This field is required',
+  'validation.minLength':
+    'Must be at least {length, plural, one {# character} other {# characters}}',
+  'validation.maxLength':
+    'Must be at most {length, plural, one {# character} other {# characters}}',
+  'validation.pattern': 'Invalid format',
+  'validation.email': 'Enter a valid email address',
+  'validation.matches': 'Values do not match',
+
+  'updatePrompt.label': 'Update available',
+  'updatePrompt.message': 'A new version of the app is available.',
+  'updatePrompt.later': 'Later',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+
+export default en;
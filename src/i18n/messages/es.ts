@@ -0,0 +1,159 @@
+// src/i18n/messages/es.ts
+import type { Messages } from './en';
+
+const es: Partial<Messages> = {
+  'localeSwitcher.label': 'Idioma',
+
+  'home.hero.title': 'Kit de inicio React + TypeScript',
+  'home.hero.subtitle':
+    'Crea aplicaciones listas para producción con Vite, Redux Toolkit, SCSS, ESLint, Prettier, Docker, pipelines de CI/CD y una arquitectura profesional.',
+  'home.hero.getStarted': 'Empezar',
+  'home.hero.learnMore': 'Más información',
+
+  'home.features.title': 'Por qué elegir esta plantilla',
+  'home.features.fastSetup.title': 'Configuración rápida',
+  'home.features.fastSetup.desc':
+    'Vite, Redux Toolkit y SCSS preconfigurados para aplicaciones escalables.',
+  'home.features.secure.title': 'Seguro y fiable',
+  'home.features.secure.desc': 'ESLint, Prettier y Husky aplican buenas prácticas.',
+  'home.features.components.title': 'Componentes reutilizables',
+  'home.features.components.desc':
+    'Componentes de UI modulares que siguen los principios DRY/KISS.',
+  'home.features.stack.title': 'Tecnología moderna',
+  'home.features.stack.desc': 'React, TypeScript, Redux Toolkit, Vite y SCSS.',
+  'home.features.ui.title': 'Interfaz profesional',
+  'home.features.ui.desc': 'Diseño limpio y adaptable con variables SCSS.',
+  'home.features.docker.title': 'Soporte para Docker',
+  'home.features.docker.desc': 'Dockerfiles preconfigurados para desarrollo y producción.',
+
+  'home.devops.title': 'DevOps y pipeline de CI/CD',
+  'home.devops.containers.title': 'Contenedores Docker',
+  'home.devops.containers.desc': 'Entornos aislados y reproducibles con Docker y Docker Compose.',
+  'home.devops.ci.title': 'CI/CD automatizado',
+  'home.devops.ci.desc': 'GitHub Actions para integración y despliegue continuos.',
+  'home.devops.quality.title': 'Calidad del código',
+  'home.devops.quality.desc': 'ESLint, Prettier y TypeScript garantizan un código coherente.',
+  'home.devops.tests.title': 'Cobertura de pruebas',
+  'home.devops.tests.desc': 'Jest y React Testing Library con un 100 % de cobertura.',
+
+  'home.tools.title': 'Herramientas y buenas prácticas incluidas',
+  'home.tools.count':
+    '{count, plural, one {# herramienta lista para usar} other {# herramientas listas para usar}}',
+  'home.tools.principles': 'Principios DRY / KISS',
+
+  'common.loadingPage': 'Cargando página',
+  'common.tryAgain': 'Reintentar',
+  'common.reload': 'Recargar',
+
+  'routes.home': 'Inicio',
+  'routes.login': 'Iniciar sesión',
+  'routes.users': 'Usuarios',
+  'routes.notFound': 'No encontrada',
+
+  'header.openMenu': 'Abrir menú',
+  'header.closeMenu': 'Cerrar menú',
+  'header.navLabel': 'Principal',
+  'header.theme.label': 'Tema',
+  'header.theme.system': 'Tema del sistema',
+  'header.theme.light': 'Claro',
+  'header.theme.dark': 'Oscuro',
+  'header.theme.highContrast': 'Alto contraste',
+  'header.signIn': 'Iniciar sesión',
+  'header.signOut': 'Cerrar sesión',
+
+  'sidebar.expand': 'Expandir barra lateral',
+  'sidebar.collapse': 'Contraer barra lateral',
+  'sidebar.navLabel': 'Secundaria',
+
+  'appLayout.skipToContent': 'Saltar al contenido principal',
+  'footer.source': 'Código fuente en GitHub',
+
+  'errorFallback.title': 'Algo salió mal',
+  'errorFallback.message':
+    'Se produjo un error inesperado. Puedes reintentarlo o recargar la página si el problema continúa.',
+
+  'routeError.title': 'No se pudo cargar esta página',
+  'routeError.loadFailed': 'Algo salió mal al cargar esta página.',
+  'routeError.renderFailed': 'Algo salió mal al mostrar esta página.',
+  'routeError.updated.title': 'Hay una nueva versión disponible',
+  'routeError.updated.message':
+    'La aplicación se actualizó mientras la usabas. Recarga para obtener la última versión.',
+
+  'protectedRoute.userFailed': 'No se pudo cargar tu cuenta',
+
+  'notFound.title': 'Página no encontrada',
+  'notFound.message': 'No encontramos {path}. Es posible que se haya movido o eliminado.',
+  'notFound.backHome': 'Volver al inicio',
+
+  'login.title': 'Iniciar sesión',
+  'login.email': 'Correo electrónico',
+  'login.email.required': 'Introduce tu correo electrónico',
+  'login.email.invalid': 'Introduce un correo electrónico válido',
+  'login.password': 'Contraseña',
+  'login.password.required': 'Introduce tu contraseña',
+  'login.submit': 'Iniciar sesión',
+  'login.submitting': 'Iniciando sesión…',
+
+  'users.title': 'Usuarios',
+  'users.columns.name': 'Nombre',
+  'users.columns.email': 'Correo electrónico',
+  'users.columns.roles': 'Roles',
+  'users.columns.actions': 'Acciones',
+  'users.empty': 'Todavía no hay usuarios',
+  'users.delete': 'Eliminar',
+  'users.delete.label': 'Eliminar a {name}',
+  'users.delete.failed': 'No se pudo eliminar el usuario',
+
+  'dataTable.empty': 'Sin resultados',
+  'dataTable.noMatches': 'Ninguna fila coincide con «{filter}»',
+  'dataTable.loadFailed': 'No se pudieron cargar los datos.',
+  'dataTable.retry': 'Reintentar',
+  'dataTable.loading': 'Cargando filas',
+  'dataTable.filter.label': 'Filtrar {caption}',
+  'dataTable.filter.placeholder': 'Filtrar…',
+  'dataTable.selected': '{count, plural, one {# seleccionada} other {# seleccionadas}}',
+  'dataTable.selectAll': 'Seleccionar todas las filas',
+  'dataTable.selectRow': 'Seleccionar la fila {id}',
+
+  'pagination.label': 'Paginación',
+  'pagination.pageSize': 'Filas por página',
+  'pagination.page': 'Página {page, number}',
+  'pagination.pageOf': 'Página {page, number} de {pageCount, number}',
+  'pagination.rows': '({count, plural, one {# fila} other {# filas}})',
+  'pagination.previous': 'Anterior',
+  'pagination.next': 'Siguiente',
+
+  'modal.close': 'Cerrar diálogo',
+
+  'toast.regionLabel': 'Notificaciones',
+  'toast.dismiss': 'Descartar notificación',
+
+  'offlineNotice.offline': 'Estás sin conexión. Algunas funciones pueden no estar disponibles.',
+  'offlineNotice.pending':
+    'Estás sin conexión. {count, plural, one {# cambio se enviará} other {# cambios se enviarán}} al volver a conectarte.',
+  'outbox.replayFailed': 'No se pudo guardar un cambio hecho sin conexión',
+
+  'apiError.network': 'No se puede conectar con el servidor. Comprueba tu conexión a internet.',
+  'apiError.timeout': 'El servidor tardó demasiado en responder. Inténtalo de nuevo.',
+  'apiError.validation': 'Parte de la información que has introducido no es válida.',
+  'apiError.auth': 'No tienes permiso para hacer eso. Inicia sesión e inténtalo de nuevo.',
+  'apiError.notFound': 'No se encontró el recurso solicitado.',
+  'apiError.server': 'Algo salió mal por nuestra parte. Inténtalo más tarde.',
+  'apiError.cancelled': 'La solicitud se canceló.',
+  'apiError.unknown': 'Se produjo un error inesperado. Inténtalo de nuevo.',
+
+  'validation.required': 'Este campo es obligatorio',
+  'validation.minLength':
+    'Debe tener al menos {length, plural, one {# carácter} other {# caracteres}}',
+  'validation.maxLength':
+    'Debe tener como máximo {length, plural, one {# carácter} other {# caracteres}}',
+  'validation.pattern': 'Formato no válido',
+  'validation.email': 'Introduce una dirección de correo válida',
+  'validation.matches': 'Los valores no coinciden',
+
+  'updatePrompt.label': 'Actualización disponible',
+  'updatePrompt.message': 'Hay una nueva versión de la aplicación disponible.',
+  'updatePrompt.later': 'Más tarde',
+};
+
+export default es;
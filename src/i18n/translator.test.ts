@@ -0,0 +1,55 @@
+// src/i18n/translator.test.ts
+import { SUPPORTED_LOCALES } from './locale';
+import en from './messages/en';
+import { createTranslator, loadMessages, setActiveLocale, translate } from './translator';
+
+describe('translator', () => {
+  test.each(SUPPORTED_LOCALES)(
+    'the "%s" catalog has every key of the default locale',
+    async (locale) => {
+      const messages = await loadMessages(locale);
+      expect(Object.keys(messages).sort()).toEqual(Object.keys(en).sort());
+    },
+  );
+
+  test('translates and formats messages for the locale', async () => {
+    await loadMessages('es');
+    const t = createTranslator('es');
+
+    expect(t('home.hero.getStarted')).toBe('Empezar');
+    expect(t('home.tools.count', { count: 1 })).toBe('1 herramienta lista para usar');
+  });
+
+  test('throws on missing keys in strict mode (the default under test)', () => {
+    const t = createTranslator('en');
+    // @ts-expect-error unknown keys are also rejected by the type checker
+    expect(() => t('home.unknown')).toThrow(/Missing translation "home.unknown"/);
+  });
+
+  test('falls back to the default locale outside strict mode', async () => {
+    const messages = await loadMessages('ar');
+    const original = messages['home.hero.learnMore'];
+    // Simulate a catalog that lags behind the default one
+    delete messages['home.hero.learnMore'];
+
+    try {
+      const t = createTranslator('ar', { strict: false });
+      expect(t('home.hero.learnMore')).toBe(en['home.hero.learnMore']);
+      expect(t('home.hero.getStarted')).toBe(messages['home.hero.getStarted']);
+    } finally {
+      messages['home.hero.learnMore'] = original;
+    }
+  });
+
+  test('translate uses the locale the provider last applied', async () => {
+    await loadMessages('es');
+    expect(translate('pagination.next')).toBe('Next');
+
+    setActiveLocale('es');
+    try {
+      expect(translate('pagination.next')).toBe('Siguiente');
+    } finally {
+      setActiveLocale('en');
+    }
+  });
+});
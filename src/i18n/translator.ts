@@ -0,0 +1,88 @@
+// src/i18n/translator.ts
+import { env } from '@config/env';
+import { DEFAULT_LOCALE } from '@constants/index';
+import { createLogger } from '@utils/logger';
+import { formatMessage, type MessageValues } from './formatMessage';
+import type { Locale } from './locale';
+import en, { type MessageKey, type Messages } from './messages/en';
+
+/**
+ * Message catalogs and translation.
+ *
+ * The default locale is bundled; the others are separate chunks loaded on demand.
+ * A missing key or a broken message throws in tests, so gaps are caught early, and
+ * falls back to the default locale at runtime, so users never see raw keys.
+ */
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+const log = createLogger('i18n');
+
+const loaders: Record<Locale, () => Promise<{ default: Partial<Messages> }>> = {
+  en: async () => ({ default: en }),
+  es: () => import('./messages/es'),
+  ar: () => import('./messages/ar'),
+};
+
+const catalogs = new Map<Locale, Partial<Messages>>([[DEFAULT_LOCALE, en]]);
+const pending = new Map<Locale, Promise<Partial<Messages>>>();
+
+export const isCatalogLoaded = (locale: Locale) => catalogs.has(locale);
+
+/** Loads a locale's catalog once; concurrent calls share the same request */
+export const loadMessages = (locale: Locale): Promise<Partial<Messages>> => {
+  const loaded = catalogs.get(locale);
+  if (loaded) return Promise.resolve(loaded);
+
+  let promise = pending.get(locale);
+  if (!promise) {
+    promise = loaders[locale]()
+      .then(({ default: messages }) => {
+        catalogs.set(locale, messages);
+        return messages;
+      })
+      .finally(() => pending.delete(locale));
+    pending.set(locale, promise);
+  }
+  return promise;
+};
+
+export const createTranslator = (
+  locale: Locale,
+  { strict = env.MODE === 'test' }: { strict?: boolean } = {},
+): Translate => {
+  const format = (message: string, values: MessageValues | undefined, messageLocale: Locale) => {
+    try {
+      return formatMessage(message, values, messageLocale);
+    } catch (error) {
+      if (strict) throw error;
+      log.error('Could not format message', { locale: messageLocale, error });
+      return message;
+    }
+  };
+
+  return (key, values) => {
+    const message = catalogs.get(locale)?.[key];
+    if (message !== undefined) return format(message, values, locale);
+
+    if (strict) {
+      throw new Error(`Missing translation "${key}" for locale "${locale}"`);
+    }
+    log.warn('Missing translation, using the default locale', { key, locale });
+    const fallback = en[key];
+    return fallback === undefined ? key : format(fallback, values, DEFAULT_LOCALE);
+  };
+};
+
+let activeLocale: Locale = DEFAULT_LOCALE;
+
+/** Called by I18nProvider whenever its locale changes */
+export const setActiveLocale = (locale: Locale) => {
+  activeLocale = locale;
+};
+
+/**
+ * Translates into the locale I18nProvider last applied, for code outside
+ * components (route actions, request callbacks) and for the error fallbacks,
+ * which must render even when the providers themselves failed.
+ */
+export const translate: Translate = (key, values) => createTranslator(activeLocale)(key, values);
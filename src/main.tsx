@@ -1,7 +1,20 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { Provider } from 'react-redux';
-import { store } from '@store/store';
+import { loadConfig } from '@config/appConfig';
+import { isDevBuild } from '@config/env';
+import { featureFlagService } from '@services/featureFlagService';
+import { realtime } from '@services/realtime';
+import { persistor, store } from '@store/store';
+import { startOutbox } from '@utils/axiosInstance';
+import { serviceWorker } from '@utils/serviceWorker';
+import { telemetry } from '@utils/telemetry';
+import { tokenStorage } from '@utils/tokenStorage';
+import ErrorBoundary from '@components/common/ErrorBoundary/ErrorBoundary';
+import ThemeProvider from '@components/common/ThemeProvider/ThemeProvider';
+import I18nProvider from '@i18n/I18nProvider';
+import { detectLocale } from '@i18n/locale';
+import { loadMessages } from '@i18n/translator';
 import App from './App';
 import '@styles/global.scss';
 
@@ -17,11 +30,61 @@ if (!rootElement) {
 
 const root = ReactDOM.createRoot(rootElement);
 
-// Render the application.
-root.render(
-  <React.StrictMode>
-    <Provider store={store}>
-      <App />
-    </Provider>
-  </React.StrictMode>,
-);
+const bootstrap = async () => {
+  // Validate VITE_* variables and apply any runtime config.json before anything calls the API,
+  // and restore persisted Redux state so the first render already shows it.
+  // The user's message catalog is loaded up front so the first render is already translated.
+  const [config] = await Promise.all([
+    loadConfig(),
+    persistor.rehydrate(),
+    loadMessages(detectLocale()),
+  ]);
+
+  // Without a backend (VITE_API_MOCKS=true), answer API calls with the handlers in src/mocks.
+  // Development only: production builds leave out the handlers, fixtures and test password.
+  if (isDevBuild && config.mockApi) {
+    const { startMockApi } = await import('@mocks/browser');
+    startMockApi(config);
+  }
+
+  // Send changes queued while offline, now and whenever the connection returns
+  startOutbox();
+  // Production builds only: offline app shell and "update available" (see <UpdatePrompt>)
+  void serviceWorker.register(config);
+
+  // Server pushes for a signed-in user; stays idle unless VITE_REALTIME_URL is set.
+  // store.ts connects and disconnects it as users sign in and out.
+  if (tokenStorage.getAccessToken()) realtime.connect();
+
+  // Runs while the ENABLE_ANALYTICS flag is on: the config's `enableAnalytics` by default,
+  // then whatever remote rules or `?flags=` say, including once the rules below load
+  telemetry.follow(
+    () => featureFlagService.isEnabled('ENABLE_ANALYTICS'),
+    featureFlagService.subscribe,
+  );
+  // Not awaited: gated UI renders with the defaults and updates once rules arrive
+  void featureFlagService.load();
+
+  // Render the application.
+  root.render(
+    <React.StrictMode>
+      {/* Last line of defence: a render error anywhere shows a recovery UI, not a blank page */}
+      <ErrorBoundary>
+        <ThemeProvider>
+          <I18nProvider>
+            <Provider store={store}>
+              <App />
+            </Provider>
+          </I18nProvider>
+        </ThemeProvider>
+      </ErrorBoundary>
+    </React.StrictMode>,
+  );
+};
+
+bootstrap().catch((error: unknown) => {
+  // Fail fast with a readable message instead of a blank page
+  rootElement.textContent = error instanceof Error ? error.message : String(error);
+  rootElement.style.whiteSpace = 'pre-wrap';
+  throw error;
+});
@@ -0,0 +1,24 @@
+// src/mocks/browser.ts
+import type { AppConfig } from '@config/appConfig';
+import { createLogger } from '@utils/logger';
+import { handlers } from './handlers';
+import { createMockServer } from './server';
+
+/**
+ * Answers API requests in the browser with the mock handlers (VITE_API_MOCKS=true).
+ * Loaded with a dynamic import, so none of this ships unless it is switched on.
+ */
+export const startMockApi = ({ mockLatency, mockErrorRate }: AppConfig) => {
+  const server = createMockServer(handlers, {
+    // A little jitter, so loading states look like they would against a real server
+    latency: [mockLatency * 0.5, mockLatency * 1.5],
+    errorRate: mockErrorRate,
+  });
+  server.listen();
+
+  createLogger('mockApi').info('Mock API enabled; sign in as ada@example.com / password', {
+    latency: mockLatency,
+    errorRate: mockErrorRate,
+  });
+  return server;
+};
@@ -0,0 +1,25 @@
+// src/mocks/db.ts
+import type { User } from '@services/authService';
+import type { FeatureFlagsResponse } from '@services/featureFlagService';
+import * as fixtures from './fixtures';
+
+/**
+ * In-memory data behind the mock handlers. Writes (e.g. `PUT /users/:id`) change it,
+ * so the app behaves consistently until the page reloads or `resetDb()` runs.
+ */
+export interface MockDb {
+  users: User[];
+  featureFlags: FeatureFlagsResponse['flags'];
+}
+
+const seed = (): MockDb =>
+  JSON.parse(
+    JSON.stringify({ users: fixtures.users, featureFlags: fixtures.featureFlags }),
+  ) as MockDb;
+
+export const db: MockDb = seed();
+
+/** Restores the fixtures, e.g. between tests */
+export const resetDb = () => {
+  Object.assign(db, seed());
+};
@@ -0,0 +1,19 @@
+// src/mocks/fixtures.ts
+import type { User } from '@services/authService';
+import type { FeatureFlagsResponse } from '@services/featureFlagService';
+
+/** Every fixture user signs in with this password */
+export const MOCK_PASSWORD = 'password';
+
+export const users: User[] = [
+  { id: '1', name: 'Ada Lovelace', email: 'ada@example.com', roles: ['admin', 'user'] },
+  { id: '2', name: 'Alan Turing', email: 'alan@example.com', roles: ['user'] },
+  { id: '3', name: 'Grace Hopper', email: 'grace@example.com', roles: ['admin', 'user'] },
+  { id: '4', name: 'Katherine Johnson', email: 'katherine@example.com', roles: ['user'] },
+  { id: '5', name: 'Edsger Dijkstra', email: 'edsger@example.com', roles: ['user'] },
+  { id: '6', name: 'Margaret Hamilton', email: 'margaret@example.com', roles: ['user'] },
+];
+
+export const featureFlags: FeatureFlagsResponse['flags'] = {
+  NEW_CHECKOUT: { enabled: true, roles: ['admin'], rollout: 50 },
+};
@@ -0,0 +1,50 @@
+// src/mocks/handlers/authHandlers.ts
+import { API_ENDPOINTS } from '@constants/index';
+import type { AuthResponse, LoginCredentials, User } from '@services/authService';
+import { db } from '../db';
+import { MOCK_PASSWORD } from '../fixtures';
+import { mock, respond, type MockRequest } from '../mockApi';
+
+// Tokens carry the user id, so a reload with stored tokens still finds the user
+const ACCESS_PREFIX = 'mock-access-';
+const REFRESH_PREFIX = 'mock-refresh-';
+
+const issueTokens = (user: User) => ({
+  accessToken: `${ACCESS_PREFIX}${user.id}`,
+  refreshToken: `${REFRESH_PREFIX}${user.id}`,
+});
+
+const findByToken = (token: string | undefined, prefix: string) =>
+  token?.startsWith(prefix)
+    ? db.users.find(({ id }) => id === token.slice(prefix.length))
+    : undefined;
+
+/** The signed-in user for a request, from its `Authorization: Bearer` header */
+export const getSessionUser = (request: MockRequest) =>
+  findByToken(request.headers.authorization?.replace(/^Bearer /, ''), ACCESS_PREFIX);
+
+export const unauthorized = () => respond(401, { message: 'Your session has expired' });
+
+export const authHandlers = [
+  mock.post<AuthResponse, LoginCredentials>(API_ENDPOINTS.AUTH_LOGIN, ({ body }) => {
+    const user = db.users.find(
+      ({ email }) => email.toLowerCase() === body.email?.trim().toLowerCase(),
+    );
+    if (!user || body.password !== MOCK_PASSWORD) {
+      return respond(401, { message: 'Invalid email or password' });
+    }
+    return { user, ...issueTokens(user) };
+  }),
+
+  mock.post(API_ENDPOINTS.AUTH_LOGOUT, () => respond(204)),
+
+  mock.post<{ accessToken: string; refreshToken: string }, { refreshToken?: string }>(
+    API_ENDPOINTS.AUTH_REFRESH,
+    ({ body }) => {
+      const user = findByToken(body.refreshToken, REFRESH_PREFIX);
+      return user ? issueTokens(user) : unauthorized();
+    },
+  ),
+
+  mock.get<User>(API_ENDPOINTS.AUTH_ME, (request) => getSessionUser(request) ?? unauthorized()),
+];
@@ -0,0 +1,9 @@
+// src/mocks/handlers/featureFlagHandlers.ts
+import { API_ENDPOINTS } from '@constants/index';
+import type { FeatureFlagsResponse } from '@services/featureFlagService';
+import { db } from '../db';
+import { mock } from '../mockApi';
+
+export const featureFlagHandlers = [
+  mock.get<FeatureFlagsResponse>(API_ENDPOINTS.FEATURE_FLAGS, () => ({ flags: db.featureFlags })),
+];
@@ -0,0 +1,7 @@
+// src/mocks/handlers/index.ts
+import { authHandlers } from './authHandlers';
+import { featureFlagHandlers } from './featureFlagHandlers';
+import { userHandlers } from './userHandlers';
+
+// One list per service; add new services' handlers here
+export const handlers = [...authHandlers, ...userHandlers, ...featureFlagHandlers];
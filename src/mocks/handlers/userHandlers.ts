@@ -0,0 +1,66 @@
+// src/mocks/handlers/userHandlers.ts
+import { API_ENDPOINTS } from '@constants/index';
+import type { OffsetPage } from '@hooks/usePaginatedList';
+import type { User } from '@services/authService';
+import type { UserUpdateRequest } from '@services/userApi';
+import { db } from '../db';
+import { mock, respond } from '../mockApi';
+import { getSessionUser, unauthorized } from './authHandlers';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const notFound = (id: string) => respond(404, { message: `User ${id} not found` });
+
+const collator = new Intl.Collator(undefined, { sensitivity: 'base' });
+
+// One page of the filtered, sorted users (see userService.list); every user without `limit`
+const listUsers = (query: URLSearchParams): OffsetPage<User> => {
+  const q = query.get('q')?.trim().toLowerCase() ?? '';
+  const key = query.get('sort') === 'email' ? 'email' : 'name';
+  const direction = query.get('order') === 'desc' ? -1 : 1;
+  const offset = Number(query.get('offset')) || 0;
+  const limit = Number(query.get('limit')) || db.users.length;
+
+  const matches = db.users
+    .filter(({ name, email }) => !q || `${name} ${email}`.toLowerCase().includes(q))
+    .sort((a, b) => collator.compare(a[key], b[key]) * direction);
+  return { items: matches.slice(offset, offset + limit), total: matches.length };
+};
+
+export const userHandlers = [
+  mock.get<OffsetPage<User>>(API_ENDPOINTS.USERS, (request) => {
+    if (!getSessionUser(request)) return unauthorized();
+    return listUsers(request.query);
+  }),
+
+  mock.get<User>(`${API_ENDPOINTS.USERS}/:id`, (request) => {
+    if (!getSessionUser(request)) return unauthorized();
+    return db.users.find(({ id }) => id === request.params.id) ?? notFound(request.params.id);
+  }),
+
+  mock.put<User, Omit<UserUpdateRequest, 'id'>>(`${API_ENDPOINTS.USERS}/:id`, (request) => {
+    if (!getSessionUser(request)) return unauthorized();
+    const index = db.users.findIndex(({ id }) => id === request.params.id);
+    if (index === -1) return notFound(request.params.id);
+
+    const { email } = request.body;
+    if (email !== undefined && !EMAIL_PATTERN.test(email)) {
+      return respond(422, {
+        message: 'The given data was invalid',
+        errors: { email: ['Enter a valid email address'] },
+      });
+    }
+
+    db.users[index] = { ...db.users[index], ...request.body, id: request.params.id };
+    return db.users[index];
+  }),
+
+  mock.delete(`${API_ENDPOINTS.USERS}/:id`, (request) => {
+    if (!getSessionUser(request)) return unauthorized();
+    const index = db.users.findIndex(({ id }) => id === request.params.id);
+    if (index === -1) return notFound(request.params.id);
+
+    db.users.splice(index, 1);
+    return respond(204);
+  }),
+];
@@ -0,0 +1,92 @@
+// src/mocks/mockApi.test.ts
+import { API_ERROR_KIND } from '@constants/index';
+import api from '@utils/axiosInstance';
+import { mock, networkError, respond } from './mockApi';
+import { createMockServer } from './server';
+
+const handlers = [
+  mock.get<{ id: string; q: string | null }>('/things/:id', ({ params, query }) => ({
+    id: params.id,
+    q: query.get('q'),
+  })),
+  mock.post<{ created: string }, { name: string }>('/things', ({ body }) =>
+    respond(201, { created: body.name }),
+  ),
+];
+
+const server = createMockServer(handlers);
+
+describe('mock API', () => {
+  beforeAll(() => server.listen());
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  test('matches path params and query strings', async () => {
+    const { data } = await api.get('/things/a%20b', { params: { q: 'x' } });
+    expect(data).toEqual({ id: 'a b', q: 'x' });
+
+    // Absolute URLs are matched relative to the API base URL
+    const absolute = await api.get('http://localhost:3000/api/things/7?q=y');
+    expect(absolute.data).toEqual({ id: '7', q: 'y' });
+  });
+
+  test('passes JSON bodies to handlers and returns their status', async () => {
+    const response = await api.post('/things', { name: 'Lamp' });
+    expect(response.status).toBe(201);
+    expect(response.data).toEqual({ created: 'Lamp' });
+  });
+
+  test('answers unknown requests with a 404', async () => {
+    await expect(api.get('/nothing-here', { retry: false })).rejects.toMatchObject({
+      kind: API_ERROR_KIND.NOT_FOUND,
+      message: 'No mock handler for GET /nothing-here',
+    });
+  });
+
+  test('lets a test override handlers until they are reset', async () => {
+    server.use(
+      mock.get('/things/:id', () =>
+        respond(422, { message: 'Invalid', errors: { id: ['Unknown id'] } }),
+      ),
+    );
+    await expect(api.get('/things/1')).rejects.toMatchObject({
+      kind: API_ERROR_KIND.VALIDATION,
+      fieldErrors: { id: ['Unknown id'] },
+    });
+
+    server.resetHandlers();
+    await expect(api.get('/things/1')).resolves.toMatchObject({ data: { id: '1' } });
+  });
+
+  test('simulates dropped connections', async () => {
+    server.use(mock.get('/things/:id', () => networkError()));
+    await expect(api.get('/things/1', { retry: false })).rejects.toMatchObject({
+      kind: API_ERROR_KIND.NETWORK,
+    });
+  });
+
+  test('injects errors at the configured rate', async () => {
+    const failing = createMockServer(handlers, { errorRate: 1 });
+    failing.listen();
+    try {
+      await expect(api.get('/things/1', { retry: false })).rejects.toMatchObject({
+        kind: API_ERROR_KIND.SERVER,
+        status: 500,
+      });
+    } finally {
+      failing.close();
+    }
+  });
+
+  test('times out when the latency exceeds the request timeout', async () => {
+    const slow = createMockServer(handlers, { latency: 50 });
+    slow.listen();
+    try {
+      await expect(api.get('/things/1', { timeout: 10, retry: false })).rejects.toMatchObject({
+        kind: API_ERROR_KIND.TIMEOUT,
+      });
+    } finally {
+      slow.close();
+    }
+  });
+});
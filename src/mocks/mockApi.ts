@@ -0,0 +1,275 @@
+// src/mocks/mockApi.ts
+import {
+  AxiosError,
+  AxiosHeaders,
+  CanceledError,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+import { MOCK_API } from '@constants/index';
+import { createLogger } from '@utils/logger';
+
+/**
+ * Mock API building blocks: handlers answer requests in place of the network,
+ * underneath `axiosInstance`. Interceptors (auth headers, token refresh, retries,
+ * error normalization) all still run, so code under test behaves as in production.
+ *
+ * Handlers are matched by method and path, relative to the API base URL:
+ *
+ * @example
+ * mock.get<User>('/users/:id', ({ params }) =>
+ *   db.users.find((user) => user.id === params.id) ?? respond(404, { message: 'Not found' }),
+ * );
+ */
+export interface MockRequest<TBody = unknown> {
+  method: string;
+  /** Path relative to the API base URL, e.g. `/users/42` */
+  path: string;
+  /** Values of `:name` segments in the handler's path */
+  params: Record<string, string>;
+  /** Query string and axios `params` combined */
+  query: URLSearchParams;
+  /** Parsed JSON body, or the raw value when it isn't JSON */
+  body: TBody;
+  /** Request headers with lower-case names */
+  headers: Record<string, string>;
+}
+
+/** A response with a status and headers; handlers may also just return the body (200) */
+export class MockResponse<T = unknown> {
+  readonly status: number;
+  readonly data: T | undefined;
+  readonly headers: Record<string, string>;
+
+  constructor(status: number, data?: T, headers: Record<string, string> = {}) {
+    this.status = status;
+    this.data = data;
+    this.headers = headers;
+  }
+}
+
+export const respond = <T>(status: number, data?: T, headers?: Record<string, string>) =>
+  new MockResponse(status, data, headers);
+
+/** Fails the request without a response, like a dropped connection */
+export const networkError = () => new MockResponse(0);
+
+type Resolver<TResponse, TBody> = (
+  request: MockRequest<TBody>,
+) => TResponse | MockResponse | Promise<TResponse | MockResponse>;
+
+export interface MockHandler {
+  method: string;
+  path: string;
+  resolver: Resolver<unknown, unknown>;
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+export interface MockOptions {
+  /** Delay in ms before every response, or a `[min, max]` range */
+  latency?: number | [number, number];
+  /** Share (0-1) of requests that fail with `errorStatus`, to exercise error states */
+  errorRate?: number;
+  errorStatus?: number;
+}
+
+const log = createLogger('mockApi');
+
+// `/users/:id` -> /^\/users\/([^/]+)$/ with paramNames ['id']
+const compilePath = (path: string) => {
+  const paramNames: string[] = [];
+  const source = path
+    .split('/')
+    .map((segment) => {
+      if (!segment.startsWith(':')) return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      paramNames.push(segment.slice(1));
+      return '([^/]+)';
+    })
+    .join('/');
+  return { pattern: new RegExp(`^${source}/?$`), paramNames };
+};
+
+const createHandler =
+  (method: string) =>
+  <TResponse = unknown, TBody = unknown>(
+    path: string,
+    resolver: Resolver<TResponse, TBody>,
+  ): MockHandler => ({
+    method,
+    path,
+    resolver: resolver as Resolver<unknown, unknown>,
+    ...compilePath(path),
+  });
+
+/** Handler builders; type parameters are the response body, then the request body */
+export const mock = {
+  get: createHandler('GET'),
+  post: createHandler('POST'),
+  put: createHandler('PUT'),
+  patch: createHandler('PATCH'),
+  delete: createHandler('DELETE'),
+};
+
+// === Adapter ===
+
+const ORIGIN = 'http://mock.local';
+
+const isAbsoluteUrl = (url: string) => /^[a-z][a-z\d+\-.]*:\/\//i.test(url);
+
+const toRequest = (config: InternalAxiosRequestConfig): Omit<MockRequest, 'params'> => {
+  const rawUrl = config.url ?? '';
+  const url = new URL(rawUrl, ORIGIN);
+
+  // Absolute URLs still include the base URL's path, e.g. `/api/users`
+  let path = url.pathname;
+  const basePath = new URL(config.baseURL ?? '/', ORIGIN).pathname.replace(/\/$/, '');
+  if (isAbsoluteUrl(rawUrl) && basePath && path.startsWith(basePath)) {
+    path = path.slice(basePath.length) || '/';
+  }
+
+  const query = new URLSearchParams(url.search);
+  Object.entries((config.params ?? {}) as Record<string, unknown>).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) query.append(key, String(value));
+  });
+
+  let body: unknown = config.data;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // Not JSON; handlers get the raw string
+    }
+  }
+
+  const headers = Object.fromEntries(
+    Object.entries(AxiosHeaders.from(config.headers).toJSON()).map(([name, value]) => [
+      name.toLowerCase(),
+      String(value),
+    ]),
+  );
+
+  return { method: (config.method ?? 'get').toUpperCase(), path, query, body, headers };
+};
+
+const pickLatency = (latency: MockOptions['latency'] = 0) =>
+  Array.isArray(latency)
+    ? latency[0] + Math.random() * (latency[1] - latency[0])
+    : Math.max(0, latency);
+
+// Waits like the network would: aborts and timeouts end the wait with their own errors
+const simulateLatency = (config: InternalAxiosRequestConfig, ms: number, request: unknown) =>
+  new Promise<void>((resolve, reject) => {
+    // No timer at all without latency, so tests with fake timers still get answers
+    if (ms <= 0) {
+      resolve();
+      return;
+    }
+    const { timeout = 0 } = config;
+    const timedOut = timeout > 0 && ms >= timeout;
+    const timer = setTimeout(
+      () => {
+        if (!timedOut) {
+          resolve();
+          return;
+        }
+        reject(
+          new AxiosError(
+            `timeout of ${timeout}ms exceeded`,
+            AxiosError.ECONNABORTED,
+            config,
+            request,
+          ),
+        );
+      },
+      timedOut ? timeout : ms,
+    );
+
+    config.signal?.addEventListener?.(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(new CanceledError(undefined, undefined, config, request));
+      },
+      { once: true },
+    );
+  });
+
+const findHandler = (handlers: MockHandler[], method: string, path: string) => {
+  for (const handler of handlers) {
+    if (handler.method !== method) continue;
+    const match = handler.pattern.exec(path);
+    if (match) {
+      const params = Object.fromEntries(
+        handler.paramNames.map((name, index) => [name, decodeURIComponent(match[index + 1])]),
+      );
+      return { handler, params };
+    }
+  }
+  return null;
+};
+
+const resolve = async (
+  handlers: MockHandler[],
+  request: Omit<MockRequest, 'params'>,
+): Promise<MockResponse> => {
+  const found = findHandler(handlers, request.method, request.path);
+  if (!found) {
+    log.warn('No mock handler', { method: request.method, path: request.path });
+    return respond(404, { message: `No mock handler for ${request.method} ${request.path}` });
+  }
+
+  try {
+    const result = await found.handler.resolver({ ...request, params: found.params });
+    return result instanceof MockResponse ? result : respond(200, result);
+  } catch (error) {
+    // A throwing handler is a bug in the mock; answer like a crashing server would
+    log.error('Mock handler failed', { method: request.method, path: found.handler.path, error });
+    return respond(500, { message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+/**
+ * An axios adapter answering requests with `getHandlers()`; the first match wins.
+ * Unmatched requests get a 404.
+ */
+export const createMockAdapter =
+  (getHandlers: () => MockHandler[], options: MockOptions = {}): AxiosAdapter =>
+  async (config) => {
+    const { errorRate = 0, errorStatus = MOCK_API.ERROR_STATUS } = options;
+    const request = toRequest(config);
+    const nativeRequest = { mock: true, method: request.method, path: request.path };
+
+    await simulateLatency(config, pickLatency(options.latency), nativeRequest);
+
+    const result =
+      Math.random() < errorRate
+        ? respond(errorStatus, { message: `Injected mock error (${errorStatus})` })
+        : await resolve(getHandlers(), request);
+
+    if (result.status === 0) {
+      throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, nativeRequest);
+    }
+
+    // Serialized like a real response, so callers can't mutate the mock data
+    const response: AxiosResponse = {
+      data: result.data === undefined ? '' : JSON.stringify(result.data),
+      status: result.status,
+      statusText: '',
+      headers: new AxiosHeaders({ 'content-type': 'application/json', ...result.headers }),
+      config,
+      request: nativeRequest,
+    };
+
+    if (config.validateStatus && !config.validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        nativeRequest,
+        response,
+      );
+    }
+    return response;
+  };
@@ -0,0 +1,204 @@
+// src/mocks/realtimeServer.ts
+import { REALTIME } from '@constants/index';
+import { realtime, type RealtimeEvents, type RealtimeTopic } from '@services/realtime';
+import type {
+  RealtimeEventSource,
+  RealtimeSocket,
+  RealtimeTransport,
+  RealtimeTransports,
+} from '@utils/realtimeClient';
+
+export interface MockRealtimeOptions {
+  /** Fail every WebSocket before it opens, like a proxy that drops upgrades; SSE still works */
+  blockWebSockets?: boolean;
+  /** Decides whether a connection's token is accepted (default: any, even none) */
+  isAuthorized?: (token: string | null) => boolean;
+}
+
+/** What the server knows about an open connection */
+export interface MockRealtimeConnection {
+  transport: RealtimeTransport;
+  token: string | null;
+  topics: Set<string>;
+  /** Messages the client sent (WebSocket only) */
+  received: unknown[];
+}
+
+interface Peer {
+  connection: MockRealtimeConnection;
+  deliver: (message: object) => void;
+  end: (code: number) => void;
+}
+
+const parse = (url: string, transport: RealtimeTransport): MockRealtimeConnection => {
+  const { searchParams } = new URL(url);
+  return {
+    transport,
+    token: searchParams.get('access_token'),
+    topics: new Set(searchParams.get('topics')?.split(',').filter(Boolean) ?? []),
+    received: [],
+  };
+};
+
+const toMessageEvent = (message: object) =>
+  new MessageEvent('message', { data: JSON.stringify(message) });
+
+/**
+ * An in-memory realtime server speaking the protocol of utils/realtimeClient.ts, for tests.
+ * `listen()` makes a client connect to it instead of the network, like `createMockServer`
+ * does for axiosInstance. Connections open on the next microtask.
+ *
+ * @example
+ * const server = createMockRealtimeServer();
+ * beforeEach(() => server.listen());
+ * afterEach(() => server.close());
+ *
+ * server.publish('notification', { message: 'Report ready' });
+ */
+export const createMockRealtimeServer = (options: MockRealtimeOptions = {}) => {
+  const peers = new Set<Peer>();
+  let isSilent = false;
+  const isAuthorized = options.isAuthorized ?? (() => true);
+
+  class MockWebSocket implements RealtimeSocket {
+    onopen: RealtimeSocket['onopen'] = null;
+    onmessage: RealtimeSocket['onmessage'] = null;
+    onclose: RealtimeSocket['onclose'] = null;
+    onerror: RealtimeSocket['onerror'] = null;
+    readonly peer: Peer;
+    isClosed = false;
+
+    constructor(url: string) {
+      this.peer = {
+        connection: parse(url, 'websocket'),
+        deliver: (message) => {
+          if (!isSilent) this.onmessage?.(toMessageEvent(message));
+        },
+        end: (code) => {
+          this.isClosed = true;
+          peers.delete(this.peer);
+          this.onclose?.(new CloseEvent('close', { code }));
+        },
+      };
+
+      queueMicrotask(() => {
+        if (this.isClosed) return;
+        if (options.blockWebSockets) {
+          this.onerror?.(new Event('error'));
+          this.peer.end(1006);
+          return;
+        }
+        peers.add(this.peer);
+        this.onopen?.(new Event('open'));
+        if (!isAuthorized(this.peer.connection.token)) {
+          this.peer.end(REALTIME.UNAUTHORIZED_CLOSE_CODE);
+        }
+      });
+    }
+
+    send(data: string) {
+      const message = JSON.parse(data) as { type: string; topics?: string[] };
+      const { topics, received } = this.peer.connection;
+      received.push(message);
+
+      if (message.type === 'subscribe') message.topics?.forEach((topic) => topics.add(topic));
+      if (message.type === 'unsubscribe') message.topics?.forEach((topic) => topics.delete(topic));
+      if (message.type === 'ping') this.peer.deliver({ type: 'pong' });
+    }
+
+    close() {
+      this.isClosed = true;
+      peers.delete(this.peer);
+    }
+  }
+
+  class MockEventSource implements RealtimeEventSource {
+    onopen: RealtimeEventSource['onopen'] = null;
+    onmessage: RealtimeEventSource['onmessage'] = null;
+    onerror: RealtimeEventSource['onerror'] = null;
+    readonly peer: Peer;
+    isClosed = false;
+
+    constructor(url: string) {
+      this.peer = {
+        connection: parse(url, 'sse'),
+        deliver: (message) => {
+          if (!isSilent) this.onmessage?.(toMessageEvent(message));
+        },
+        // EventSource has no close codes; every failure is just an error
+        end: () => {
+          peers.delete(this.peer);
+          this.onerror?.(new Event('error'));
+        },
+      };
+
+      queueMicrotask(() => {
+        if (this.isClosed) return;
+        if (!isAuthorized(this.peer.connection.token)) {
+          this.onerror?.(new Event('error'));
+          return;
+        }
+        peers.add(this.peer);
+        this.onopen?.(new Event('open'));
+      });
+    }
+
+    close() {
+      this.isClosed = true;
+      peers.delete(this.peer);
+    }
+  }
+
+  const transports: RealtimeTransports = {
+    WebSocket: MockWebSocket,
+    EventSource: MockEventSource,
+  };
+  let target: { transports: RealtimeTransports } | null = null;
+  let previousTransports: RealtimeTransports = {};
+
+  return {
+    transports,
+
+    /** Points `client` (the app's `realtime` by default) at this server */
+    listen(client: { transports: RealtimeTransports } = realtime) {
+      target = client;
+      previousTransports = client.transports;
+      client.transports = transports;
+    },
+
+    /** Restores the client's transports and forgets every connection */
+    close() {
+      if (target) target.transports = previousTransports;
+      target = null;
+      isSilent = false;
+      peers.clear();
+    },
+
+    /** Sends an event to every connection subscribed to `topic` */
+    publish<K extends RealtimeTopic>(topic: K, data: RealtimeEvents[K]) {
+      peers.forEach((peer) => {
+        if (peer.connection.topics.has(topic)) peer.deliver({ type: 'event', topic, data });
+      });
+    },
+
+    /** Sends a heartbeat to every connection */
+    ping() {
+      peers.forEach((peer) => peer.deliver({ type: 'ping' }));
+    },
+
+    /** Stops sending anything, even pongs, like a connection that died without closing */
+    silence() {
+      isSilent = true;
+    },
+
+    /** Ends every connection, as a server restart would */
+    disconnectAll(code = 1012) {
+      Array.from(peers).forEach((peer) => peer.end(code));
+    },
+
+    getConnections: (): MockRealtimeConnection[] =>
+      Array.from(peers).map((peer) => peer.connection),
+  };
+};
+
+export type MockRealtimeServer = ReturnType<typeof createMockRealtimeServer>;
@@ -0,0 +1,54 @@
+// src/mocks/server.ts
+import type { AxiosRequestConfig } from 'axios';
+import api from '@utils/axiosInstance';
+import { createMockAdapter, type MockHandler, type MockOptions } from './mockApi';
+
+/**
+ * Routes every request made through `axiosInstance` to mock handlers.
+ *
+ * Tests use the same handlers as local development, so services, hooks and
+ * components can be exercised end to end without a network:
+ *
+ * @example
+ * const server = createMockServer(handlers);
+ * beforeAll(() => server.listen());
+ * afterEach(() => {
+ *   server.resetHandlers();
+ *   resetDb();
+ * });
+ * afterAll(() => server.close());
+ *
+ * // Override a handler for one test
+ * server.use(mock.get(API_ENDPOINTS.USERS, () => respond(500)));
+ */
+export const createMockServer = (handlers: MockHandler[], options: MockOptions = {}) => {
+  let overrides: MockHandler[] = [];
+  let previousAdapter: AxiosRequestConfig['adapter'];
+
+  const adapter = createMockAdapter(() => [...overrides, ...handlers], options);
+
+  return {
+    adapter,
+
+    listen() {
+      previousAdapter = api.defaults.adapter;
+      api.defaults.adapter = adapter;
+    },
+
+    /** Restores the real network adapter */
+    close() {
+      api.defaults.adapter = previousAdapter;
+    },
+
+    /** Adds handlers that take precedence over the initial ones until `resetHandlers` */
+    use(...extra: MockHandler[]) {
+      overrides = [...extra, ...overrides];
+    },
+
+    resetHandlers() {
+      overrides = [];
+    },
+  };
+};
+
+export type MockServer = ReturnType<typeof createMockServer>;
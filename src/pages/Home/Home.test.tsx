@@ -1,11 +1,16 @@
 // src/pages/Home/Home.test.tsx
 
 import { render, screen } from '@testing-library/react';
+import I18nProvider from '@i18n/I18nProvider';
 import Home from './Home';
 
 describe('Home Component', () => {
   beforeEach(() => {
-    render(<Home />);
+    render(
+      <I18nProvider initialLocale="en">
+        <Home />
+      </I18nProvider>,
+    );
   });
 
   describe('Hero Section', () => {
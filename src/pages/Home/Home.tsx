@@ -1,5 +1,7 @@
 import React from 'react';
 import Button from '@components/common/Button/Button';
+import { useTranslation } from '@hooks/useTranslation';
+import type { MessageKey } from '@i18n/messages/en';
 import styles from './Home.module.scss';
 import {
   FaRocket,
@@ -14,19 +16,34 @@ import {
   FaVial,
 } from 'react-icons/fa';
 
+// Tool names are product names and stay untranslated
+const tools: { label: string; labelKey?: MessageKey; link?: string }[] = [
+  { label: 'ESLint & Prettier' },
+  { label: 'Husky & Lint-Staged' },
+  { label: 'Redux Toolkit' },
+  { label: 'SCSS & Variables' },
+  { label: 'Docker & Compose' },
+  { label: 'GitHub Actions' },
+  { label: 'Jest & RTL' },
+  { label: 'DRY / KISS Principles', labelKey: 'home.tools.principles' },
+  {
+    label: 'Architecture.md',
+    link: 'https://github.com/kalyankashaboina/react-ci-docker/blob/master/ARCHITECTURE.md',
+  },
+];
+
 const Home: React.FC = () => {
+  const { t } = useTranslation();
+
   return (
-    <main className={styles.home}>
+    <div className={styles.home}>
       {/* Hero Section */}
       <section className={`${styles.home__hero} ${styles.fadeIn}`} data-testid="hero-section">
-        <h1 className={styles.home__heroTitle}>React + TypeScript Starter Kit</h1>
-        <p className={styles.home__heroSubtitle}>
-          Build production-ready apps with Vite, Redux Toolkit, SCSS, ESLint, Prettier, Docker,
-          CI/CD pipelines, and professional architecture.
-        </p>
+        <h1 className={styles.home__heroTitle}>{t('home.hero.title')}</h1>
+        <p className={styles.home__heroSubtitle}>{t('home.hero.subtitle')}</p>
         <div className={styles.home__heroCta}>
-          <Button>Get Started</Button>
-          <Button variant="secondary">Learn More</Button>
+          <Button>{t('home.hero.getStarted')}</Button>
+          <Button variant="secondary">{t('home.hero.learnMore')}</Button>
         </div>
       </section>
 
@@ -35,38 +52,38 @@ const Home: React.FC = () => {
         className={`${styles.home__features} ${styles.fadeIn}`}
         data-testid="features-section"
       >
-        <h2 className={styles.home__featuresTitle}>Why Choose This Template</h2>
+        <h2 className={styles.home__featuresTitle}>{t('home.features.title')}</h2>
         <div className={styles.home__featuresCards}>
           {[
             {
               icon: <FaRocket />,
-              title: 'Fast Setup',
-              desc: 'Preconfigured Vite, Redux Toolkit, SCSS for scalable apps.',
+              title: t('home.features.fastSetup.title'),
+              desc: t('home.features.fastSetup.desc'),
             },
             {
               icon: <FaShieldAlt />,
-              title: 'Secure & Reliable',
-              desc: 'ESLint, Prettier, Husky enforce best practices.',
+              title: t('home.features.secure.title'),
+              desc: t('home.features.secure.desc'),
             },
             {
               icon: <FaCogs />,
-              title: 'Reusable Components',
-              desc: 'Modular UI components following DRY/KISS principles.',
+              title: t('home.features.components.title'),
+              desc: t('home.features.components.desc'),
             },
             {
               icon: <FaCode />,
-              title: 'Modern Tech Stack',
-              desc: 'React, TypeScript, Redux Toolkit, Vite & SCSS.',
+              title: t('home.features.stack.title'),
+              desc: t('home.features.stack.desc'),
             },
             {
               icon: <FaPaintBrush />,
-              title: 'Professional UI',
-              desc: 'Clean, responsive design with SCSS variables.',
+              title: t('home.features.ui.title'),
+              desc: t('home.features.ui.desc'),
             },
             {
               icon: <FaDocker />,
-              title: 'Docker Support',
-              desc: 'Pre-configured Dockerfiles for dev and production environments.',
+              title: t('home.features.docker.title'),
+              desc: t('home.features.docker.desc'),
             },
           ].map((f, idx) => (
             <div key={idx} className={`${styles.home__featuresCard} ${styles.fadeInUp}`}>
@@ -80,28 +97,28 @@ const Home: React.FC = () => {
 
       {/* DevOps & CI/CD Section */}
       <section className={`${styles.home__devops} ${styles.fadeIn}`} data-testid="devops-section">
-        <h2 className={styles.home__devopsTitle}>DevOps & CI/CD Pipeline</h2>
+        <h2 className={styles.home__devopsTitle}>{t('home.devops.title')}</h2>
         <div className={styles.home__devopsCards}>
           {[
             {
               icon: <FaDocker />,
-              title: 'Docker Containerization',
-              desc: 'Isolated, reproducible environments with Docker & Docker Compose.',
+              title: t('home.devops.containers.title'),
+              desc: t('home.devops.containers.desc'),
             },
             {
               icon: <FaClock />,
-              title: 'Automated CI/CD',
-              desc: 'GitHub Actions for continuous integration and deployment.',
+              title: t('home.devops.ci.title'),
+              desc: t('home.devops.ci.desc'),
             },
             {
               icon: <FaCheckCircle />,
-              title: 'Code Quality',
-              desc: 'ESLint, Prettier, and TypeScript ensure code consistency.',
+              title: t('home.devops.quality.title'),
+              desc: t('home.devops.quality.desc'),
             },
             {
               icon: <FaVial />,
-              title: 'Test Coverage',
-              desc: 'Jest & React Testing Library with 100% code coverage.',
+              title: t('home.devops.tests.title'),
+              desc: t('home.devops.tests.desc'),
             },
           ].map((f, idx) => (
             <div key={idx} className={`${styles.home__devopsCard} ${styles.fadeInUp}`}>
@@ -115,27 +132,17 @@ const Home: React.FC = () => {
 
       {/* Tools & Best Practices Section */}
       <section className={`${styles.home__tools} ${styles.fadeIn}`} data-testid="tools-section">
-        <h2 className={styles.home__toolsTitle}>Included Tools & Best Practices</h2>
+        <h2 className={styles.home__toolsTitle}>{t('home.tools.title')}</h2>
+        <p className={styles.home__toolsCount}>{t('home.tools.count', { count: tools.length })}</p>
         <div className={styles.home__toolsCards}>
-          {[
-            { label: 'ESLint & Prettier' },
-            { label: 'Husky & Lint-Staged' },
-            { label: 'Redux Toolkit' },
-            { label: 'SCSS & Variables' },
-            { label: 'Docker & Compose' },
-            { label: 'GitHub Actions' },
-            { label: 'Jest & RTL' },
-            { label: 'DRY / KISS Principles' },
-            {
-              label: 'Architecture.md',
-              link: 'https://github.com/kalyankashaboina/react-ci-docker/blob/master/ARCHITECTURE.md',
-            },
-          ].map((tool, idx) => (
+          {tools.map((tool, idx) => (
             <div key={idx} className={styles.home__toolsCard} data-testid={`tool-card-${idx}`}>
               {tool.link ? (
                 <a href={tool.link} target="_blank" rel="noopener noreferrer">
                   {tool.label} <FaGithub className={styles.home__githubIcon} aria-label="GitHub" />
                 </a>
+              ) : tool.labelKey ? (
+                t(tool.labelKey)
               ) : (
                 tool.label
               )}
@@ -143,7 +150,7 @@ const Home: React.FC = () => {
           ))}
         </div>
       </section>
-    </main>
+    </div>
   );
 };
 
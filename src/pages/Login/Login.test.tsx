@@ -0,0 +1,95 @@
+// src/pages/Login/Login.test.tsx
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { createMemoryRouter, RouterProvider, useLocation } from 'react-router-dom';
+import I18nProvider from '@i18n/I18nProvider';
+import { MOCK_PASSWORD } from '@mocks/fixtures';
+import { handlers } from '@mocks/handlers';
+import { createMockServer } from '@mocks/server';
+import { logout } from '@store/slices/authSlice';
+import { toastsCleared } from '@store/slices/toastSlice';
+import { store } from '@store/store';
+import Login from './Login';
+
+const server = createMockServer(handlers);
+
+// Where the user lands after signing in
+const Landing = () => {
+  const { pathname, search } = useLocation();
+  return <p data-testid="landing">{`${pathname}${search}`}</p>;
+};
+
+const renderLogin = (entry: string | { pathname: string; state: unknown }) => {
+  const router = createMemoryRouter(
+    [
+      { path: '/login', element: <Login /> },
+      { path: '/:locale/login', element: <Login /> },
+      { path: '*', element: <Landing /> },
+    ],
+    { initialEntries: [entry] },
+  );
+  render(
+    <I18nProvider initialLocale="en">
+      <Provider store={store}>
+        <RouterProvider router={router} />
+      </Provider>
+    </I18nProvider>,
+  );
+  return router;
+};
+
+const signIn = (email: string, password: string) => {
+  fireEvent.change(screen.getByLabelText(/Email/), { target: { value: email } });
+  fireEvent.change(screen.getByLabelText(/Password/), { target: { value: password } });
+  fireEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+};
+
+describe('Login page', () => {
+  beforeAll(() => server.listen());
+  afterEach(async () => {
+    await act(async () => {
+      await store.dispatch(logout());
+      store.dispatch(toastsCleared());
+    });
+    server.resetHandlers();
+  });
+  afterAll(() => server.close());
+
+  test('returns to the page the route guard sent the user away from', async () => {
+    renderLogin({
+      pathname: '/login',
+      state: { from: { pathname: '/users', search: '?page=2', hash: '' } },
+    });
+
+    signIn('ada@example.com', MOCK_PASSWORD);
+
+    expect(await screen.findByTestId('landing')).toHaveTextContent('/users?page=2');
+  });
+
+  test('goes to the home page of the current language by default', async () => {
+    renderLogin('/es/login');
+
+    signIn('ada@example.com', MOCK_PASSWORD);
+
+    expect(await screen.findByTestId('landing')).toHaveTextContent(/^\/es$/);
+  });
+
+  test('checks the fields before signing in', async () => {
+    renderLogin('/login');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    expect(await screen.findByText('Enter your email')).toBeInTheDocument();
+    expect(screen.getByText('Enter your password')).toBeInTheDocument();
+    expect(screen.queryByTestId('landing')).not.toBeInTheDocument();
+  });
+
+  test('shows why a sign-in was refused', async () => {
+    renderLogin('/login');
+
+    signIn('ada@example.com', 'not-the-password');
+
+    expect(await screen.findByText('Invalid email or password')).toBeInTheDocument();
+    expect(screen.queryByTestId('landing')).not.toBeInTheDocument();
+  });
+});
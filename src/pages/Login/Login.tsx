@@ -0,0 +1,77 @@
+import React from 'react';
+import { Navigate, useLocation, useNavigate, type Location } from 'react-router-dom';
+import Button from '@components/common/Button/Button';
+import { Form, Input } from '@components/common/Form';
+import { ROUTES } from '@constants/index';
+import { useForm } from '@hooks/useForm';
+import { useLocalizedPath } from '@hooks/useLocalizedPath';
+import { useTranslation } from '@hooks/useTranslation';
+import { useAppDispatch, useAppSelector } from '@store/hooks';
+import { login, selectIsAuthenticated } from '@store/slices/authSlice';
+import { email, required } from '@utils/validation';
+import styles from './Login.module.scss';
+
+interface LoginLocationState {
+  from?: Location;
+}
+
+const Login: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const localize = useLocalizedPath();
+  const isAuthenticated = useAppSelector(selectIsAuthenticated);
+  const { t } = useTranslation();
+
+  // Return the user to the page the route guard sent them away from
+  const from = (location.state as LoginLocationState | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}${from.hash}` : localize(ROUTES.HOME);
+
+  // A rejected login is an ApiError, which the form maps onto the fields (422) or shows above them
+  const form = useForm({
+    initialValues: { email: '', password: '' },
+    schema: {
+      email: [required(t('login.email.required')), email(t('login.email.invalid'))],
+      password: required(t('login.password.required')),
+    },
+    onSubmit: async (credentials) => {
+      await dispatch(login(credentials)).unwrap();
+      navigate(redirectTo, { replace: true });
+    },
+  });
+
+  if (isAuthenticated) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  return (
+    <div className={styles.login}>
+      <div className={styles.login__card}>
+        <h1 className={styles.login__title}>{t('login.title')}</h1>
+
+        <Form form={form} data-testid="login-form">
+          <Input
+            label={t('login.email')}
+            type="email"
+            autoComplete="username"
+            required
+            {...form.register('email')}
+          />
+          <Input
+            label={t('login.password')}
+            type="password"
+            autoComplete="current-password"
+            required
+            {...form.register('password')}
+          />
+
+          <Button type="submit" loading={form.isSubmitting}>
+            {t(form.isSubmitting ? 'login.submitting' : 'login.submit')}
+          </Button>
+        </Form>
+      </div>
+    </div>
+  );
+};
+
+export default Login;
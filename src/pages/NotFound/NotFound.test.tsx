@@ -0,0 +1,42 @@
+// src/pages/NotFound/NotFound.test.tsx
+
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import I18nProvider from '@i18n/I18nProvider';
+import NotFound from './NotFound';
+
+describe('NotFound Component', () => {
+  beforeEach(() => {
+    render(
+      <I18nProvider initialLocale="en">
+        <MemoryRouter initialEntries={['/missing/page']}>
+          <NotFound />
+        </MemoryRouter>
+      </I18nProvider>,
+    );
+  });
+
+  describe('Content', () => {
+    test('renders the 404 message', () => {
+      expect(screen.getByTestId('not-found')).toBeInTheDocument();
+      expect(screen.getByText('404')).toBeInTheDocument();
+      expect(screen.getByText(/Page not found/i)).toBeInTheDocument();
+    });
+
+    test('shows the path that could not be found', () => {
+      expect(screen.getByText('/missing/page')).toBeInTheDocument();
+    });
+  });
+
+  describe('Navigation', () => {
+    test('links back to the home page', () => {
+      expect(screen.getByRole('link', { name: /Back to home/i })).toHaveAttribute('href', '/');
+    });
+  });
+
+  describe('Accessibility', () => {
+    test('has a single level 1 heading', () => {
+      expect(screen.getAllByRole('heading', { level: 1 })).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import React from 'react';
+import { useLocation } from 'react-router-dom';
+import Button from '@components/common/Button/Button';
+import { ROUTES } from '@constants/index';
+import { useTranslation } from '@hooks/useTranslation';
+import PreloadLink from '@router/PreloadLink';
+import styles from './NotFound.module.scss';
+
+// Stands in for the path while translating, so it can be shown as code wherever
+// the locale's word order puts it
+const PATH_PLACEHOLDER = '\u0000';
+
+const NotFound: React.FC = () => {
+  const { pathname } = useLocation();
+  const { t } = useTranslation();
+  const [beforePath, afterPath] = t('notFound.message', { path: PATH_PLACEHOLDER }).split(
+    PATH_PLACEHOLDER,
+  );
+
+  return (
+    <div className={styles.notFound} data-testid="not-found">
+      <p className={styles.notFound__code}>404</p>
+      <h1 className={styles.notFound__title}>{t('notFound.title')}</h1>
+      <p className={styles.notFound__message}>
+        {beforePath}
+        <code>{pathname}</code>
+        {afterPath}
+      </p>
+      <Button as={PreloadLink} to={ROUTES.HOME}>
+        {t('notFound.backHome')}
+      </Button>
+    </div>
+  );
+};
+
+export default NotFound;
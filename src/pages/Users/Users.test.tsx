@@ -0,0 +1,146 @@
+// src/pages/Users/Users.test.tsx
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { createMemoryRouter, RouterProvider } from 'react-router-dom';
+import ThemeProvider from '@components/common/ThemeProvider/ThemeProvider';
+import { API_ENDPOINTS } from '@constants/index';
+import I18nProvider from '@i18n/I18nProvider';
+import { db, resetDb } from '@mocks/db';
+import { MOCK_PASSWORD } from '@mocks/fixtures';
+import { handlers } from '@mocks/handlers';
+import { mock, respond } from '@mocks/mockApi';
+import { createMockServer } from '@mocks/server';
+import { routeTree } from '@router/routeTree';
+import { login, logout } from '@store/slices/authSlice';
+import { toastsCleared } from '@store/slices/toastSlice';
+import { store } from '@store/store';
+
+const server = createMockServer(handlers);
+
+// The whole app's routes, so loaders, actions and the route guard all run
+const renderApp = (url: string) => {
+  const router = createMemoryRouter(routeTree, { initialEntries: [url] });
+  render(
+    <ThemeProvider>
+      <I18nProvider initialLocale="en">
+        <Provider store={store}>
+          <RouterProvider router={router} />
+        </Provider>
+      </I18nProvider>
+    </ThemeProvider>,
+  );
+  return router;
+};
+
+// Names in the table, top to bottom
+const getNames = () =>
+  screen
+    .getAllByRole('row')
+    .slice(1)
+    .map((row) => within(row).getAllByRole('cell')[0].textContent);
+
+const findNames = async (expected: string[]) => {
+  await waitFor(() => expect(getNames()).toEqual(expected));
+};
+
+describe('Users page', () => {
+  beforeAll(() => server.listen());
+  beforeEach(async () => {
+    await store.dispatch(login({ email: 'ada@example.com', password: MOCK_PASSWORD }));
+  });
+  afterEach(async () => {
+    await act(async () => {
+      await store.dispatch(logout());
+      store.dispatch(toastsCleared());
+    });
+    server.resetHandlers();
+    resetDb();
+  });
+  afterAll(() => server.close());
+
+  test('restores the sort order and page from the URL', async () => {
+    renderApp('/users?sort=email&order=desc&pageSize=2&page=2');
+
+    await findNames(['Grace Hopper', 'Edsger Dijkstra']);
+    expect(screen.getByRole('columnheader', { name: /Email/ })).toHaveAttribute(
+      'aria-sort',
+      'descending',
+    );
+    expect(screen.getByText('Page 2 of 3 (6 rows)')).toBeInTheDocument();
+  });
+
+  test('puts sorting and paging in the history, so back restores the view', async () => {
+    const router = renderApp('/users?pageSize=2');
+    await findNames(['Ada Lovelace', 'Alan Turing']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    await findNames(['Edsger Dijkstra', 'Grace Hopper']);
+    expect(router.state.location.search).toBe('?pageSize=2&page=2');
+
+    // Sorting starts again from the first page
+    fireEvent.click(screen.getByRole('button', { name: /Name/ }));
+    await findNames(['Margaret Hamilton', 'Katherine Johnson']);
+    expect(router.state.location.search).toBe('?pageSize=2&order=desc');
+
+    await act(() => router.navigate(-1));
+    await findNames(['Edsger Dijkstra', 'Grace Hopper']);
+  });
+
+  test('filters once typing pauses, replacing the history entry', async () => {
+    const router = renderApp('/users');
+    await findNames([
+      'Ada Lovelace',
+      'Alan Turing',
+      'Edsger Dijkstra',
+      'Grace Hopper',
+      'Katherine Johnson',
+      'Margaret Hamilton',
+    ]);
+
+    fireEvent.change(screen.getByRole('searchbox', { name: 'Filter Users' }), {
+      target: { value: 'gr' },
+    });
+
+    await findNames(['Grace Hopper']);
+    expect(router.state.location.search).toBe('?q=gr');
+    expect(router.state.historyAction).toBe('REPLACE');
+  });
+
+  test('deletes a user through the route action and reloads the list', async () => {
+    renderApp('/users');
+    await screen.findByText('Alan Turing');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Alan Turing' }));
+
+    await waitFor(() => expect(screen.queryByText('Alan Turing')).not.toBeInTheDocument());
+    expect(db.users.map(({ id }) => id)).not.toContain('2');
+  });
+
+  test('shows a failed load in place of the page, with a retry', async () => {
+    server.use(mock.get(API_ENDPOINTS.USERS, () => respond(501, { message: 'Listing is down' })));
+    renderApp('/users');
+
+    const alert = await screen.findByTestId('route-error');
+    expect(alert).toHaveTextContent('Listing is down');
+
+    server.resetHandlers();
+    fireEvent.click(within(alert).getByRole('button', { name: 'Try again' }));
+    expect(await screen.findByText('Ada Lovelace')).toBeInTheDocument();
+  });
+
+  test('answers an unknown language prefix with a 404, without loading users', async () => {
+    const list = jest.fn(() => respond(200, { items: [], total: 0 }));
+    server.use(mock.get(API_ENDPOINTS.USERS, list));
+
+    renderApp('/xx/users');
+
+    expect(await screen.findByTestId('not-found')).toHaveTextContent('/xx/users');
+    expect(list).not.toHaveBeenCalled();
+  });
+
+  test('loads users under a language prefix', async () => {
+    renderApp('/es/users');
+
+    expect(await screen.findByText('Ada Lovelace')).toBeInTheDocument();
+  });
+});
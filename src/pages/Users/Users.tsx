@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  useFetcher,
+  useLoaderData,
+  useLocation,
+  useNavigation,
+  useRevalidator,
+} from 'react-router-dom';
+import Button from '@components/common/Button/Button';
+import DataTable from '@components/common/DataTable/DataTable';
+import type { Column } from '@components/common/DataTable/dataTable';
+import { DATA_TABLE, STATUS } from '@constants/index';
+import type { PaginationState } from '@hooks/usePaginatedList';
+import { useSubscription } from '@hooks/useSubscription';
+import { useTranslation } from '@hooks/useTranslation';
+import { useUrlState } from '@hooks/useUrlState';
+import type { Translate } from '@i18n/translator';
+import type { User } from '@services/authService';
+import { usersSearch, type usersLoader, type UsersActionData } from './usersRoute';
+import styles from './Users.module.scss';
+
+const DeleteUserButton = ({ user }: { user: User }) => {
+  // One fetcher per row, so each row shows its own pending state
+  const fetcher = useFetcher<UsersActionData>();
+  const { t } = useTranslation();
+
+  return (
+    <fetcher.Form method="post">
+      <input type="hidden" name="id" value={user.id} />
+      <Button
+        type="submit"
+        variant="danger"
+        size="small"
+        loading={fetcher.state !== 'idle'}
+        aria-label={t('users.delete.label', { name: user.name })}
+      >
+        {t('users.delete')}
+      </Button>
+    </fetcher.Form>
+  );
+};
+
+const getColumns = (t: Translate): Column<User>[] => [
+  { key: 'name', header: t('users.columns.name'), sortable: true },
+  { key: 'email', header: t('users.columns.email'), sortable: true },
+  { key: 'roles', header: t('users.columns.roles'), value: (user) => user.roles.join(', ') },
+  {
+    key: 'actions',
+    header: t('users.columns.actions'),
+    align: 'end',
+    render: (user) => <DeleteUserButton user={user} />,
+  },
+];
+
+/**
+ * The filter input answers every keystroke while the URL (and so the loader) only
+ * follows once typing pauses. A filter changed from elsewhere, e.g. by the back
+ * button, replaces what is in the input.
+ */
+const useFilterInput = (value: string, onCommit: (value: string) => void) => {
+  const [input, setInput] = useState(value);
+  const [seen, setSeen] = useState(value);
+  const [committed, setCommitted] = useState(value);
+  const timer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  if (value !== seen) {
+    setSeen(value);
+    if (value !== committed) setInput(value);
+  }
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  const onChange = (next: string) => {
+    setInput(next);
+    clearTimeout(timer.current);
+    timer.current = setTimeout(() => {
+      setCommitted(next);
+      onCommit(next);
+    }, DATA_TABLE.FILTER_DEBOUNCE_MS);
+  };
+
+  return [input, onChange] as const;
+};
+
+/**
+ * User list whose filter, sort order and page live in the URL (see ./usersRoute.ts),
+ * so links and the back button restore exactly what was on screen.
+ */
+const Users: React.FC = () => {
+  const { items, total } = useLoaderData<typeof usersLoader>();
+  const { t } = useTranslation();
+  const columns = useMemo(() => getColumns(t), [t]);
+  const [search, setSearch] = useUrlState(usersSearch);
+  const { page, pageSize } = search;
+  const [filter, setFilter] = useFilterInput(search.q, (q) =>
+    // Typing shouldn't fill the history with one entry per pause
+    setSearch({ q, page: 1 }, { replace: true }),
+  );
+
+  // Keep showing the current rows, dimmed, while the next ones load
+  const navigation = useNavigation();
+  const { pathname } = useLocation();
+  const isLoading = navigation.state === 'loading' && navigation.location.pathname === pathname;
+
+  // Someone else changed a user: reload the page in view
+  const { revalidate } = useRevalidator();
+  useSubscription('user.updated', () => void revalidate());
+  useSubscription('user.deleted', () => void revalidate());
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const pagination: PaginationState = {
+    page,
+    pageSize,
+    pageCount,
+    total,
+    hasNextPage: page < pageCount,
+    hasPreviousPage: page > 1,
+    nextPage: () => setSearch({ page: page + 1 }),
+    previousPage: () => setSearch({ page: page - 1 }),
+    goToPage: (next) => setSearch({ page: next }),
+    setPageSize: (next) => setSearch({ pageSize: next, page: 1 }),
+  };
+
+  return (
+    <div className={styles.users}>
+      <h1 className={styles.users__title}>{t('users.title')}</h1>
+
+      <DataTable
+        mode="server"
+        caption={t('users.title')}
+        hideCaption
+        columns={columns}
+        rows={items}
+        getRowId={(user) => user.id}
+        status={isLoading ? STATUS.LOADING : STATUS.SUCCESS}
+        sort={{ key: search.sort, direction: search.order }}
+        onSortChange={(sort) =>
+          // Clearing the sort goes back to the default order
+          setSearch({
+            sort: usersSearch.sort.parse(sort?.key ?? null),
+            order: sort?.direction ?? usersSearch.order.defaultValue,
+            page: 1,
+          })
+        }
+        filterable
+        filter={filter}
+        onFilterChange={setFilter}
+        pagination={pagination}
+        emptyMessage={t('users.empty')}
+      />
+    </div>
+  );
+};
+
+export default Users;
@@ -0,0 +1,57 @@
+// src/pages/Users/usersRoute.ts
+import { redirect, type ActionFunctionArgs, type LoaderFunctionArgs } from 'react-router-dom';
+import { DATA_TABLE } from '@constants/index';
+import { parseUrlState, urlParam, writeUrlState } from '@hooks/useUrlState';
+import { translate } from '@i18n/translator';
+import { userService } from '@services/userService';
+import { toast } from '@store/toast';
+import { isApiError, type ApiError } from '@utils/apiError';
+
+// Kept apart from Users.tsx so the route registry can import the loader without
+// pulling the page into the main bundle
+
+/** The list view's query string: `/users?q=ada&sort=email&order=desc&page=2` */
+export const usersSearch = {
+  q: urlParam.string(),
+  sort: urlParam.oneOf(['name', 'email'], 'name'),
+  order: urlParam.oneOf(['asc', 'desc'], 'asc'),
+  page: urlParam.number(1, { min: 1 }),
+  pageSize: urlParam.number(DATA_TABLE.PAGE_SIZE, { min: 1, max: 100 }),
+};
+
+export const usersLoader = async ({ request }: LoaderFunctionArgs) => {
+  const url = new URL(request.url);
+  const { q, sort, order, page, pageSize } = parseUrlState(url.searchParams, usersSearch);
+
+  // Aborted by the router when another navigation starts first
+  const result = await userService.list(
+    { offset: (page - 1) * pageSize, limit: pageSize, sort: { key: sort, direction: order }, q },
+    { signal: request.signal },
+  );
+
+  // Past the end, e.g. after deleting the last user on the last page
+  const pageCount = Math.ceil(result.total / pageSize);
+  if (result.items.length === 0 && page > pageCount && pageCount > 0) {
+    const search = writeUrlState(url.searchParams, usersSearch, { page: pageCount });
+    return redirect(`${url.pathname}?${search}`);
+  }
+  return result;
+};
+
+export type UsersActionData = { error: ApiError } | { deleted: string };
+
+/** Deletes the user whose `id` is posted from a row; the router then reloads the list */
+export const usersAction = async ({ request }: ActionFunctionArgs): Promise<UsersActionData> => {
+  const form = await request.formData();
+  const id = String(form.get('id'));
+
+  try {
+    await userService.remove(id);
+    return { deleted: id };
+  } catch (error) {
+    // The list stays usable; anything unexpected goes to the route's error element
+    if (!isApiError(error)) throw error;
+    toast.error(error.message, { title: translate('users.delete.failed') });
+    return { error };
+  }
+};
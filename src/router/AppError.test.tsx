@@ -0,0 +1,62 @@
+// src/router/AppError.test.tsx
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { createMemoryRouter, RouterProvider } from 'react-router-dom';
+import ThemeProvider from '@components/common/ThemeProvider/ThemeProvider';
+import I18nProvider from '@i18n/I18nProvider';
+import { store } from '@store/store';
+import { onErrorReported, type ErrorReport } from '@utils/errorReporter';
+import { routeTree } from './routeTree';
+
+let footerFails = true;
+
+jest.mock('@components/layout/Footer/Footer', () => ({
+  __esModule: true,
+  default: () => {
+    if (footerFails) throw new Error('Footer failed');
+    return <footer>Footer</footer>;
+  },
+}));
+
+describe('AppError', () => {
+  let reports: ErrorReport[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    footerFails = true;
+    reports = [];
+    unsubscribe = onErrorReported((report) => reports.push(report));
+    // React and the reporter log caught errors; keep the test output clean
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    jest.restoreAllMocks();
+  });
+
+  test('reports a failure in the app shell and shows the recovery UI', async () => {
+    const router = createMemoryRouter(routeTree, { initialEntries: ['/'] });
+    render(
+      <ThemeProvider>
+        <I18nProvider initialLocale="en">
+          <Provider store={store}>
+            <RouterProvider router={router} />
+          </Provider>
+        </I18nProvider>
+      </ThemeProvider>,
+    );
+
+    expect(await screen.findByTestId('error-boundary')).toHaveTextContent('Something went wrong');
+    expect(screen.getByRole('button', { name: 'Reload' })).toBeInTheDocument();
+    expect(reports).toEqual([
+      expect.objectContaining({ source: 'router', error: new Error('Footer failed') }),
+    ]);
+
+    footerFails = false;
+    fireEvent.click(screen.getByRole('button', { name: 'Try again' }));
+
+    expect(await screen.findByText('Footer')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,26 @@
+import { useEffect } from 'react';
+import { useLocation, useNavigate, useRouteError } from 'react-router-dom';
+import ErrorFallback from '@components/common/ErrorBoundary/ErrorFallback';
+import { reportError } from '@utils/errorReporter';
+
+/**
+ * The root route's error element: the app shell itself (layout, header, footer) failed,
+ * or an error got past every page's own boundary. Reports it and shows the same
+ * recovery UI as the global ErrorBoundary, in place of the router's built-in screen.
+ */
+const AppError = () => {
+  const error = useRouteError();
+  const { pathname, search, hash } = useLocation();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    reportError(error, { source: 'router' });
+  }, [error]);
+
+  // Navigating to the same page again clears the router's error and reruns its loaders
+  return (
+    <ErrorFallback onRetry={() => void navigate({ pathname, search, hash }, { replace: true })} />
+  );
+};
+
+export default AppError;
@@ -1,13 +1,15 @@
-import { Routes, Route } from 'react-router-dom';
-import Home from '@pages/Home/Home';
-
-const AppRouter = () => {
-  return (
-    <Routes>
-      <Route path="/" element={<Home />} />
-      {/* Add other application routes here - they will be automatically code split by Vite */}
-    </Routes>
-  );
+import { createBrowserRouter, RouterProvider } from 'react-router-dom';
+import { routeTree } from './routeTree';
+
+// Created on first render, not on import: creating it starts the current page's
+// loaders, which must wait for main.tsx to load the config (and the mock API)
+let router: ReturnType<typeof createBrowserRouter> | undefined;
+
+const getRouter = () => {
+  router ??= createBrowserRouter(routeTree);
+  return router;
 };
 
+const AppRouter = () => <RouterProvider router={getRouter()} />;
+
 export default AppRouter;
@@ -0,0 +1,20 @@
+import { useEffect } from 'react';
+import { Outlet, useParams } from 'react-router-dom';
+import { useTranslation } from '@hooks/useTranslation';
+import { isSupportedLocale } from '@i18n/locale';
+
+// Applies the locale from an optional `/:locale/` prefix. The route's loader has
+// already turned any other first segment (e.g. `/unknown`) into a 404.
+const LocaleRoute = () => {
+  const { locale } = useParams();
+  const { setLocale } = useTranslation();
+  const isLocale = isSupportedLocale(locale);
+
+  useEffect(() => {
+    if (isLocale) setLocale(locale);
+  }, [isLocale, locale, setLocale]);
+
+  return <Outlet />;
+};
+
+export default LocaleRoute;
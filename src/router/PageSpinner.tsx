@@ -0,0 +1,10 @@
+import Spinner from '@components/common/Spinner/Spinner';
+import { useTranslation } from '@hooks/useTranslation';
+
+/** Full-page spinner shown while a page's chunk or its first data loads */
+const PageSpinner = () => {
+  const { t } = useTranslation();
+  return <Spinner fullPage label={t('common.loadingPage')} />;
+};
+
+export default PageSpinner;
@@ -0,0 +1,28 @@
+import { Link, type LinkProps } from 'react-router-dom';
+import { useLocalizedPath } from '@hooks/useLocalizedPath';
+import { getPreloadProps } from './routes';
+
+/**
+ * Router `Link` that preloads its target route on hover or focus.
+ * String paths stay inside the current `/:locale/` prefix.
+ */
+const PreloadLink = ({ to, onMouseEnter, onFocus, ...props }: LinkProps) => {
+  const localize = useLocalizedPath();
+  const preload = getPreloadProps(to);
+  return (
+    <Link
+      to={typeof to === 'string' ? localize(to) : to}
+      onMouseEnter={(event) => {
+        preload.onMouseEnter();
+        onMouseEnter?.(event);
+      }}
+      onFocus={(event) => {
+        preload.onFocus();
+        onFocus?.(event);
+      }}
+      {...props}
+    />
+  );
+};
+
+export default PreloadLink;
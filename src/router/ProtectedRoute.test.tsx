@@ -0,0 +1,142 @@
+// src/router/ProtectedRoute.test.tsx
+import { configureStore } from '@reduxjs/toolkit';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { createMemoryRouter, RouterProvider, useLocation, type Location } from 'react-router-dom';
+import { API_ERROR_KIND, STATUS } from '@constants/index';
+import I18nProvider from '@i18n/I18nProvider';
+import { authService, type User } from '@services/authService';
+import authReducer, { type AuthState } from '@store/slices/authSlice';
+import type { ApiError } from '@utils/apiError';
+import ProtectedRoute from './ProtectedRoute';
+
+const ada: User = { id: '1', name: 'Ada Lovelace', email: 'ada@example.com', roles: ['admin'] };
+const alan: User = { id: '2', name: 'Alan Turing', email: 'alan@example.com', roles: ['user'] };
+
+// Just the auth slice, starting from the given state
+const createStore = (auth: Partial<AuthState>) =>
+  configureStore({
+    reducer: { auth: authReducer },
+    preloadedState: {
+      auth: { user: null, token: null, status: STATUS.IDLE, error: null, ...auth },
+    },
+  });
+
+// Shows where the guard sent the user, and the location it remembered
+const LoginPage = () => {
+  const { pathname, state } = useLocation();
+  const from = (state as { from?: Location } | null)?.from;
+  return (
+    <p data-testid="login">
+      {pathname} from {from ? `${from.pathname}${from.search}` : 'nowhere'}
+    </p>
+  );
+};
+
+const renderAt = (url: string, auth: Partial<AuthState> = {}) => {
+  const router = createMemoryRouter(
+    [
+      { path: '/', element: <p>Home page</p> },
+      { path: '/login', element: <LoginPage /> },
+      { path: '/:locale/login', element: <LoginPage /> },
+      {
+        path: '/users',
+        element: (
+          <ProtectedRoute>
+            <p>User list</p>
+          </ProtectedRoute>
+        ),
+      },
+      {
+        path: '/:locale/users',
+        element: (
+          <ProtectedRoute>
+            <p>User list</p>
+          </ProtectedRoute>
+        ),
+      },
+      {
+        path: '/admin',
+        element: (
+          <ProtectedRoute roles={['admin']}>
+            <p>Admin area</p>
+          </ProtectedRoute>
+        ),
+      },
+    ],
+    { initialEntries: [url] },
+  );
+  render(
+    <I18nProvider initialLocale="en">
+      <Provider store={createStore(auth)}>
+        <RouterProvider router={router} />
+      </Provider>
+    </I18nProvider>,
+  );
+  return router;
+};
+
+describe('ProtectedRoute', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  test('sends signed-out users to sign in, remembering where they were going', () => {
+    renderAt('/users?page=2');
+
+    expect(screen.getByTestId('login')).toHaveTextContent('/login from /users?page=2');
+  });
+
+  test('keeps the language prefix when sending users to sign in', () => {
+    renderAt('/es/users');
+
+    expect(screen.getByTestId('login')).toHaveTextContent('/es/login from /es/users');
+  });
+
+  test('lets signed-in users in', () => {
+    renderAt('/users', { token: 'access', user: alan, status: STATUS.SUCCESS });
+
+    expect(screen.getByText('User list')).toBeInTheDocument();
+  });
+
+  test('sends users without a required role home', () => {
+    renderAt('/admin', { token: 'access', user: alan, status: STATUS.SUCCESS });
+
+    expect(screen.getByText('Home page')).toBeInTheDocument();
+  });
+
+  test('lets users with a required role in', () => {
+    renderAt('/admin', { token: 'access', user: ada, status: STATUS.SUCCESS });
+
+    expect(screen.getByText('Admin area')).toBeInTheDocument();
+  });
+
+  test('loads the profile for a restored token before checking roles', async () => {
+    jest.spyOn(authService, 'getCurrentUser').mockResolvedValue(ada);
+
+    renderAt('/admin', { token: 'access' });
+
+    expect(await screen.findByText('Admin area')).toBeInTheDocument();
+  });
+
+  test('offers a retry when the profile cannot be loaded', async () => {
+    const unreachable: ApiError = {
+      name: 'ApiError',
+      kind: API_ERROR_KIND.NETWORK,
+      message: 'Unable to reach the server.',
+    };
+    const getCurrentUser = jest
+      .spyOn(authService, 'getCurrentUser')
+      .mockRejectedValueOnce(unreachable)
+      .mockResolvedValueOnce(alan);
+
+    renderAt('/users', { token: 'access' });
+
+    const alert = await screen.findByRole('alert');
+    expect(alert).toHaveTextContent('Unable to reach the server.');
+    expect(screen.queryByText('User list')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Try again' }));
+
+    expect(await screen.findByText('User list')).toBeInTheDocument();
+    expect(getCurrentUser).toHaveBeenCalledTimes(2);
+  });
+});
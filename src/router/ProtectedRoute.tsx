@@ -0,0 +1,78 @@
+import { useEffect } from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import Button from '@components/common/Button/Button';
+import { ROUTES, STATUS } from '@constants/index';
+import { useLocalizedPath } from '@hooks/useLocalizedPath';
+import { useTranslation } from '@hooks/useTranslation';
+import type { UserRole } from '@services/authService';
+import { useAppDispatch, useAppSelector } from '@store/hooks';
+import {
+  fetchCurrentUser,
+  selectAuthError,
+  selectAuthStatus,
+  selectCurrentUser,
+  selectIsAuthenticated,
+} from '@store/slices/authSlice';
+import styles from './RouteErrorBoundary.module.scss';
+
+interface ProtectedRouteProps {
+  /** Only users with at least one of these roles may enter */
+  roles?: UserRole[];
+  /** Rendered instead of nested routes when used as a wrapper */
+  children?: React.ReactNode;
+}
+
+/**
+ * Route guard for authenticated areas.
+ *
+ * Unauthenticated users are sent to the login page (under the current `/:locale/`
+ * prefix) with the location they were trying to reach in `state.from`, so the login
+ * page can return them there. Users missing a required role are sent back to the
+ * home page. If the user's profile can't be loaded, a retry is shown instead.
+ */
+const ProtectedRoute = ({ roles, children }: ProtectedRouteProps) => {
+  const dispatch = useAppDispatch();
+  const location = useLocation();
+  const localize = useLocalizedPath();
+  const { t } = useTranslation();
+  const isAuthenticated = useAppSelector(selectIsAuthenticated);
+  const user = useAppSelector(selectCurrentUser);
+  const status = useAppSelector(selectAuthStatus);
+  const error = useAppSelector(selectAuthError);
+
+  // A token restored from storage has no user profile yet
+  const needsUser = isAuthenticated && !user && status === STATUS.IDLE;
+
+  useEffect(() => {
+    if (needsUser) {
+      dispatch(fetchCurrentUser());
+    }
+  }, [dispatch, needsUser]);
+
+  if (!isAuthenticated) {
+    return <Navigate to={localize(ROUTES.LOGIN)} replace state={{ from: location }} />;
+  }
+
+  if (needsUser || status === STATUS.LOADING) {
+    return null;
+  }
+
+  // Still signed in (e.g. the API was unreachable), but nobody to check roles against
+  if (!user) {
+    return (
+      <section className={styles.routeError} role="alert" data-testid="route-error">
+        <h2 className={styles.routeError__title}>{t('protectedRoute.userFailed')}</h2>
+        <p className={styles.routeError__message}>{error?.message ?? t('routeError.loadFailed')}</p>
+        <Button onClick={() => void dispatch(fetchCurrentUser())}>{t('common.tryAgain')}</Button>
+      </section>
+    );
+  }
+
+  if (roles && !user.roles.some((role) => roles.includes(role))) {
+    return <Navigate to={localize(ROUTES.HOME)} replace />;
+  }
+
+  return children ? <>{children}</> : <Outlet />;
+};
+
+export default ProtectedRoute;
@@ -0,0 +1,29 @@
+import { Suspense } from 'react';
+import { useLocation } from 'react-router-dom';
+import PageSpinner from './PageSpinner';
+import ProtectedRoute from './ProtectedRoute';
+import RouteErrorBoundary from './RouteErrorBoundary';
+import type { AppRoute } from './routes';
+
+// Each page is a separate chunk (see ./routes.ts). The boundary is keyed by
+// pathname so navigating away from a failed page clears the error.
+const RouteElement = ({ route }: { route: AppRoute }) => {
+  const { pathname } = useLocation();
+  const Page = route.component;
+
+  const page = (
+    <RouteErrorBoundary key={pathname}>
+      <Suspense fallback={<PageSpinner />}>
+        <Page />
+      </Suspense>
+    </RouteErrorBoundary>
+  );
+
+  return route.protected || route.roles ? (
+    <ProtectedRoute roles={route.roles}>{page}</ProtectedRoute>
+  ) : (
+    page
+  );
+};
+
+export default RouteElement;
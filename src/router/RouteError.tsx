@@ -0,0 +1,41 @@
+import { isRouteErrorResponse, useRevalidator, useRouteError } from 'react-router-dom';
+import Button from '@components/common/Button/Button';
+import { useTranslation } from '@hooks/useTranslation';
+import { isApiError } from '@utils/apiError';
+import RouteElement from './RouteElement';
+import { appRoutes } from './routes';
+import styles from './RouteErrorBoundary.module.scss';
+
+const notFoundRoute = appRoutes.find(({ path }) => path === '*');
+
+/**
+ * Shown in place of a page whose loader or action failed, e.g. because the API was
+ * unreachable. A loader that throws a 404 Response shows the not-found page instead.
+ * Render errors are caught closer to the page, by RouteErrorBoundary.
+ */
+const RouteError = () => {
+  const error = useRouteError();
+  const revalidator = useRevalidator();
+  const { t } = useTranslation();
+
+  if (isRouteErrorResponse(error) && error.status === 404 && notFoundRoute) {
+    return <RouteElement route={notFoundRoute} />;
+  }
+
+  return (
+    <section className={styles.routeError} role="alert" data-testid="route-error">
+      <h2 className={styles.routeError__title}>{t('routeError.title')}</h2>
+      <p className={styles.routeError__message}>
+        {isApiError(error) ? error.message : t('routeError.loadFailed')}
+      </p>
+      <Button
+        loading={revalidator.state === 'loading'}
+        onClick={() => void revalidator.revalidate()}
+      >
+        {t('common.tryAgain')}
+      </Button>
+    </section>
+  );
+};
+
+export default RouteError;
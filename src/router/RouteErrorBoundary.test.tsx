@@ -0,0 +1,73 @@
+// src/router/RouteErrorBoundary.test.tsx
+import { render, screen, fireEvent } from '@testing-library/react';
+import { onErrorReported } from '@utils/errorReporter';
+import RouteErrorBoundary from './RouteErrorBoundary';
+
+const Thrower = ({ message }: { message: string }): React.ReactElement => {
+  throw new Error(message);
+};
+
+describe('RouteErrorBoundary', () => {
+  beforeEach(() => {
+    // React logs caught errors; keep the test output clean
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('renders children when nothing fails', () => {
+    render(
+      <RouteErrorBoundary>
+        <p>Page content</p>
+      </RouteErrorBoundary>,
+    );
+    expect(screen.getByText('Page content')).toBeInTheDocument();
+  });
+
+  test('offers a reload when a page chunk fails to load', () => {
+    render(
+      <RouteErrorBoundary>
+        <Thrower message="Failed to fetch dynamically imported module: /assets/Home-abc.js" />
+      </RouteErrorBoundary>,
+    );
+
+    expect(screen.getByText('A new version is available')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Reload' })).toBeInTheDocument();
+  });
+
+  test('offers a retry for other render errors', () => {
+    let shouldThrow = true;
+    const MaybeThrow = () => (shouldThrow ? <Thrower message="boom" /> : <p>Recovered</p>);
+
+    render(
+      <RouteErrorBoundary>
+        <MaybeThrow />
+      </RouteErrorBoundary>,
+    );
+    expect(screen.getByText('This page failed to load')).toBeInTheDocument();
+
+    shouldThrow = false;
+    fireEvent.click(screen.getByRole('button', { name: 'Try again' }));
+    expect(screen.getByText('Recovered')).toBeInTheDocument();
+  });
+
+  test('reports render errors with the component stack', () => {
+    const reported = jest.fn();
+    const unsubscribe = onErrorReported(reported);
+
+    render(
+      <RouteErrorBoundary>
+        <Thrower message="boom" />
+      </RouteErrorBoundary>,
+    );
+
+    expect(reported).toHaveBeenCalledWith({
+      error: new Error('boom'),
+      source: 'route',
+      componentStack: expect.stringContaining('Thrower'),
+    });
+    unsubscribe();
+  });
+});
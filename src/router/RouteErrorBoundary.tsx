@@ -0,0 +1,69 @@
+import React from 'react';
+import Button from '@components/common/Button/Button';
+import { translate as t } from '@i18n/translator';
+import { reportError } from '@utils/errorReporter';
+import styles from './RouteErrorBoundary.module.scss';
+
+interface RouteErrorBoundaryProps {
+  children: React.ReactNode;
+}
+
+interface RouteErrorBoundaryState {
+  error: Error | null;
+}
+
+// Messages browsers use when a lazily imported chunk can't be fetched,
+// typically because a redeploy removed the old hashed file.
+const CHUNK_ERROR_PATTERN =
+  /Failed to fetch dynamically imported module|error loading dynamically imported module|Importing a module script failed|Loading chunk [\w-]+ failed/i;
+
+const isChunkLoadError = (error: Error) => CHUNK_ERROR_PATTERN.test(error.message);
+
+/**
+ * Catches errors thrown while loading or rendering a single route, so the rest
+ * of the app stays usable, and reports them through `reportError`. A failed
+ * chunk load is recovered by reloading the page, which fetches the newly
+ * deployed bundle.
+ */
+class RouteErrorBoundary extends React.Component<RouteErrorBoundaryProps, RouteErrorBoundaryState> {
+  state: RouteErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): RouteErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo) {
+    reportError(error, { source: 'route', componentStack: info.componentStack ?? undefined });
+  }
+
+  private handleReload = () => {
+    window.location.reload();
+  };
+
+  private handleRetry = () => {
+    this.setState({ error: null });
+  };
+
+  render() {
+    const { error } = this.state;
+    if (!error) return this.props.children;
+
+    const chunkError = isChunkLoadError(error);
+
+    return (
+      <section className={styles.routeError} role="alert" data-testid="route-error">
+        <h2 className={styles.routeError__title}>
+          {t(chunkError ? 'routeError.updated.title' : 'routeError.title')}
+        </h2>
+        <p className={styles.routeError__message}>
+          {t(chunkError ? 'routeError.updated.message' : 'routeError.renderFailed')}
+        </p>
+        <Button onClick={chunkError ? this.handleReload : this.handleRetry}>
+          {t(chunkError ? 'common.reload' : 'common.tryAgain')}
+        </Button>
+      </section>
+    );
+  }
+}
+
+export default RouteErrorBoundary;
@@ -0,0 +1,27 @@
+import { lazy, type ComponentType, type LazyExoticComponent } from 'react';
+
+export type PreloadableComponent<T extends ComponentType> = LazyExoticComponent<T> & {
+  /** Starts downloading the page chunk ahead of navigation */
+  preload: () => Promise<{ default: T }>;
+};
+
+/**
+ * `React.lazy` with a `preload()` method that shares the same import promise,
+ * so hovering a link and then rendering the route downloads the chunk only once.
+ * A failed preload is forgotten so that the next attempt tries again.
+ */
+export const lazyWithPreload = <T extends ComponentType>(
+  factory: () => Promise<{ default: T }>,
+): PreloadableComponent<T> => {
+  let promise: Promise<{ default: T }> | null = null;
+
+  const load = () => {
+    promise ??= factory().catch((error: unknown) => {
+      promise = null;
+      throw error;
+    });
+    return promise;
+  };
+
+  return Object.assign(lazy(load), { preload: load });
+};
@@ -0,0 +1,72 @@
+import type { LoaderFunction, LoaderFunctionArgs, RouteObject } from 'react-router-dom';
+import AppLayout from '@components/layout/AppLayout/AppLayout';
+import { isSupportedLocale } from '@i18n/locale';
+import { tokenStorage } from '@utils/tokenStorage';
+import AppError from './AppError';
+import LocaleRoute from './LocaleRoute';
+import PageSpinner from './PageSpinner';
+import RouteElement from './RouteElement';
+import RouteError from './RouteError';
+import { appRoutes, type AppRoute } from './routes';
+
+// Protected pages load nothing for signed-out visitors: <ProtectedRoute> sends them to
+// sign in. The page chunk downloads alongside the data rather than after it.
+const toLoader = (route: AppRoute): LoaderFunction | undefined => {
+  const { loader } = route;
+  if (!loader) return undefined;
+
+  return (args, context) => {
+    route.component.preload().catch(() => {
+      // Ignore: rendering the route will retry and surface the error
+    });
+    if ((route.protected || route.roles) && !tokenStorage.getAccessToken()) return null;
+    // Loaders run in parallel, so localeLoader's 404 doesn't stop this one on its own
+    if (args.params.locale !== undefined && !isSupportedLocale(args.params.locale)) return null;
+    return loader(args, context);
+  };
+};
+
+// Registry paths are absolute; they are made relative so they also nest under `:locale`
+const toRouteObjects = (): RouteObject[] =>
+  appRoutes.map((route) => {
+    const page = {
+      element: <RouteElement route={route} />,
+      errorElement: <RouteError />,
+      loader: toLoader(route),
+      action: route.action,
+    };
+    return route.path === '/'
+      ? { index: true, ...page }
+      : { path: route.path.replace(/^\//, ''), ...page };
+  });
+
+// Any first segment matches `:locale`; one that isn't a locale (e.g. /unknown/users) is a 404
+const localeLoader = ({ params }: LoaderFunctionArgs) => {
+  if (!isSupportedLocale(params.locale)) {
+    throw new Response('Not Found', { status: 404, statusText: 'Not Found' });
+  }
+  return null;
+};
+
+/** The app's routes, for `createBrowserRouter` in AppRouter and `createMemoryRouter` in tests */
+export const routeTree: RouteObject[] = [
+  {
+    // Every page renders inside the app shell's <Outlet />
+    element: <AppLayout />,
+    // The shell failed, so there is no layout to show a page-level error in
+    errorElement: <AppError />,
+    // Until the first page's loader is done
+    hydrateFallbackElement: <PageSpinner />,
+    children: [
+      ...toRouteObjects(),
+      // Same pages with a language prefix, e.g. /es/login
+      {
+        path: ':locale',
+        element: <LocaleRoute />,
+        errorElement: <RouteError />,
+        loader: localeLoader,
+        children: toRouteObjects(),
+      },
+    ],
+  },
+];
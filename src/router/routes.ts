@@ -0,0 +1,82 @@
+import { matchPath, type ActionFunction, type LoaderFunction, type To } from 'react-router-dom';
+import { ROUTES } from '@constants/index';
+import type { MessageKey } from '@i18n/messages/en';
+import { usersAction, usersLoader } from '@pages/Users/usersRoute';
+import type { UserRole } from '@services/authService';
+import { lazyWithPreload, type PreloadableComponent } from './lazyWithPreload';
+
+export interface AppRoute {
+  path: string;
+  /** Catalog key of the human-readable name, e.g. for navigation and document titles */
+  title: MessageKey;
+  component: PreloadableComponent<React.ComponentType>;
+  /** Requires a signed-in user */
+  protected?: boolean;
+  /** Requires one of these roles (implies `protected`) */
+  roles?: UserRole[];
+  /** Where the route is linked from in the app shell, if anywhere */
+  nav?: 'primary' | 'sidebar';
+  /**
+   * Loads the page's data before it renders (`useLoaderData()` in the page). Runs
+   * again on every navigation to the route, including query string changes, and
+   * after every action. Keep it outside the page module so the page stays lazy.
+   */
+  loader?: LoaderFunction;
+  /** Handles the page's `<Form method="post">` and fetcher submissions */
+  action?: ActionFunction;
+}
+
+/**
+ * Route registry: every page is its own lazily loaded chunk.
+ * Add new pages here rather than in routeTree.tsx.
+ */
+export const appRoutes: AppRoute[] = [
+  {
+    path: ROUTES.HOME,
+    title: 'routes.home',
+    component: lazyWithPreload(() => import('@pages/Home/Home')),
+    nav: 'primary',
+  },
+  {
+    path: ROUTES.LOGIN,
+    title: 'routes.login',
+    component: lazyWithPreload(() => import('@pages/Login/Login')),
+  },
+  {
+    path: ROUTES.USERS,
+    title: 'routes.users',
+    component: lazyWithPreload(() => import('@pages/Users/Users')),
+    protected: true,
+    nav: 'sidebar',
+    loader: usersLoader,
+    action: usersAction,
+  },
+  // Catch-all: keep last
+  {
+    path: '*',
+    title: 'routes.notFound',
+    component: lazyWithPreload(() => import('@pages/NotFound/NotFound')),
+  },
+];
+
+/** Routes linked from the given area of the app shell */
+export const getNavRoutes = (area: NonNullable<AppRoute['nav']>) =>
+  appRoutes.filter((route) => route.nav === area);
+
+/** Preloads the chunk of whichever registered route matches `pathname` */
+export const preloadRoute = (pathname: string) => {
+  const route = appRoutes.find(({ path }) => matchPath(path, pathname));
+  route?.component.preload().catch(() => {
+    // Ignore: rendering the route will retry and surface the error
+  });
+};
+
+/**
+ * Props to spread on any link (Link, NavLink) so the target page chunk
+ * starts downloading on hover or keyboard focus, before the click.
+ */
+export const getPreloadProps = (to: To) => {
+  const pathname = typeof to === 'string' ? to : (to.pathname ?? '');
+  const preload = () => preloadRoute(pathname.split(/[?#]/)[0]);
+  return { onMouseEnter: preload, onFocus: preload };
+};
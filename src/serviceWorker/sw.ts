@@ -0,0 +1,135 @@
+// src/serviceWorker/sw.ts
+/**
+ * Service worker source. Not bundled with the app: the `serviceWorker` plugin in
+ * vite.prod.config.ts compiles this file on its own to `dist/sw.js` and prepends
+ * `__SW_MANIFEST`, the hashed files of that build. So it must not import anything.
+ *
+ * - App shell and hashed assets: precached on install, served cache first
+ * - Navigations: network first, falling back to the cached app shell offline
+ * - GET API calls and other same-origin files (config.json): network first,
+ *   falling back to the last response seen while offline
+ *
+ * Mutations are never touched here; the app queues them itself (see utils/outbox.ts).
+ */
+export {};
+
+interface SwManifest {
+  /** Hash of the precache list; a new deploy gets new caches */
+  version: string;
+  /** Vite `base`, e.g. `/` */
+  base: string;
+  precache: string[];
+}
+
+// The app's tsconfig has the DOM lib, not WebWorker, so the worker types used here are local
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  readonly request: Request;
+  respondWith(response: Response | Promise<Response>): void;
+}
+
+interface ExtendableMessageEvent extends ExtendableEvent {
+  readonly data: unknown;
+}
+
+interface ServiceWorkerScope {
+  readonly location: Location;
+  readonly clients: { claim(): Promise<void> };
+  skipWaiting(): Promise<void>;
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  addEventListener(type: 'message', listener: (event: ExtendableMessageEvent) => void): void;
+}
+
+declare const self: ServiceWorkerScope;
+declare const __SW_MANIFEST: SwManifest;
+
+const { version, base, precache } = __SW_MANIFEST;
+
+// Precached files are versioned; runtime responses outlive deploys
+const PRECACHE = `precache-${version}`;
+const RUNTIME = 'runtime';
+const APP_SHELL = `${base}index.html`;
+
+// Registered as `sw.js?api=<base URL>` (see utils/serviceWorker.ts); the API may be on another origin
+const apiBaseUrl = new URL(
+  new URL(self.location.href).searchParams.get('api') ?? `${base}api`,
+  self.location.origin,
+).href.replace(/\/$/, '');
+
+const precachedUrls = new Set(precache.map((path) => new URL(path, self.location.origin).href));
+
+self.addEventListener('install', (event) => {
+  // Not activated until the user accepts the update (SKIP_WAITING below)
+  event.waitUntil(caches.open(PRECACHE).then((cache) => cache.addAll(precache)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('precache-') && key !== PRECACHE)
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('message', (event) => {
+  const { type } = (event.data ?? {}) as { type?: string };
+  if (type === 'SKIP_WAITING') {
+    void self.skipWaiting();
+  }
+  // Sent on sign-out, so the next user can't read the previous user's API responses offline
+  if (type === 'CLEAR_RUNTIME_CACHE') {
+    event.waitUntil(caches.delete(RUNTIME));
+  }
+});
+
+const cacheFirst = async (request: Request) =>
+  (await caches.match(request, { cacheName: PRECACHE })) ?? fetch(request);
+
+const networkFirst = async (request: Request, fallback?: string) => {
+  try {
+    const response = await fetch(request);
+    // Only complete, successful responses are worth serving offline
+    if (response.ok && response.status !== 206) {
+      const copy = response.clone();
+      void caches.open(RUNTIME).then((cache) => cache.put(request, copy));
+    }
+    return response;
+  } catch (error) {
+    const cached =
+      (await caches.match(request, { cacheName: RUNTIME })) ??
+      (fallback ? await caches.match(fallback, { cacheName: PRECACHE }) : undefined);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, APP_SHELL));
+    return;
+  }
+
+  if (precachedUrls.has(request.url)) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  const isApi = request.url === apiBaseUrl || request.url.startsWith(`${apiBaseUrl}/`);
+  if (isApi || new URL(request.url).origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -0,0 +1,60 @@
+// src/services/authService.test.ts
+import { API_ERROR_KIND } from '@constants/index';
+import { resetDb } from '@mocks/db';
+import { handlers } from '@mocks/handlers';
+import { createMockServer } from '@mocks/server';
+import { onSessionExpired } from '@utils/axiosInstance';
+import { tokenStorage } from '@utils/tokenStorage';
+import { authService } from './authService';
+
+// End to end through axiosInstance and its interceptors, answered by the mock API
+const server = createMockServer(handlers);
+
+describe('authService', () => {
+  beforeAll(() => server.listen());
+  afterEach(() => {
+    server.resetHandlers();
+    resetDb();
+    tokenStorage.clearTokens();
+  });
+  afterAll(() => server.close());
+
+  test('signs in, stores the tokens and loads the current user', async () => {
+    const { user } = await authService.login({ email: 'ada@example.com', password: 'password' });
+
+    expect(user.name).toBe('Ada Lovelace');
+    expect(tokenStorage.getAccessToken()).toBe('mock-access-1');
+    await expect(authService.getCurrentUser()).resolves.toMatchObject({ id: '1' });
+  });
+
+  test('rejects wrong credentials without trying to refresh', async () => {
+    await expect(
+      authService.login({ email: 'ada@example.com', password: 'wrong' }),
+    ).rejects.toMatchObject({
+      kind: API_ERROR_KIND.AUTH,
+      status: 401,
+      message: 'Invalid email or password',
+    });
+    expect(tokenStorage.getAccessToken()).toBeNull();
+  });
+
+  test('refreshes an expired access token and replays the request', async () => {
+    tokenStorage.setTokens('expired', 'mock-refresh-2');
+
+    await expect(authService.getCurrentUser()).resolves.toMatchObject({ name: 'Alan Turing' });
+    expect(tokenStorage.getAccessToken()).toBe('mock-access-2');
+  });
+
+  test('ends the session when the refresh token is no longer valid', async () => {
+    const sessionExpired = jest.fn();
+    const unsubscribe = onSessionExpired(sessionExpired);
+    tokenStorage.setTokens('expired', 'revoked');
+
+    await expect(authService.getCurrentUser()).rejects.toMatchObject({
+      kind: API_ERROR_KIND.AUTH,
+    });
+    expect(sessionExpired).toHaveBeenCalledTimes(1);
+    expect(tokenStorage.getRefreshToken()).toBeNull();
+    unsubscribe();
+  });
+});
@@ -0,0 +1,58 @@
+// src/services/authService.ts
+import { API_ENDPOINTS, USER_ROLES } from '@constants/index';
+import api, { refreshSession } from '@utils/axiosInstance';
+import { outbox } from '@utils/outbox';
+import { serviceWorker } from '@utils/serviceWorker';
+import { tokenStorage } from '@utils/tokenStorage';
+
+export type UserRole = (typeof USER_ROLES)[keyof typeof USER_ROLES];
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  roles: UserRole[];
+}
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+export interface AuthResponse {
+  user: User;
+  accessToken: string;
+  refreshToken?: string;
+}
+
+export const authService = {
+  async login(credentials: LoginCredentials): Promise<AuthResponse> {
+    // A 401 here means bad credentials, not an expired session
+    const { data } = await api.post<AuthResponse>(API_ENDPOINTS.AUTH_LOGIN, credentials, {
+      skipAuthRefresh: true,
+    });
+    tokenStorage.setTokens(data.accessToken, data.refreshToken);
+    return data;
+  },
+
+  async logout(): Promise<void> {
+    try {
+      await api.post(API_ENDPOINTS.AUTH_LOGOUT, null, { skipAuthRefresh: true });
+    } finally {
+      // Always drop local credentials, even if the server call fails, along with
+      // anything kept for this user offline
+      tokenStorage.clearTokens();
+      outbox.clear();
+      serviceWorker.clearRuntimeCache();
+    }
+  },
+
+  async getCurrentUser({ signal }: { signal?: AbortSignal } = {}): Promise<User> {
+    const { data } = await api.get<User>(API_ENDPOINTS.AUTH_ME, { signal });
+    return data;
+  },
+
+  async refreshToken(): Promise<string> {
+    return refreshSession();
+  },
+};
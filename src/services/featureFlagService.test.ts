@@ -0,0 +1,92 @@
+// src/services/featureFlagService.test.ts
+import api from '@utils/axiosInstance';
+import type { User } from './authService';
+import { featureFlagService, getRolloutBucket } from './featureFlagService';
+
+jest.mock('@utils/axiosInstance', () => ({
+  __esModule: true,
+  default: { get: jest.fn() },
+}));
+
+const mockConfig = { enableAnalytics: false };
+
+jest.mock('@config/appConfig', () => ({
+  getConfig: () => mockConfig,
+}));
+
+const mockGet = api.get as jest.Mock;
+
+const user: User = { id: '42', name: 'Ada', email: 'ada@example.com', roles: ['user'] };
+
+const loadFlags = async (flags: Record<string, unknown>) => {
+  mockGet.mockResolvedValueOnce({ data: { flags } });
+  await featureFlagService.load();
+};
+
+describe('featureFlagService', () => {
+  afterEach(async () => {
+    featureFlagService.setOverride('NEW_CHECKOUT', undefined);
+    featureFlagService.setOverride('ENABLE_ANALYTICS', undefined);
+    mockConfig.enableAnalytics = false;
+    await loadFlags({});
+  });
+
+  test('falls back to the defaults', () => {
+    expect(featureFlagService.isEnabled('ENABLE_ANALYTICS')).toBe(false);
+    expect(featureFlagService.isEnabled('UNKNOWN_FLAG')).toBe(false);
+  });
+
+  test('takes the analytics default from the app config, which an override can turn off', () => {
+    mockConfig.enableAnalytics = true;
+    expect(featureFlagService.isEnabled('ENABLE_ANALYTICS')).toBe(true);
+
+    featureFlagService.setOverride('ENABLE_ANALYTICS', false);
+    expect(featureFlagService.isEnabled('ENABLE_ANALYTICS')).toBe(false);
+  });
+
+  test('applies remote boolean flags', async () => {
+    await loadFlags({ ENABLE_ANALYTICS: true });
+    expect(featureFlagService.isEnabled('ENABLE_ANALYTICS')).toBe(true);
+  });
+
+  test('keeps current values when the flag endpoint fails', async () => {
+    await loadFlags({ NEW_CHECKOUT: true });
+    mockGet.mockRejectedValueOnce(new Error('Network down'));
+    await featureFlagService.load();
+
+    expect(featureFlagService.isEnabled('NEW_CHECKOUT')).toBe(true);
+  });
+
+  test('targets listed users and roles', async () => {
+    await loadFlags({
+      NEW_CHECKOUT: { enabled: true, users: ['42'] },
+      ADMIN_TOOLS: { enabled: true, roles: ['admin'] },
+    });
+
+    expect(featureFlagService.isEnabled('NEW_CHECKOUT', user)).toBe(true);
+    expect(featureFlagService.isEnabled('NEW_CHECKOUT', { ...user, id: '7' })).toBe(false);
+    expect(featureFlagService.isEnabled('ADMIN_TOOLS', user)).toBe(false);
+    expect(featureFlagService.isEnabled('ADMIN_TOOLS', { ...user, roles: ['admin'] })).toBe(true);
+  });
+
+  test('rolls out to a stable percentage of users', async () => {
+    await loadFlags({ NEW_CHECKOUT: { enabled: true, rollout: 30 } });
+
+    const inRollout = getRolloutBucket('NEW_CHECKOUT:42') < 30;
+    expect(featureFlagService.isEnabled('NEW_CHECKOUT', user)).toBe(inRollout);
+    expect(featureFlagService.isEnabled('NEW_CHECKOUT', user)).toBe(inRollout);
+
+    const enabledCount = Array.from({ length: 1000 }, (_, id) =>
+      featureFlagService.isEnabled('NEW_CHECKOUT', { ...user, id: String(id) }),
+    ).filter(Boolean).length;
+    expect(enabledCount).toBeGreaterThan(250);
+    expect(enabledCount).toBeLessThan(350);
+  });
+
+  test('lets local overrides win over remote rules', async () => {
+    await loadFlags({ NEW_CHECKOUT: false });
+    featureFlagService.setOverride('NEW_CHECKOUT', true);
+
+    expect(featureFlagService.isEnabled('NEW_CHECKOUT')).toBe(true);
+  });
+});
@@ -0,0 +1,194 @@
+// src/services/featureFlagService.ts
+import { getConfig } from '@config/appConfig';
+import { API_ENDPOINTS, FEATURE_FLAGS, FEATURES } from '@constants/index';
+import api from '@utils/axiosInstance';
+import { createLogger } from '@utils/logger';
+import type { User, UserRole } from './authService';
+
+/**
+ * Runtime feature flags.
+ *
+ * A flag's value is resolved in this order:
+ * 1. Local QA override, from `?flags=NEW_CHECKOUT,-ENABLE_ANALYTICS` (remembered in
+ *    localStorage; `?flags=reset` clears it)
+ * 2. Remote rule, loaded from `API_ENDPOINTS.FEATURE_FLAGS` at startup
+ * 3. Default: from the app config for flags a deployment sets there (`ENABLE_ANALYTICS`
+ *    follows `VITE_ENABLE_ANALYTICS`), else the build-time `FEATURES`, else `false`
+ *
+ * Remote rules are either a boolean or a targeted rollout:
+ *
+ *   { "flags": { "NEW_CHECKOUT": { "enabled": true, "users": ["42"], "roles": ["admin"], "rollout": 25 } } }
+ *
+ * Listed users and roles always get the flag. Everyone else gets it only when they fall
+ * within `rollout` percent, decided by a stable hash of flag name and user id, so a
+ * user's bucket doesn't change between visits.
+ */
+export type FlagName = keyof typeof FEATURES | 'ENABLE_ANALYTICS' | (string & {});
+
+export interface FlagRule {
+  enabled: boolean;
+  /** User ids that always get the flag */
+  users?: string[];
+  /** Roles that always get the flag */
+  roles?: UserRole[];
+  /** Percentage (0-100) of remaining users that get the flag */
+  rollout?: number;
+}
+
+export interface FeatureFlagsResponse {
+  flags: Record<string, boolean | FlagRule>;
+}
+
+export interface FeatureFlagState {
+  remote: Record<string, boolean | FlagRule>;
+  overrides: Record<string, boolean>;
+}
+
+const log = createLogger('featureFlags');
+
+// === Local Overrides ===
+
+const readOverrides = (): Record<string, boolean> => {
+  try {
+    const raw = localStorage.getItem(FEATURE_FLAGS.OVERRIDES_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, boolean>) : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveOverrides = (overrides: Record<string, boolean>) => {
+  try {
+    localStorage.setItem(FEATURE_FLAGS.OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+  } catch {
+    // Overrides still apply for this page load
+  }
+};
+
+// Applies `?flags=` from the URL on top of the stored overrides and saves the result
+const applyQueryOverrides = (search: string, stored: Record<string, boolean>) => {
+  const param = new URLSearchParams(search).get(FEATURE_FLAGS.QUERY_PARAM);
+  if (param === null) return stored;
+
+  const overrides: Record<string, boolean> = param === 'reset' ? {} : { ...stored };
+  param
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name && name !== 'reset')
+    .forEach((name) => {
+      if (name.startsWith('-')) {
+        overrides[name.slice(1)] = false;
+      } else {
+        overrides[name] = true;
+      }
+    });
+
+  saveOverrides(overrides);
+  return overrides;
+};
+
+// === Evaluation ===
+
+/** 32-bit FNV-1a, mapped to a bucket from 0 to 99 */
+export const getRolloutBucket = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100;
+};
+
+// Signed-out visitors get a random id, kept so they stay in the same rollout bucket
+const getAnonymousId = () => {
+  try {
+    let id = localStorage.getItem(FEATURE_FLAGS.ANONYMOUS_ID_STORAGE_KEY);
+    if (!id) {
+      id = Math.random().toString(36).slice(2, 12);
+      localStorage.setItem(FEATURE_FLAGS.ANONYMOUS_ID_STORAGE_KEY, id);
+    }
+    return id;
+  } catch {
+    return 'anonymous';
+  }
+};
+
+const evaluateRule = (name: string, rule: FlagRule, user: User | null) => {
+  if (!rule.enabled) return false;
+  if (user && rule.users?.includes(user.id)) return true;
+  if (user && rule.roles?.some((role) => user.roles.includes(role))) return true;
+
+  if (rule.rollout !== undefined) {
+    return getRolloutBucket(`${name}:${user?.id ?? getAnonymousId()}`) < rule.rollout;
+  }
+  // Targeted at specific users or roles, and this user isn't one of them
+  return !rule.users && !rule.roles;
+};
+
+// Defaults that come from the runtime config, so config.json can change them per deployment
+const getConfigDefaults = (): Record<string, boolean> => ({
+  ENABLE_ANALYTICS: getConfig().enableAnalytics,
+});
+
+// === Store ===
+
+let state: FeatureFlagState = {
+  remote: {},
+  overrides: applyQueryOverrides(window.location.search, readOverrides()),
+};
+const listeners = new Set<() => void>();
+
+// State objects are replaced, never mutated, so they work as useSyncExternalStore snapshots
+const setState = (patch: Partial<FeatureFlagState>) => {
+  state = { ...state, ...patch };
+  listeners.forEach((listener) => listener());
+};
+
+export const featureFlagService = {
+  getState: (): FeatureFlagState => state,
+
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  isEnabled(name: FlagName, user: User | null = null): boolean {
+    const override = state.overrides[name];
+    if (override !== undefined) return override;
+
+    const rule = state.remote[name];
+    if (typeof rule === 'boolean') return rule;
+    if (rule) return evaluateRule(name, rule, user);
+
+    return getConfigDefaults()[name] ?? (FEATURES as Record<string, boolean>)[name] ?? false;
+  },
+
+  /**
+   * Fetches remote rules. Failures are logged and the current values are kept,
+   * so an unavailable flag endpoint never blocks the app.
+   */
+  async load() {
+    try {
+      const { data } = await api.get<FeatureFlagsResponse>(API_ENDPOINTS.FEATURE_FLAGS, {
+        retry: false,
+      });
+      setState({ remote: data.flags ?? {} });
+    } catch (error) {
+      log.warn('Could not load feature flags, using defaults', { error });
+    }
+  },
+
+  /** Sets or clears (`undefined`) a local override for this browser */
+  setOverride(name: FlagName, value: boolean | undefined) {
+    const overrides = { ...state.overrides };
+    if (value === undefined) {
+      delete overrides[name];
+    } else {
+      overrides[name] = value;
+    }
+    saveOverrides(overrides);
+    setState({ overrides });
+  },
+};
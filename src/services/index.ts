@@ -9,14 +9,22 @@
  * - Use axiosInstance for all HTTP requests (configured in utils/axiosInstance.ts)
  * - Return strongly-typed responses using TypeScript interfaces
  * - Handle errors gracefully and throw meaningful error messages
+ *   (axiosInstance already rejects with a typed `ApiError`, see utils/apiError.ts)
  * - Keep services pure - no side effects or component logic
  *
  * Examples:
  * - authService: Login, logout, token refresh
  * - userService: Fetch user profile, update user data
  * - productService: Fetch products, filter, search
+ *
+ * Server state cached in Redux uses RTK Query instead: each domain injects its
+ * endpoints into `apiSlice` (e.g. userApi) and exports the generated hooks.
  */
 
 // Export services here
-// export * from './authService';
-// export * from './userService';
+export * from './authService';
+export * from './featureFlagService';
+export * from './realtime';
+export * from './userService';
+// RTK Query endpoints, injected into store/slices/apiSlice.ts
+export * from './userApi';
@@ -0,0 +1,90 @@
+// src/services/realtime.test.ts
+import { createMockRealtimeServer } from '@mocks/realtimeServer';
+import { fetchCurrentUser, selectCurrentUser, sessionExpired } from '@store/slices/authSlice';
+import { selectToasts, toastsCleared } from '@store/slices/toastSlice';
+import { store } from '@store/store';
+import { tokenStorage } from '@utils/tokenStorage';
+import type { User } from './authService';
+import { realtime } from './realtime';
+
+jest.mock('@config/appConfig', () => {
+  const actual = jest.requireActual<typeof import('@config/appConfig')>('@config/appConfig');
+  return { ...actual, getConfig: () => ({ ...actual.getConfig(), realtimeUrl: '/realtime' }) };
+});
+
+const ada: User = { id: '1', name: 'Ada Lovelace', email: 'ada@example.com', roles: ['admin'] };
+
+// Events flow from the server through the client into Redux (see store.ts)
+const server = createMockRealtimeServer();
+
+describe('realtime events in Redux', () => {
+  beforeEach(async () => {
+    server.listen();
+    realtime.connect();
+    await Promise.resolve();
+  });
+
+  afterEach(() => {
+    realtime.disconnect();
+    server.close();
+    store.dispatch(toastsCleared());
+  });
+
+  test('subscribes to the topics the store handles', () => {
+    expect(realtime.getStatus()).toBe('open');
+    expect(server.getConnections()[0].topics).toEqual(
+      new Set(['user.updated', 'user.deleted', 'notification']),
+    );
+  });
+
+  test('shows notifications as toasts', () => {
+    server.publish('notification', { message: 'Export finished', type: 'success' });
+
+    expect(selectToasts(store.getState())).toMatchObject([
+      { message: 'Export finished', type: 'success' },
+    ]);
+  });
+
+  test('updates the signed-in user', async () => {
+    store.dispatch(fetchCurrentUser.fulfilled(ada, 'request-id'));
+    // Signing in reconnects with the user's token
+    await Promise.resolve();
+
+    server.publish('user.updated', { ...ada, name: 'Augusta Ada King' });
+    server.publish('user.updated', { ...ada, id: '2', name: 'Someone else' });
+
+    expect(selectCurrentUser(store.getState())?.name).toBe('Augusta Ada King');
+  });
+});
+
+describe('realtime across sign-in and sign-out', () => {
+  // Like a real server: a connection without a token is closed as unauthorized
+  const authServer = createMockRealtimeServer({ isAuthorized: (token) => token !== null });
+
+  beforeEach(() => {
+    authServer.listen();
+    store.dispatch(sessionExpired());
+    tokenStorage.clearTokens();
+  });
+
+  afterEach(() => {
+    realtime.disconnect();
+    authServer.close();
+    tokenStorage.clearTokens();
+  });
+
+  test('connects when a user signs in after starting signed out, and closes on sign-out', async () => {
+    expect(authServer.getConnections()).toHaveLength(0);
+
+    tokenStorage.setTokens('access-1');
+    store.dispatch(fetchCurrentUser.fulfilled(ada, 'request-id'));
+    await Promise.resolve();
+
+    expect(realtime.getStatus()).toBe('open');
+    expect(authServer.getConnections()).toMatchObject([{ token: 'access-1' }]);
+
+    store.dispatch(sessionExpired());
+    expect(realtime.getStatus()).toBe('closed');
+    expect(authServer.getConnections()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,36 @@
+// src/services/realtime.ts
+import { getConfig } from '@config/appConfig';
+import { refreshSession } from '@utils/axiosInstance';
+import { createRealtimeClient } from '@utils/realtimeClient';
+import { tokenStorage } from '@utils/tokenStorage';
+import type { User } from './authService';
+
+/**
+ * Events the server pushes, by topic. Adding a topic here types it everywhere:
+ * `realtime.subscribe`, `useSubscription` and the mock realtime server.
+ */
+export interface RealtimeEvents {
+  /** A user's profile changed; carries the updated user */
+  'user.updated': User;
+  'user.deleted': Pick<User, 'id'>;
+  /** A message for the signed-in user, shown as a toast */
+  notification: {
+    message: string;
+    title?: string;
+    type?: 'success' | 'error' | 'info' | 'warning';
+  };
+}
+
+export type RealtimeTopic = keyof RealtimeEvents;
+
+/**
+ * The app's realtime connection (see utils/realtimeClient.ts). It authenticates with
+ * the same token as `axiosInstance` and shares its token refresh when it is rejected, so
+ * an expired session ends the same way for both.
+ * store.ts forwards events into Redux; components use `useSubscription`.
+ */
+export const realtime = createRealtimeClient<RealtimeEvents>({
+  getUrl: () => getConfig().realtimeUrl,
+  getToken: () => tokenStorage.getAccessToken(),
+  onUnauthorized: refreshSession,
+});
@@ -0,0 +1,59 @@
+// src/services/userApi.ts
+import { API_ENDPOINTS } from '@constants/index';
+import type { OffsetPage } from '@hooks/usePaginatedList';
+import { apiSlice } from '@store/slices/apiSlice';
+import type { User } from './authService';
+import { toUserListQuery, type UserListParams } from './userService';
+
+export type UserUpdateRequest = Pick<User, 'id'> & Partial<Omit<User, 'id'>>;
+
+// User endpoints, injected into the root API slice.
+// Cache tags: the list is `{ type: 'User', id: 'LIST' }`, each user is `{ type: 'User', id }`.
+export const userApi = apiSlice.injectEndpoints({
+  endpoints: (builder) => ({
+    // One page of users, like userService.list; without params, the server's first page
+    getUsers: builder.query<OffsetPage<User>, UserListParams | void>({
+      query: (params) => ({
+        url: API_ENDPOINTS.USERS,
+        params: params ? toUserListQuery(params) : undefined,
+      }),
+      providesTags: (result) => [
+        ...(result?.items ?? []).map(({ id }) => ({ type: 'User' as const, id })),
+        { type: 'User' as const, id: 'LIST' },
+      ],
+    }),
+
+    getUser: builder.query<User, string>({
+      query: (id) => `${API_ENDPOINTS.USERS}/${id}`,
+      providesTags: (_result, _error, id) => [{ type: 'User', id }],
+    }),
+
+    updateUser: builder.mutation<User, UserUpdateRequest>({
+      query: ({ id, ...patch }) => ({
+        url: `${API_ENDPOINTS.USERS}/${id}`,
+        method: 'PUT',
+        data: patch,
+      }),
+      invalidatesTags: (_result, _error, { id }) => [
+        { type: 'User', id },
+        { type: 'User', id: 'LIST' },
+      ],
+    }),
+
+    // No response body to wait for, so it can be queued while offline
+    deleteUser: builder.mutation<void, string>({
+      query: (id) => ({
+        url: `${API_ENDPOINTS.USERS}/${id}`,
+        method: 'DELETE',
+        queueOffline: true,
+      }),
+      invalidatesTags: (_result, _error, id) => [
+        { type: 'User', id },
+        { type: 'User', id: 'LIST' },
+      ],
+    }),
+  }),
+});
+
+export const { useGetUsersQuery, useGetUserQuery, useUpdateUserMutation, useDeleteUserMutation } =
+  userApi;
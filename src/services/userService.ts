@@ -0,0 +1,46 @@
+// src/services/userService.ts
+import { API_ENDPOINTS } from '@constants/index';
+import type { OffsetPage, SortState } from '@hooks/usePaginatedList';
+import api from '@utils/axiosInstance';
+import type { User } from './authService';
+
+export interface UserListParams {
+  offset: number;
+  limit: number;
+  /** Server default order when omitted */
+  sort?: SortState;
+  /** Matches name or email */
+  q?: string;
+}
+
+/** Query string for `GET /users`, shared with the RTK Query endpoint in ./userApi */
+export const toUserListQuery = ({ offset, limit, sort, q }: UserListParams) => ({
+  offset,
+  limit,
+  sort: sort?.key,
+  order: sort?.direction,
+  q: q || undefined,
+});
+
+/**
+ * User endpoints for route loaders and actions (see pages/Users). Screens that keep
+ * users in Redux use the RTK Query endpoints in ./userApi instead.
+ */
+export const userService = {
+  /** One page: `GET /users?offset=0&limit=20&sort=name&order=asc&q=ada` -> `{ items, total }` */
+  async list(
+    params: UserListParams,
+    { signal }: { signal?: AbortSignal } = {},
+  ): Promise<OffsetPage<User>> {
+    const { data } = await api.get<OffsetPage<User>>(API_ENDPOINTS.USERS, {
+      params: toUserListQuery(params),
+      signal,
+    });
+    return data;
+  },
+
+  /** Saved in the outbox while offline and sent once the connection returns */
+  async remove(id: string): Promise<void> {
+    await api.delete(`${API_ENDPOINTS.USERS}/${id}`, { queueOffline: true });
+  },
+};
@@ -0,0 +1,158 @@
+// src/store/persist.test.ts
+import 'fake-indexeddb/auto';
+import { configureStore } from '@reduxjs/toolkit';
+import { MOCK_PASSWORD } from '@mocks/fixtures';
+import { handlers } from '@mocks/handlers';
+import { createMockServer } from '@mocks/server';
+import { indexedDBEngine } from '@utils/persistStorage';
+import { login, logout } from './slices/authSlice';
+import counterReducer, { increment, type CounterState } from './slices/counterSlice';
+import { createPersistor, persistReducer, type PersistConfig } from './persist';
+import { persistor as appPersistor, store as appStore } from './store';
+
+const config: PersistConfig<CounterState> = {
+  key: 'counter',
+  version: 2,
+  whitelist: ['value'],
+  migrations: {
+    // v1 stored the number under `count`
+    2: ({ count, ...rest }) => ({ ...rest, value: count }),
+  },
+};
+
+const setup = (persistConfig = config) => {
+  const store = configureStore({
+    reducer: { counter: persistReducer(persistConfig, counterReducer) },
+  });
+  return { store, persistor: createPersistor(store, [persistConfig]) };
+};
+
+describe('Redux persistence', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('rehydrates a persisted slice', async () => {
+    localStorage.setItem('persist:counter', JSON.stringify({ version: 2, state: { value: 7 } }));
+    const { store, persistor } = setup();
+
+    await persistor.rehydrate();
+
+    expect(store.getState().counter).toEqual({ value: 7, status: 'idle' });
+  });
+
+  test('migrates data saved by an older version', async () => {
+    localStorage.setItem('persist:counter', JSON.stringify({ version: 1, state: { count: 3 } }));
+    const { store, persistor } = setup();
+
+    await persistor.rehydrate();
+
+    expect(store.getState().counter.value).toBe(3);
+  });
+
+  test('ignores data saved by a newer version', async () => {
+    localStorage.setItem('persist:counter', JSON.stringify({ version: 3, state: { value: 99 } }));
+    const { store, persistor } = setup();
+
+    await persistor.rehydrate();
+
+    expect(store.getState().counter.value).toBe(0);
+  });
+
+  test('writes whitelisted fields once per throttle window', async () => {
+    jest.useFakeTimers();
+    const { store, persistor } = setup();
+    await persistor.rehydrate();
+    const setItem = jest.spyOn(Storage.prototype, 'setItem');
+
+    store.dispatch(increment());
+    store.dispatch(increment());
+    expect(setItem).not.toHaveBeenCalled();
+
+    await jest.runOnlyPendingTimersAsync();
+
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(localStorage.getItem('persist:counter') ?? '')).toEqual({
+      version: 2,
+      state: { value: 2 },
+    });
+    setItem.mockRestore();
+  });
+
+  test('picks up changes made in another tab', async () => {
+    const { store, persistor } = setup();
+    await persistor.rehydrate();
+
+    localStorage.setItem('persist:counter', JSON.stringify({ version: 2, state: { value: 42 } }));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'persist:counter' }));
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(store.getState().counter.value).toBe(42);
+  });
+
+  test('purges saved state, including a write still waiting on the throttle', async () => {
+    jest.useFakeTimers();
+    localStorage.setItem('persist:counter', JSON.stringify({ version: 2, state: { value: 5 } }));
+    const { store, persistor } = setup();
+    await persistor.rehydrate();
+
+    store.dispatch(increment());
+    await persistor.purge();
+    await jest.runOnlyPendingTimersAsync();
+    expect(localStorage.getItem('persist:counter')).toBeNull();
+
+    // Later changes are saved again
+    store.dispatch(increment());
+    await jest.runOnlyPendingTimersAsync();
+    expect(JSON.parse(localStorage.getItem('persist:counter') ?? '')).toEqual({
+      version: 2,
+      state: { value: 7 },
+    });
+  });
+
+  test('keeps slices in IndexedDB when asked to', async () => {
+    const indexedDBConfig: PersistConfig<CounterState> = { ...config, storage: 'indexedDB' };
+    await indexedDBEngine.setItem(
+      'persist:counter',
+      JSON.stringify({ version: 2, state: { value: 4 } }),
+    );
+    const { store, persistor } = setup(indexedDBConfig);
+
+    await persistor.rehydrate();
+    expect(store.getState().counter.value).toBe(4);
+
+    store.dispatch(increment());
+    await persistor.flush();
+    expect(JSON.parse((await indexedDBEngine.getItem('persist:counter')) ?? '')).toEqual({
+      version: 2,
+      state: { value: 5 },
+    });
+    expect(localStorage.getItem('persist:counter')).toBeNull();
+
+    await persistor.purge();
+    expect(await indexedDBEngine.getItem('persist:counter')).toBeNull();
+  });
+});
+
+describe('Redux persistence in the app store', () => {
+  const server = createMockServer(handlers);
+
+  beforeAll(() => server.listen());
+  afterAll(() => server.close());
+
+  test('removes saved state when the user signs out', async () => {
+    await appStore.dispatch(login({ email: 'ada@example.com', password: MOCK_PASSWORD }));
+    appStore.dispatch(increment());
+    await appPersistor.flush();
+    expect(localStorage.getItem('persist:counter')).not.toBeNull();
+
+    await appStore.dispatch(logout());
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(localStorage.getItem('persist:counter')).toBeNull();
+  });
+});
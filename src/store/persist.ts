@@ -0,0 +1,191 @@
+import { createAction, type Action, type Reducer } from '@reduxjs/toolkit';
+import { PERSIST } from '@constants/index';
+import { createLogger } from '@utils/logger';
+import { getPersistStorage, type PersistStorageType } from '@utils/persistStorage';
+
+/**
+ * Opt-in persistence for Redux slices.
+ *
+ * 1. Describe what to persist next to the slice with a `PersistConfig`
+ * 2. Wrap the slice reducer with `persistReducer(config, reducer)` in store.ts
+ * 3. Pass the config to `createPersistor` and `await persistor.rehydrate()` before rendering
+ *
+ * When a slice's state shape changes, bump `version` and add a migration for it.
+ */
+export interface PersistConfig<S> {
+  /** Slice key in the root state, also used for the storage key */
+  key: string;
+  /** Current version of the persisted shape */
+  version: number;
+  /** Defaults to localStorage; use indexedDB for larger slices */
+  storage?: PersistStorageType;
+  /** Only these fields are saved; omit to save the whole slice */
+  whitelist?: (keyof S)[];
+  /**
+   * Migrations keyed by the version they upgrade *to*.
+   * `{ 2: (state) => ({ ...state, items: state.list }) }` upgrades v1 data to v2.
+   */
+  migrations?: Record<number, (state: Record<string, unknown>) => Record<string, unknown>>;
+}
+
+interface PersistedEnvelope {
+  version: number;
+  state: Record<string, unknown>;
+}
+
+export const rehydrate = createAction<{ key: string; state: Record<string, unknown> }>(
+  'persist/rehydrate',
+);
+
+/** Merges rehydrated fields into the slice state for the matching key */
+export const persistReducer =
+  <S, A extends Action, P>(config: PersistConfig<S>, reducer: Reducer<S, A, P>): Reducer<S, A, P> =>
+  (state, action) => {
+    const nextState = reducer(state, action);
+    if (rehydrate.match(action) && action.payload.key === config.key) {
+      return { ...nextState, ...action.payload.state };
+    }
+    return nextState;
+  };
+
+const log = createLogger('persist');
+
+const storageKey = (key: string) => `${PERSIST.KEY_PREFIX}${key}`;
+
+const pickFields = (state: Record<string, unknown>, whitelist?: PropertyKey[]) => {
+  if (!whitelist) return { ...state };
+  return Object.fromEntries(whitelist.map((field) => [field, state[field as string]]));
+};
+
+// Runs the migrations between the stored and the current version.
+// Data from a newer version (e.g. after a rollback) can't be trusted and is dropped.
+const migrate = <S>(config: PersistConfig<S>, envelope: PersistedEnvelope) => {
+  if (envelope.version > config.version) return null;
+
+  let state = envelope.state;
+  for (let version = envelope.version + 1; version <= config.version; version += 1) {
+    const migration = config.migrations?.[version];
+    if (migration) state = migration(state);
+  }
+  return state;
+};
+
+interface PersistableStore {
+  getState(): unknown;
+  dispatch(action: Action): unknown;
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Connects a store to storage: rehydrates persisted slices, writes changes
+ * back (throttled), and keeps other tabs in sync through the `storage` event.
+ */
+export const createPersistor = (
+  store: PersistableStore,
+  // `never` accepts the config of any slice; here a whitelist is just a list of keys
+  configs: readonly PersistConfig<never>[],
+) => {
+  // Last slice state written or read per key; unchanged slices are skipped
+  const lastPersisted = new Map<string, unknown>();
+  let writeTimer: ReturnType<typeof setTimeout> | null = null;
+  let started = false;
+
+  const getSlice = (key: string) => (store.getState() as Record<string, unknown>)[key];
+
+  const readConfig = async (config: PersistConfig<never>) => {
+    try {
+      const raw = await getPersistStorage(config.storage ?? 'localStorage').getItem(
+        storageKey(config.key),
+      );
+      if (!raw) return;
+
+      const state = migrate(config, JSON.parse(raw) as PersistedEnvelope);
+      if (state) {
+        store.dispatch(rehydrate({ key: config.key, state }));
+      }
+    } catch (error) {
+      // Corrupt or unreadable data must never block startup
+      log.error('Failed to rehydrate slice', { key: config.key, error });
+    } finally {
+      lastPersisted.set(config.key, getSlice(config.key));
+    }
+  };
+
+  const flush = async () => {
+    if (writeTimer) {
+      clearTimeout(writeTimer);
+      writeTimer = null;
+    }
+
+    await Promise.all(
+      configs.map(async (config) => {
+        const slice = getSlice(config.key);
+        if (slice === lastPersisted.get(config.key)) return;
+        lastPersisted.set(config.key, slice);
+
+        const envelope: PersistedEnvelope = {
+          version: config.version,
+          state: pickFields(slice as Record<string, unknown>, config.whitelist),
+        };
+        const engine = config.storage ?? 'localStorage';
+        await getPersistStorage(engine).setItem(storageKey(config.key), JSON.stringify(envelope));
+
+        // IndexedDB writes don't fire `storage` events, so ping other tabs via localStorage
+        if (engine === 'indexedDB') {
+          localStorage.setItem(
+            `${storageKey(config.key)}${PERSIST.SYNC_SUFFIX}`,
+            String(Date.now()),
+          );
+        }
+      }),
+    ).catch((error: unknown) => log.error('Failed to persist state', { error }));
+  };
+
+  // Throttled: at most one write per PERSIST.THROTTLE_MS, always including the latest state
+  const scheduleWrite = () => {
+    writeTimer ??= setTimeout(() => {
+      writeTimer = null;
+      void flush();
+    }, PERSIST.THROTTLE_MS);
+  };
+
+  const handleStorageEvent = (event: StorageEvent) => {
+    const config = configs.find(
+      ({ key }) =>
+        event.key === storageKey(key) || event.key === `${storageKey(key)}${PERSIST.SYNC_SUFFIX}`,
+    );
+    if (config) void readConfig(config);
+  };
+
+  return {
+    /** Loads persisted slices, then starts saving changes. Await before the first render. */
+    async rehydrate() {
+      await Promise.all(configs.map(readConfig));
+      if (started) return;
+      started = true;
+
+      store.subscribe(scheduleWrite);
+      window.addEventListener('storage', handleStorageEvent);
+      // Don't lose the last throttled write when the tab is closed
+      window.addEventListener('pagehide', () => void flush());
+    },
+
+    flush,
+
+    /** Removes all persisted data, e.g. on logout. Changes made after it are saved again. */
+    async purge() {
+      // A pending write would put the purged state straight back
+      if (writeTimer) {
+        clearTimeout(writeTimer);
+        writeTimer = null;
+      }
+      configs.forEach(({ key }) => lastPersisted.set(key, getSlice(key)));
+
+      await Promise.all(
+        configs.map((config) =>
+          getPersistStorage(config.storage ?? 'localStorage').removeItem(storageKey(config.key)),
+        ),
+      );
+    },
+  };
+};
@@ -0,0 +1,16 @@
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { axiosBaseQuery } from '@utils/axiosBaseQuery';
+
+/**
+ * Root RTK Query API slice.
+ *
+ * Endpoints are not declared here: each domain injects its own from
+ * `src/services/` (see `userApi.ts`) with `apiSlice.injectEndpoints`.
+ * Register every cache tag a domain uses in `tagTypes`.
+ */
+export const apiSlice = createApi({
+  reducerPath: 'api',
+  baseQuery: axiosBaseQuery(),
+  tagTypes: ['User'],
+  endpoints: () => ({}),
+});
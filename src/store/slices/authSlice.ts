@@ -0,0 +1,124 @@
+import { createAsyncThunk, createSlice, type PayloadAction } from '@reduxjs/toolkit';
+import { STATUS } from '@constants/index';
+import { authService } from '@services/authService';
+import type { AuthResponse, LoginCredentials, User, UserRole } from '@services/authService';
+import { normalizeApiError, type ApiError } from '@utils/apiError';
+import { tokenStorage } from '@utils/tokenStorage';
+import { apiSlice } from './apiSlice';
+
+export interface AuthState {
+  user: User | null;
+  token: string | null;
+  status: (typeof STATUS)[keyof typeof STATUS];
+  error: ApiError | null;
+}
+
+const initialState: AuthState = {
+  user: null,
+  // Start from any token left by a previous session; the user profile is
+  // fetched lazily by the route guard.
+  token: tokenStorage.getAccessToken(),
+  status: STATUS.IDLE,
+  error: null,
+};
+
+// Async thunks wrap authService so components only dispatch actions
+// and can branch on the typed ApiError in `state.auth.error`.
+export const login = createAsyncThunk<AuthResponse, LoginCredentials, { rejectValue: ApiError }>(
+  'auth/login',
+  async (credentials, { rejectWithValue }) => {
+    try {
+      return await authService.login(credentials);
+    } catch (error) {
+      return rejectWithValue(normalizeApiError(error));
+    }
+  },
+);
+
+export const logout = createAsyncThunk('auth/logout', async (_, { dispatch }) => {
+  try {
+    await authService.logout();
+  } finally {
+    // Drop server data cached for this user
+    dispatch(apiSlice.util.resetApiState());
+  }
+});
+
+export const fetchCurrentUser = createAsyncThunk<User, void, { rejectValue: ApiError }>(
+  'auth/fetchCurrentUser',
+  async (_, { rejectWithValue, signal }) => {
+    try {
+      return await authService.getCurrentUser({ signal });
+    } catch (error) {
+      return rejectWithValue(normalizeApiError(error));
+    }
+  },
+);
+
+export const authSlice = createSlice({
+  name: 'auth',
+  initialState,
+  reducers: {
+    // Dispatched when the axios interceptor gives up on refreshing the token
+    sessionExpired: (state) => {
+      state.user = null;
+      state.token = null;
+      state.status = STATUS.IDLE;
+    },
+    // Pushed by the server (see store.ts); ignored unless it is the signed-in user
+    currentUserUpdated: (state, action: PayloadAction<User>) => {
+      if (state.user?.id === action.payload.id) {
+        state.user = action.payload;
+      }
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(login.pending, (state) => {
+        state.status = STATUS.LOADING;
+        state.error = null;
+      })
+      .addCase(login.fulfilled, (state, action) => {
+        state.status = STATUS.SUCCESS;
+        state.user = action.payload.user;
+        state.token = action.payload.accessToken;
+      })
+      .addCase(login.rejected, (state, action) => {
+        state.status = STATUS.ERROR;
+        state.error = action.payload ?? normalizeApiError(action.error);
+      })
+      .addCase(fetchCurrentUser.pending, (state) => {
+        state.status = STATUS.LOADING;
+      })
+      .addCase(fetchCurrentUser.fulfilled, (state, action) => {
+        state.status = STATUS.SUCCESS;
+        state.user = action.payload;
+      })
+      .addCase(fetchCurrentUser.rejected, (state, action) => {
+        // Aborted with `.abort()` on the dispatched thunk: not a failure, try again later
+        if (action.meta.aborted) {
+          state.status = STATUS.IDLE;
+          return;
+        }
+        // An expired session is handled by `sessionExpired`; other failures
+        // (e.g. network) keep the token so the user isn't logged out.
+        state.status = STATUS.ERROR;
+        state.error = action.payload ?? normalizeApiError(action.error);
+      })
+      // Logout clears local state whether or not the server call succeeded
+      .addCase(logout.fulfilled, () => ({ ...initialState, token: null }))
+      .addCase(logout.rejected, () => ({ ...initialState, token: null }));
+  },
+});
+
+export const { sessionExpired, currentUserUpdated } = authSlice.actions;
+
+// Selectors
+export const selectCurrentUser = (state: { auth: AuthState }) => state.auth.user;
+export const selectAuthStatus = (state: { auth: AuthState }) => state.auth.status;
+export const selectAuthError = (state: { auth: AuthState }) => state.auth.error;
+export const selectIsAuthenticated = (state: { auth: AuthState }) => Boolean(state.auth.token);
+export const selectHasRole = (roles: UserRole[]) => (state: { auth: AuthState }) =>
+  Boolean(state.auth.user?.roles.some((role) => roles.includes(role)));
+
+export default authSlice.reducer;
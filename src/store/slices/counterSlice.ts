@@ -1,5 +1,6 @@
 import { createSlice } from '@reduxjs/toolkit';
 import type { PayloadAction } from '@reduxjs/toolkit';
+import type { PersistConfig } from '../persist';
 
 export interface CounterState {
   value: number;
@@ -11,6 +12,13 @@ const initialState: CounterState = {
   status: 'idle',
 };
 
+// Persist only the value; `status` describes in-flight work and starts fresh on reload
+export const counterPersistConfig: PersistConfig<CounterState> = {
+  key: 'counter',
+  version: 1,
+  whitelist: ['value'],
+};
+
 export const counterSlice = createSlice({
   name: 'counter',
   initialState,
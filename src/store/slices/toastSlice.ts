@@ -0,0 +1,61 @@
+import { createSlice, nanoid } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import { TOAST } from '@constants/index';
+
+export type ToastType = 'success' | 'error' | 'info' | 'warning';
+
+export interface Toast {
+  id: string;
+  type: ToastType;
+  message: string;
+  title?: string;
+  /** Milliseconds before it dismisses itself; 0 keeps it until closed */
+  duration: number;
+  createdAt: number;
+}
+
+export type ToastOptions = Partial<Omit<Toast, 'message' | 'createdAt'>>;
+
+export interface ToastState {
+  toasts: Toast[];
+}
+
+const initialState: ToastState = {
+  toasts: [],
+};
+
+export const toastSlice = createSlice({
+  name: 'toast',
+  initialState,
+  reducers: {
+    toastAdded: {
+      reducer: (state, action: PayloadAction<Toast>) => {
+        // A toast with the same id replaces the old one, e.g. "Saving…" -> "Saved"
+        const toasts = state.toasts.filter((toast) => toast.id !== action.payload.id);
+        state.toasts = [...toasts, action.payload].slice(-TOAST.MAX_VISIBLE);
+      },
+      prepare: (message: string, { type = 'info', ...options }: ToastOptions = {}) => ({
+        payload: {
+          id: nanoid(),
+          duration: type === 'error' ? TOAST.ERROR_DURATION_MS : TOAST.DURATION_MS,
+          ...options,
+          type,
+          message,
+          createdAt: Date.now(),
+        },
+      }),
+    },
+    toastDismissed: (state, action: PayloadAction<string>) => {
+      state.toasts = state.toasts.filter((toast) => toast.id !== action.payload);
+    },
+    toastsCleared: (state) => {
+      state.toasts = [];
+    },
+  },
+});
+
+export const { toastAdded, toastDismissed, toastsCleared } = toastSlice.actions;
+
+export const selectToasts = (state: { toast: ToastState }) => state.toast.toasts;
+
+export default toastSlice.reducer;
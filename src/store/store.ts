@@ -1,11 +1,106 @@
 import { configureStore } from '@reduxjs/toolkit';
-import counterReducer from './slices/counterSlice';
+import { setupListeners } from '@reduxjs/toolkit/query';
+import { realtime } from '@services/realtime';
+import { onRequestFailed, onSessionExpired, replayOutbox } from '@utils/axiosInstance';
+import { serviceWorker } from '@utils/serviceWorker';
+import counterReducer, { counterPersistConfig } from './slices/counterSlice';
+import authReducer, {
+  currentUserUpdated,
+  selectCurrentUser,
+  selectIsAuthenticated,
+  sessionExpired,
+} from './slices/authSlice';
+import toastReducer, { toastAdded } from './slices/toastSlice';
+import { apiSlice } from './slices/apiSlice';
+import { createPersistor, persistReducer } from './persist';
+
+// Slices opted in to persistence (see ./persist.ts)
+const persistedCounterReducer = persistReducer(counterPersistConfig, counterReducer);
 
 export const store = configureStore({
   reducer: {
-    counter: counterReducer,
+    counter: persistedCounterReducer,
+    auth: authReducer,
+    toast: toastReducer,
+    [apiSlice.reducerPath]: apiSlice.reducer,
     // Add other reducers here
   },
+  // The RTK Query middleware handles caching, invalidation and polling
+  middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(apiSlice.middleware),
+});
+
+// Saves opted-in slices; `persistor.rehydrate()` must finish before the first render (main.tsx)
+export const persistor = createPersistor(store, [counterPersistConfig]);
+
+// Enables refetchOnFocus / refetchOnReconnect for RTK Query endpoints
+setupListeners(store.dispatch);
+
+// Keep auth state in sync when the API layer can no longer refresh the session
+onSessionExpired(() => {
+  store.dispatch(sessionExpired());
+  // Drop server data cached for the previous user, including API responses kept offline
+  store.dispatch(apiSlice.util.resetApiState());
+  serviceWorker.clearRuntimeCache();
+});
+
+// Requests made with `errorToast` tell the user when they finally fail
+onRequestFailed(({ error, errorToast }) => {
+  if (!errorToast) return;
+  const message = typeof errorToast === 'string' ? errorToast : error.message;
+  store.dispatch(toastAdded(message, { type: 'error' }));
+});
+
+// === Realtime Events ===
+// Server pushes update the slices that hold the affected data
+realtime.subscribe('user.updated', (user) => {
+  store.dispatch(currentUserUpdated(user));
+  store.dispatch(
+    apiSlice.util.invalidateTags([
+      { type: 'User', id: user.id },
+      { type: 'User', id: 'LIST' },
+    ]),
+  );
+});
+
+realtime.subscribe('user.deleted', ({ id }) => {
+  store.dispatch(
+    apiSlice.util.invalidateTags([
+      { type: 'User', id },
+      { type: 'User', id: 'LIST' },
+    ]),
+  );
+});
+
+realtime.subscribe('notification', ({ message, title, type }) => {
+  store.dispatch(toastAdded(message, { title, type }));
+});
+
+// Follow whoever is signed in. The realtime connection carries the user's token, so it
+// is open only while someone is signed in (the server rejects anonymous ones), and
+// switching users reconnects with the new token.
+let signedInUserId = selectCurrentUser(store.getState())?.id;
+store.subscribe(() => {
+  const userId = selectCurrentUser(store.getState())?.id;
+  if (userId === signedInUserId) return;
+  const previousUserId = signedInUserId;
+  signedInUserId = userId;
+
+  if (previousUserId !== undefined) realtime.disconnect();
+  if (userId === undefined) return;
+  realtime.connect();
+  // Changes queued offline wait for a signed-in user when the session had ended
+  void replayOutbox();
+});
+
+// Signing out, or a session the API layer can no longer refresh, removes the state
+// saved for that user
+let wasAuthenticated = selectIsAuthenticated(store.getState());
+store.subscribe(() => {
+  const isAuthenticated = selectIsAuthenticated(store.getState());
+  if (isAuthenticated === wasAuthenticated) return;
+  wasAuthenticated = isAuthenticated;
+
+  if (!isAuthenticated) void persistor.purge();
 });
 
 // Infer the `RootState` and `AppDispatch` types from the store itself
@@ -0,0 +1,31 @@
+// src/store/toast.ts
+import { store } from './store';
+import { toastAdded, toastDismissed, type ToastOptions } from './slices/toastSlice';
+
+type TypedToastOptions = Omit<ToastOptions, 'type'>;
+
+const show = (message: string, options?: ToastOptions) =>
+  store.dispatch(toastAdded(message, options)).payload.id;
+
+/**
+ * Shows toast notifications from anywhere, including outside React.
+ * Each call returns the toast's id; pass an `id` to replace an existing toast.
+ *
+ * @example
+ * toast.success('Profile saved');
+ * toast.error('Could not save', { title: 'Network error', duration: 0 });
+ */
+export const toast = {
+  show,
+  success: (message: string, options?: TypedToastOptions) =>
+    show(message, { ...options, type: 'success' }),
+  error: (message: string, options?: TypedToastOptions) =>
+    show(message, { ...options, type: 'error' }),
+  info: (message: string, options?: TypedToastOptions) =>
+    show(message, { ...options, type: 'info' }),
+  warning: (message: string, options?: TypedToastOptions) =>
+    show(message, { ...options, type: 'warning' }),
+  dismiss: (id: string) => {
+    store.dispatch(toastDismissed(id));
+  },
+};
@@ -2,3 +2,15 @@ declare module '*.module.scss' {
   const classes: { [key: string]: string };
   export default classes;
 }
+
+// Typed `VITE_*` variables, validated at startup by src/config/appConfig.ts
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_API_TIMEOUT?: string;
+  readonly VITE_ENABLE_ANALYTICS?: string;
+  readonly VITE_TELEMETRY_ENDPOINT?: string;
+  readonly VITE_API_MOCKS?: string;
+  readonly VITE_API_MOCK_LATENCY?: string;
+  readonly VITE_API_MOCK_ERROR_RATE?: string;
+  readonly VITE_REALTIME_URL?: string;
+}
@@ -0,0 +1,156 @@
+// src/utils/apiError.test.ts
+import { AxiosError, AxiosHeaders, CanceledError, type InternalAxiosRequestConfig } from 'axios';
+import { API_ERROR_KIND } from '@constants/index';
+import { loadMessages, setActiveLocale, translate } from '@i18n/translator';
+import {
+  createCancelledError,
+  ERROR_MESSAGE_KEYS,
+  isApiError,
+  isCancelledError,
+  normalizeApiError,
+} from './apiError';
+
+const config = { headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+
+// An axios failure as the XHR adapter reports it: a response, or just the request that was sent
+const httpError = (status: number, data?: unknown) =>
+  new AxiosError(
+    `Request failed with status code ${status}`,
+    'ERR_BAD_RESPONSE',
+    config,
+    {},
+    {
+      status,
+      statusText: '',
+      data,
+      headers: {},
+      config,
+    },
+  );
+
+const noResponse = (code: string) => new AxiosError('Request failed', code, config, {});
+
+describe('normalizeApiError', () => {
+  describe('status codes', () => {
+    test.each([
+      [401, API_ERROR_KIND.AUTH],
+      [403, API_ERROR_KIND.AUTH],
+      [404, API_ERROR_KIND.NOT_FOUND],
+      [422, API_ERROR_KIND.VALIDATION],
+      [500, API_ERROR_KIND.SERVER],
+      [503, API_ERROR_KIND.SERVER],
+      [409, API_ERROR_KIND.UNKNOWN],
+    ])('maps %i to %s', (status, kind) => {
+      expect(normalizeApiError(httpError(status))).toMatchObject({
+        name: 'ApiError',
+        kind,
+        status,
+        message: translate(ERROR_MESSAGE_KEYS[kind]),
+      });
+    });
+
+    test("prefers the server's message and keeps the body", () => {
+      const body = { message: 'Email is already taken', code: 'DUPLICATE' };
+
+      expect(normalizeApiError(httpError(409, body))).toMatchObject({
+        message: 'Email is already taken',
+        data: body,
+      });
+      expect(normalizeApiError(httpError(500, { error: 'Database is down' })).message).toBe(
+        'Database is down',
+      );
+    });
+
+    test('describes errors without a server message in the current language', async () => {
+      await loadMessages('es');
+      setActiveLocale('es');
+      try {
+        expect(normalizeApiError(httpError(404)).message).toBe(
+          'No se encontró el recurso solicitado.',
+        );
+      } finally {
+        setActiveLocale('en');
+      }
+    });
+  });
+
+  describe('validation errors', () => {
+    test('collects field errors from a 422 body, as lists', () => {
+      const error = normalizeApiError(
+        httpError(422, {
+          message: 'The given data was invalid',
+          errors: { email: ['Enter a valid email address', 'Email is taken'], name: 'Required' },
+        }),
+      );
+
+      expect(error).toMatchObject({
+        kind: API_ERROR_KIND.VALIDATION,
+        message: 'The given data was invalid',
+        fieldErrors: {
+          email: ['Enter a valid email address', 'Email is taken'],
+          name: ['Required'],
+        },
+      });
+    });
+
+    test('has no field errors when the body lists none', () => {
+      expect(normalizeApiError(httpError(422, 'Unprocessable'))).toMatchObject({
+        kind: API_ERROR_KIND.VALIDATION,
+        fieldErrors: {},
+      });
+    });
+  });
+
+  describe('requests without a response', () => {
+    test.each(['ECONNABORTED', 'ETIMEDOUT'])('treats %s as a timeout', (code) => {
+      expect(normalizeApiError(noResponse(code))).toMatchObject({
+        kind: API_ERROR_KIND.TIMEOUT,
+        message: 'The server took too long to respond. Please try again.',
+      });
+    });
+
+    test('treats a request that got no answer as a network error', () => {
+      expect(normalizeApiError(noResponse('ERR_NETWORK'))).toMatchObject({
+        kind: API_ERROR_KIND.NETWORK,
+        message: 'Unable to reach the server. Please check your internet connection.',
+      });
+    });
+
+    test('treats a request that was never sent as unknown', () => {
+      const error = new AxiosError('Invalid URL', 'ERR_INVALID_URL', config);
+
+      expect(normalizeApiError(error).kind).toBe(API_ERROR_KIND.UNKNOWN);
+    });
+  });
+
+  describe('other values', () => {
+    test('returns ApiErrors unchanged', () => {
+      const error = normalizeApiError(httpError(404));
+
+      expect(normalizeApiError(error)).toBe(error);
+    });
+
+    test.each([
+      ['an Error', new TypeError('x is undefined')],
+      ['a string', 'failed'],
+      ['null', null],
+    ])('turns %s into an unknown error', (_label, value) => {
+      const error = normalizeApiError(value);
+
+      expect(isApiError(error)).toBe(true);
+      expect(error).toMatchObject({
+        kind: API_ERROR_KIND.UNKNOWN,
+        message: translate(ERROR_MESSAGE_KEYS[API_ERROR_KIND.UNKNOWN]),
+      });
+    });
+
+    test('treats axios cancellations and aborted work as cancelled', () => {
+      const aborted = new DOMException('The operation was aborted', 'AbortError');
+
+      expect(normalizeApiError(new CanceledError()).kind).toBe(API_ERROR_KIND.CANCELLED);
+      expect(normalizeApiError(aborted).kind).toBe(API_ERROR_KIND.CANCELLED);
+      expect(isCancelledError(createCancelledError())).toBe(true);
+      expect(isCancelledError(httpError(500))).toBe(false);
+    });
+  });
+});
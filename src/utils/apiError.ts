@@ -0,0 +1,160 @@
+// src/utils/apiError.ts
+import axios from 'axios';
+import { API_ERROR_KIND } from '@constants/index';
+import { translate } from '@i18n/translator';
+import type { MessageKey } from '@i18n/messages/en';
+
+export type ApiErrorKind = (typeof API_ERROR_KIND)[keyof typeof API_ERROR_KIND];
+
+interface ApiErrorBase<K extends ApiErrorKind> {
+  name: 'ApiError';
+  kind: K;
+  /** Readable message: the server's own message when it sends one, else ERROR_MESSAGE_KEYS[kind] */
+  message: string;
+  /** HTTP status, when a response was received */
+  status?: number;
+  /** Raw response body, for debugging */
+  data?: unknown;
+}
+
+export type NetworkError = ApiErrorBase<typeof API_ERROR_KIND.NETWORK>;
+export type TimeoutError = ApiErrorBase<typeof API_ERROR_KIND.TIMEOUT>;
+export interface ValidationError extends ApiErrorBase<typeof API_ERROR_KIND.VALIDATION> {
+  status: 422;
+  /** Messages per field name, e.g. `{ email: ['Email is already taken'] }` */
+  fieldErrors: Record<string, string[]>;
+}
+export interface AuthError extends ApiErrorBase<typeof API_ERROR_KIND.AUTH> {
+  status: 401 | 403;
+}
+export interface NotFoundError extends ApiErrorBase<typeof API_ERROR_KIND.NOT_FOUND> {
+  status: 404;
+}
+export interface ServerError extends ApiErrorBase<typeof API_ERROR_KIND.SERVER> {
+  status: number;
+}
+export type CancelledError = ApiErrorBase<typeof API_ERROR_KIND.CANCELLED>;
+export type UnknownError = ApiErrorBase<typeof API_ERROR_KIND.UNKNOWN>;
+
+/**
+ * Every failure coming out of axiosInstance is one of these.
+ * Branch on `kind` to handle specific cases, e.g. showing `fieldErrors` for validation.
+ */
+export type ApiError =
+  | NetworkError
+  | TimeoutError
+  | ValidationError
+  | AuthError
+  | NotFoundError
+  | ServerError
+  | CancelledError
+  | UnknownError;
+
+/** Catalog keys of the user-facing text for each kind, used when the server sends no message */
+export const ERROR_MESSAGE_KEYS: Record<ApiErrorKind, MessageKey> = {
+  [API_ERROR_KIND.NETWORK]: 'apiError.network',
+  [API_ERROR_KIND.TIMEOUT]: 'apiError.timeout',
+  [API_ERROR_KIND.VALIDATION]: 'apiError.validation',
+  [API_ERROR_KIND.AUTH]: 'apiError.auth',
+  [API_ERROR_KIND.NOT_FOUND]: 'apiError.notFound',
+  [API_ERROR_KIND.SERVER]: 'apiError.server',
+  [API_ERROR_KIND.CANCELLED]: 'apiError.cancelled',
+  [API_ERROR_KIND.UNKNOWN]: 'apiError.unknown',
+};
+
+export const isApiError = (value: unknown): value is ApiError =>
+  typeof value === 'object' && value !== null && (value as ApiError).name === 'ApiError';
+
+// `AbortController.abort()` rejects fetch and other non-axios work with an AbortError
+const isAbortError = (value: unknown) =>
+  typeof value === 'object' && value !== null && (value as Error).name === 'AbortError';
+
+// Pull a message out of common error body shapes: `{ message }` or `{ error }`
+const getServerMessage = (data: unknown): string | undefined => {
+  if (typeof data !== 'object' || data === null) return undefined;
+  const { message, error } = data as { message?: unknown; error?: unknown };
+  if (typeof message === 'string') return message;
+  if (typeof error === 'string') return error;
+  return undefined;
+};
+
+// Accept `{ errors: { field: 'msg' | ['msg'] } }` as sent by most 422 responses
+const getFieldErrors = (data: unknown): Record<string, string[]> => {
+  const errors = (data as { errors?: unknown } | null)?.errors;
+  if (typeof errors !== 'object' || errors === null) return {};
+
+  return Object.fromEntries(
+    Object.entries(errors).map(([field, value]) => [
+      field,
+      (Array.isArray(value) ? value : [value]).map(String),
+    ]),
+  );
+};
+
+const createApiError = <K extends ApiErrorKind>(
+  kind: K,
+  extra: { status?: number; data?: unknown } = {},
+) => ({
+  name: 'ApiError' as const,
+  kind,
+  message: getServerMessage(extra.data) ?? translate(ERROR_MESSAGE_KEYS[kind]),
+  ...extra,
+});
+
+/**
+ * Converts anything thrown by an axios call into an ApiError.
+ * Values that already are ApiErrors are returned unchanged.
+ */
+export const normalizeApiError = (error: unknown): ApiError => {
+  if (isApiError(error)) return error;
+
+  if (axios.isCancel(error) || isAbortError(error)) {
+    return createApiError(API_ERROR_KIND.CANCELLED);
+  }
+
+  if (!axios.isAxiosError(error)) {
+    return createApiError(API_ERROR_KIND.UNKNOWN);
+  }
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return createApiError(API_ERROR_KIND.TIMEOUT);
+  }
+
+  if (!error.response) {
+    return error.request
+      ? createApiError(API_ERROR_KIND.NETWORK)
+      : createApiError(API_ERROR_KIND.UNKNOWN);
+  }
+
+  const { status, data } = error.response;
+
+  if (status === 401 || status === 403) {
+    return createApiError(API_ERROR_KIND.AUTH, { status, data }) as AuthError;
+  }
+  if (status === 404) {
+    return createApiError(API_ERROR_KIND.NOT_FOUND, { status, data }) as NotFoundError;
+  }
+  if (status === 422) {
+    return {
+      ...createApiError(API_ERROR_KIND.VALIDATION, { status, data }),
+      status,
+      fieldErrors: getFieldErrors(data),
+    };
+  }
+  if (status >= 500) {
+    return createApiError(API_ERROR_KIND.SERVER, { status, data }) as ServerError;
+  }
+
+  return createApiError(API_ERROR_KIND.UNKNOWN, { status, data });
+};
+
+/** The error for work that was abandoned on purpose, e.g. a request superseded by a newer one */
+export const createCancelledError = (): CancelledError => createApiError(API_ERROR_KIND.CANCELLED);
+
+/**
+ * Cancellation is a distinct outcome, not a failure: the caller no longer wants the
+ * result (the component unmounted, or a newer request replaced it). Don't log it,
+ * report it or show it to the user.
+ */
+export const isCancelledError = (error: unknown): boolean =>
+  normalizeApiError(error).kind === API_ERROR_KIND.CANCELLED;
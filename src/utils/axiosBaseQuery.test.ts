@@ -0,0 +1,83 @@
+// src/utils/axiosBaseQuery.test.ts
+import { configureStore } from '@reduxjs/toolkit';
+import { waitFor } from '@testing-library/react';
+import { API_ERROR_KIND } from '@constants/index';
+import { resetDb } from '@mocks/db';
+import { handlers } from '@mocks/handlers';
+import { createMockServer } from '@mocks/server';
+import { userApi } from '@services/userApi';
+import { apiSlice } from '@store/slices/apiSlice';
+import { tokenStorage } from './tokenStorage';
+
+const server = createMockServer(handlers);
+
+// Just the API slice, so each test starts with an empty cache
+const createStore = () =>
+  configureStore({
+    reducer: { [apiSlice.reducerPath]: apiSlice.reducer },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(apiSlice.middleware),
+  });
+
+describe('axiosBaseQuery', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeAll(() => server.listen());
+  beforeEach(() => {
+    store = createStore();
+    tokenStorage.setTokens('mock-access-1');
+  });
+  afterEach(() => {
+    server.resetHandlers();
+    resetDb();
+    tokenStorage.clearTokens();
+  });
+  afterAll(() => server.close());
+
+  test('returns the response body as data', async () => {
+    const { data } = await store.dispatch(
+      userApi.endpoints.getUsers.initiate({ offset: 0, limit: 2 }),
+    );
+
+    expect(data?.items.map(({ name }) => name)).toEqual(['Ada Lovelace', 'Alan Turing']);
+    expect(data?.total).toBe(6);
+  });
+
+  test('normalizes failures into an ApiError', async () => {
+    const { error } = await store.dispatch(userApi.endpoints.getUser.initiate('99'));
+
+    expect(error).toMatchObject({
+      name: 'ApiError',
+      kind: API_ERROR_KIND.NOT_FOUND,
+      status: 404,
+      message: 'User 99 not found',
+    });
+  });
+
+  test('keeps the field errors of a rejected update', async () => {
+    const result = await store.dispatch(
+      userApi.endpoints.updateUser.initiate({ id: '1', email: 'not-an-email' }),
+    );
+
+    expect(result.error).toMatchObject({
+      kind: API_ERROR_KIND.VALIDATION,
+      fieldErrors: { email: ['Enter a valid email address'] },
+    });
+  });
+
+  test('refetches the list after a mutation invalidates it', async () => {
+    const list = store.dispatch(userApi.endpoints.getUsers.initiate());
+    await list;
+
+    await store.dispatch(userApi.endpoints.deleteUser.initiate('2'));
+
+    // The subscribed list was tagged `{ type: 'User', id: 'LIST' }`, so it loads again
+    await waitFor(() =>
+      expect(
+        userApi.endpoints.getUsers
+          .select()(store.getState())
+          .data?.items.map(({ id }) => id),
+      ).not.toContain('2'),
+    );
+    list.unsubscribe();
+  });
+});
@@ -0,0 +1,29 @@
+// src/utils/axiosBaseQuery.ts
+import type { BaseQueryFn } from '@reduxjs/toolkit/query';
+import type { AxiosRequestConfig } from 'axios';
+import api from './axiosInstance';
+import { normalizeApiError, type ApiError } from './apiError';
+
+export type AxiosBaseQueryArgs =
+  | string
+  | Pick<
+      AxiosRequestConfig,
+      'url' | 'method' | 'data' | 'params' | 'headers' | 'retry' | 'queueOffline'
+    >;
+
+/**
+ * RTK Query base query that sends every request through the shared axiosInstance,
+ * so auth headers, token refresh, retries and error normalization all still apply.
+ * Errors come back as `ApiError`, the same shape the rest of the app handles.
+ */
+export const axiosBaseQuery =
+  (): BaseQueryFn<AxiosBaseQueryArgs, unknown, ApiError> =>
+  async (args, { signal }) => {
+    const request = typeof args === 'string' ? { url: args } : args;
+    try {
+      const { data } = await api.request({ ...request, signal });
+      return { data };
+    } catch (error) {
+      return { error: normalizeApiError(error) };
+    }
+  };
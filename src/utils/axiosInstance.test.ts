@@ -0,0 +1,198 @@
+// src/utils/axiosInstance.test.ts
+import { AxiosError, CanceledError, type InternalAxiosRequestConfig } from 'axios';
+import { API_ENDPOINTS, API_ERROR_KIND } from '@constants/index';
+import { mock, respond } from '@mocks/mockApi';
+import { createMockServer } from '@mocks/server';
+import api, { onRequestFailed, onSessionExpired, refreshSession } from './axiosInstance';
+import { addLogTransport, type LogEntry } from './logger';
+import { tokenStorage } from './tokenStorage';
+
+// Settles only when the request's signal aborts, like the real adapters do
+const untilAborted = (config: InternalAxiosRequestConfig) =>
+  new Promise<never>((_, reject) => {
+    config.signal?.addEventListener?.('abort', () =>
+      reject(new CanceledError(undefined, undefined, config)),
+    );
+  });
+
+const failWithNetworkError = (config: InternalAxiosRequestConfig) =>
+  Promise.reject(new AxiosError('Network Error', 'ERR_NETWORK', config, {}));
+
+describe('axiosInstance cancellation', () => {
+  let entries: LogEntry[];
+  let failed: jest.Mock;
+  let cleanups: (() => void)[];
+
+  beforeEach(() => {
+    entries = [];
+    failed = jest.fn();
+    cleanups = [addLogTransport((entry) => entries.push(entry)), onRequestFailed(failed)];
+  });
+
+  afterEach(() => {
+    cleanups.forEach((cleanup) => cleanup());
+    jest.restoreAllMocks();
+  });
+
+  test('rejects an aborted request as cancelled without logging or reporting a failure', async () => {
+    const controller = new AbortController();
+    const request = api.get('/search', { adapter: untilAborted, signal: controller.signal });
+
+    controller.abort();
+
+    await expect(request).rejects.toMatchObject({ kind: API_ERROR_KIND.CANCELLED });
+    expect(failed).not.toHaveBeenCalled();
+    expect(entries.filter(({ level }) => level === 'warn' || level === 'error')).toEqual([]);
+  });
+
+  test('stops waiting for a retry once the request is aborted', async () => {
+    // Full jitter: wait the whole backoff
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    const controller = new AbortController();
+    const adapter = jest.fn(failWithNetworkError);
+    const request = api.get('/report', {
+      adapter,
+      signal: controller.signal,
+      retry: { retries: 3, baseDelay: 60_000, maxDelay: 60_000 },
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(request).rejects.toMatchObject({ kind: API_ERROR_KIND.CANCELLED });
+    expect(adapter).toHaveBeenCalledTimes(1);
+    expect(failed).not.toHaveBeenCalled();
+  });
+});
+
+describe('axiosInstance token refresh', () => {
+  let refreshes: number;
+  let refreshFails: boolean;
+  let expired: jest.Mock;
+  let unsubscribe: () => void;
+
+  // `/reports` only accepts the token the refresh endpoint hands out
+  const server = createMockServer([
+    mock.post(API_ENDPOINTS.AUTH_REFRESH, () => {
+      refreshes += 1;
+      return refreshFails
+        ? respond(401, { message: 'Your session has expired' })
+        : { accessToken: 'fresh-access', refreshToken: 'fresh-refresh' };
+    }),
+    mock.get('/reports', ({ headers }) =>
+      headers.authorization === 'Bearer fresh-access'
+        ? { reports: [] }
+        : respond(401, { message: 'Your session has expired' }),
+    ),
+  ]);
+
+  beforeAll(() => server.listen());
+  beforeEach(() => {
+    refreshes = 0;
+    refreshFails = false;
+    expired = jest.fn();
+    unsubscribe = onSessionExpired(expired);
+    tokenStorage.setTokens('stale-access', 'refresh');
+  });
+  afterEach(() => {
+    unsubscribe();
+    server.resetHandlers();
+    tokenStorage.clearTokens();
+  });
+  afterAll(() => server.close());
+
+  test('shares one refresh between a rejected request and another caller', async () => {
+    const [response, token] = await Promise.all([api.get('/reports'), refreshSession()]);
+
+    expect(refreshes).toBe(1);
+    expect(token).toBe('fresh-access');
+    expect(response.data).toEqual({ reports: [] });
+    expect(tokenStorage.getRefreshToken()).toBe('fresh-refresh');
+  });
+
+  test('ends the session when the refresh is rejected', async () => {
+    refreshFails = true;
+
+    await expect(refreshSession()).rejects.toMatchObject({ status: 401 });
+
+    expect(tokenStorage.getAccessToken()).toBeNull();
+    expect(tokenStorage.getRefreshToken()).toBeNull();
+    expect(expired).toHaveBeenCalledTimes(1);
+  });
+
+  test('refreshes once for concurrent 401s and replays each request with the new token', async () => {
+    const responses = await Promise.all([
+      api.get('/reports'),
+      api.get('/reports'),
+      api.get('/reports'),
+    ]);
+
+    expect(refreshes).toBe(1);
+    expect(responses.map(({ data }) => data)).toEqual([
+      { reports: [] },
+      { reports: [] },
+      { reports: [] },
+    ]);
+    expect(tokenStorage.getAccessToken()).toBe('fresh-access');
+  });
+
+  test('rejects every waiting request when the refresh fails and ends the session once', async () => {
+    refreshFails = true;
+
+    const results = await Promise.allSettled([api.get('/reports'), api.get('/reports')]);
+
+    expect(results).toEqual([
+      { status: 'rejected', reason: expect.objectContaining({ kind: API_ERROR_KIND.AUTH }) },
+      { status: 'rejected', reason: expect.objectContaining({ kind: API_ERROR_KIND.AUTH }) },
+    ]);
+    expect(refreshes).toBe(1);
+    expect(tokenStorage.getAccessToken()).toBeNull();
+    expect(expired).toHaveBeenCalledTimes(1);
+  });
+
+  test('logs and reports a request whose refresh failed', async () => {
+    refreshFails = true;
+    const entries: LogEntry[] = [];
+    const failed = jest.fn();
+    const cleanups = [addLogTransport((entry) => entries.push(entry)), onRequestFailed(failed)];
+
+    await expect(
+      api.get('/reports', { errorToast: 'Could not load reports' }),
+    ).rejects.toMatchObject({ kind: API_ERROR_KIND.AUTH, status: 401 });
+
+    expect(failed).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: 'GET',
+        url: '/reports',
+        error: expect.objectContaining({ kind: API_ERROR_KIND.AUTH }),
+        errorToast: 'Could not load reports',
+      }),
+    );
+    expect(entries).toContainEqual(
+      expect.objectContaining({
+        level: 'warn',
+        message: 'Unauthorized, please sign in again',
+        context: expect.objectContaining({ url: '/reports', status: 401 }),
+      }),
+    );
+    cleanups.forEach((cleanup) => cleanup());
+  });
+
+  test('leaves requests made with skipAuthRefresh alone', async () => {
+    await expect(api.get('/reports', { skipAuthRefresh: true })).rejects.toMatchObject({
+      status: 401,
+    });
+
+    expect(refreshes).toBe(0);
+    expect(tokenStorage.getAccessToken()).toBe('stale-access');
+  });
+
+  test('does not refresh again when the replayed request is still rejected', async () => {
+    server.use(mock.get('/reports', () => respond(401, { message: 'Not for you' })));
+
+    await expect(api.get('/reports')).rejects.toMatchObject({ status: 401 });
+
+    expect(refreshes).toBe(1);
+    expect(expired).not.toHaveBeenCalled();
+  });
+});
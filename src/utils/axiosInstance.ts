@@ -1,54 +1,379 @@
 // src/utils/axiosInstance.ts
-import axios, { type AxiosInstance, type AxiosResponse, type AxiosError } from 'axios';
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+import { getConfig } from '@config/appConfig';
+import { API_ENDPOINTS, API_ERROR_KIND } from '@constants/index';
+import { translate } from '@i18n/translator';
+import { normalizeApiError, type ApiError } from './apiError';
+import { createLogger } from './logger';
+import { OUTBOX_ID_HEADER, outbox, type OutboxEntry } from './outbox';
+import { getRetryDelay, isRetryable, resolveRetryOptions, wait, type RetryOptions } from './retry';
+import { tokenStorage } from './tokenStorage';
 
-// Create a single Axios instance with default config
+// Per-request flags understood by the interceptors below
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Skip the 401 -> refresh -> replay flow (e.g. login or refresh calls) */
+    skipAuthRefresh?: boolean;
+    /** Override the retry policy for idempotent requests, or `false` to opt out */
+    retry?: false | Partial<RetryOptions>;
+    /** Show an error toast if the request finally fails: the error's message, or this text */
+    errorToast?: boolean | string;
+    /**
+     * Mutations only: if the server can't be reached, queue the request in the outbox
+     * and resolve with a 202 placeholder instead of failing (see ./outbox)
+     */
+    queueOffline?: boolean;
+    /** Set by `replayOutbox`: the outbox entry this request sends */
+    outboxEntryId?: string;
+  }
+  interface InternalAxiosRequestConfig {
+    /** Set once a request has been replayed after a token refresh */
+    _retry?: boolean;
+    /** Number of transient-failure retries made so far */
+    _retryCount?: number;
+    /** When the first attempt was sent, used to report request duration */
+    _startedAt?: number;
+    /** Client-side id shared by a request's retries and replays, for correlating logs */
+    _requestId?: string;
+  }
+}
+
+interface RefreshResponse {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+const log = createLogger('api');
+
+// Create a single Axios instance with default config.
+// baseURL and timeout come from the runtime config (see the request interceptor).
 const api: AxiosInstance = axios.create({
-  baseURL: import.meta.env.VITE_API_BASE_URL, // environment-specific base URL
   headers: {
     'Content-Type': 'application/json',
   },
-  timeout: 10000, // 10 seconds
 });
 
+// === Session Expiry Notification ===
+// The app subscribes here (e.g. to clear auth state and redirect to login)
+// instead of this module reaching into the store or router directly.
+type SessionExpiredListener = () => void;
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+export const onSessionExpired = (listener: SessionExpiredListener) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+const notifySessionExpired = () => {
+  sessionExpiredListeners.forEach((listener) => listener());
+};
+
+// === Failed Request Notification ===
+// Fired once per request that finally fails, after refresh and retries are exhausted
+// (e.g. for telemetry). Cancelled requests didn't fail and are not reported.
+// Listeners must not throw or make requests through `api`.
+export interface FailedRequest {
+  requestId: string;
+  method: string;
+  url: string;
+  /** Milliseconds from the first attempt to the final failure */
+  duration: number;
+  retries: number;
+  error: ApiError;
+  /** The request's `errorToast` option */
+  errorToast?: boolean | string;
+}
+
+type RequestFailedListener = (request: FailedRequest) => void;
+const requestFailedListeners = new Set<RequestFailedListener>();
+
+export const onRequestFailed = (listener: RequestFailedListener) => {
+  requestFailedListeners.add(listener);
+  return () => {
+    requestFailedListeners.delete(listener);
+  };
+};
+
+const notifyRequestFailed = (config: InternalAxiosRequestConfig | undefined, error: ApiError) => {
+  if (!config || requestFailedListeners.size === 0) return;
+
+  const request: FailedRequest = {
+    requestId: config._requestId ?? '',
+    method: (config.method ?? 'get').toUpperCase(),
+    url: config.url ?? '',
+    duration: config._startedAt ? Date.now() - config._startedAt : 0,
+    retries: config._retryCount ?? 0,
+    error,
+    // A queued change that stays queued hasn't failed for the user yet
+    errorToast: config.outboxEntryId && staysQueued(error) ? undefined : config.errorToast,
+  };
+  requestFailedListeners.forEach((listener) => listener(request));
+};
+
+// === Token Refresh ===
+// Only one refresh call is in flight at a time. Requests that fail with 401 while
+// it runs, and the realtime connection, wait for that call and share its result.
+let refreshing: Promise<string> | null = null;
+
+const refreshAccessToken = async (): Promise<string> => {
+  const refreshToken = tokenStorage.getRefreshToken();
+  if (!refreshToken) {
+    throw new Error('No refresh token available');
+  }
+
+  // Use the shared instance but opt out of this flow so a 401 from the
+  // refresh endpoint itself can't trigger another refresh.
+  const { data } = await api.post<RefreshResponse>(
+    API_ENDPOINTS.AUTH_REFRESH,
+    { refreshToken },
+    { skipAuthRefresh: true },
+  );
+  tokenStorage.setTokens(data.accessToken, data.refreshToken ?? refreshToken);
+  return data.accessToken;
+};
+
+/**
+ * Exchanges the refresh token for a new access token and resolves with it.
+ * Callers that arrive while a refresh is running get the same one. When it fails
+ * the session is over: the tokens are cleared and `onSessionExpired` listeners run.
+ */
+export const refreshSession = (): Promise<string> => {
+  refreshing ??= refreshAccessToken()
+    .catch((error: unknown) => {
+      tokenStorage.clearTokens();
+      notifySessionExpired();
+      throw error;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+};
+
+const replayWithToken = (config: InternalAxiosRequestConfig, token: string) => {
+  config.headers.Authorization = `Bearer ${token}`;
+  return api(config);
+};
+
+const handleUnauthorized = async (error: AxiosError) => {
+  const originalRequest = error.config as InternalAxiosRequestConfig;
+  originalRequest._retry = true;
+
+  // Without a session the request has failed like any other: log it and tell listeners
+  const token = await refreshSession().catch(() =>
+    Promise.reject(failRequest(originalRequest, normalizeApiError(error))),
+  );
+  return replayWithToken(originalRequest, token);
+};
+
+// === Offline Outbox ===
+// Requests made with `queueOffline` that can't reach the server are queued, and
+// `replayOutbox` sends them, oldest first, once the browser is back online.
+const isMutation = (config: InternalAxiosRequestConfig) =>
+  !['get', 'head', 'options'].includes((config.method ?? 'get').toLowerCase());
+
+const shouldQueue = (config: InternalAxiosRequestConfig) =>
+  Boolean(config.queueOffline) && isMutation(config);
+
+// Failures a queued change waits out rather than being dropped for
+const staysQueued = (error: ApiError) => {
+  switch (error.kind) {
+    case API_ERROR_KIND.NETWORK:
+    case API_ERROR_KIND.TIMEOUT:
+    case API_ERROR_KIND.SERVER:
+    case API_ERROR_KIND.CANCELLED:
+      return true;
+    case API_ERROR_KIND.AUTH:
+      // Signed out; a 403 is final
+      return error.status === 401;
+    default:
+      return false;
+  }
+};
+
+// Queues the request (its body already serialized) and answers in place of the server
+const enqueue = (config: InternalAxiosRequestConfig): AxiosResponse | null => {
+  const entry = outbox.add({
+    method: (config.method ?? 'post').toUpperCase(),
+    url: config.url ?? '',
+    params: config.params as Record<string, unknown> | undefined,
+    data: config.data,
+  });
+  if (!entry) return null;
+
+  log.info('Offline, request queued', { requestId: config._requestId, url: config.url });
+  return {
+    data: undefined,
+    status: 202,
+    statusText: 'Queued',
+    headers: new AxiosHeaders({ [OUTBOX_ID_HEADER]: entry.id }),
+    config,
+    request: null,
+  };
+};
+
+const enqueueAdapter: AxiosAdapter = (config) => {
+  const response = enqueue(config);
+  if (!response) {
+    return Promise.reject(new AxiosError('Network Error', AxiosError.ERR_NETWORK, config));
+  }
+  // Queued behind earlier changes while online: send them all now
+  void replayOutbox();
+  return Promise.resolve(response);
+};
+
+let isReplaying = false;
+
+const send = (entry: OutboxEntry) =>
+  api.request({
+    method: entry.method,
+    url: entry.url,
+    params: entry.params,
+    data: entry.data,
+    errorToast: translate('outbox.replayFailed'),
+    outboxEntryId: entry.id,
+  });
+
+/**
+ * Sends queued requests one at a time, oldest first. Stops at the first one that can't
+ * be sent yet and keeps it: the server is unreachable or failing, or the session has
+ * ended (replayed again once someone signs in). Requests the server rejects for good,
+ * e.g. with a validation error or a conflict, are dropped (the user gets an error
+ * toast) so one bad entry doesn't hold up the rest.
+ */
+export const replayOutbox = async () => {
+  if (isReplaying || !navigator.onLine) return;
+  isReplaying = true;
+  try {
+    for (let entry = outbox.getEntries()[0]; entry; entry = outbox.getEntries()[0]) {
+      try {
+        await send(entry);
+      } catch (error) {
+        if (staysQueued(error as ApiError)) break;
+        log.warn('Dropped a queued request the server rejected', { url: entry.url });
+      }
+      outbox.remove(entry.id);
+    }
+  } finally {
+    isReplaying = false;
+  }
+};
+
+/** Replays the outbox now and whenever the browser comes back online; returns a cleanup */
+export const startOutbox = () => {
+  const handleOnline = () => void replayOutbox();
+  window.addEventListener('online', handleOnline);
+  handleOnline();
+  return () => window.removeEventListener('online', handleOnline);
+};
+
 // === Request Interceptor ===
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem('authToken');
+    // Read per request so a runtime config.json loaded at startup is respected
+    const { apiBaseUrl, apiTimeout } = getConfig();
+    config.baseURL ??= apiBaseUrl;
+    config.timeout ||= apiTimeout;
+    // Retries and replays reuse the config, so this keeps the first attempt's time
+    config._startedAt ??= Date.now();
+    config._requestId ??= Math.random().toString(36).slice(2, 10);
+
+    const token = tokenStorage.getAccessToken();
     if (token && config.headers) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+
+    // Offline, or earlier changes still waiting: queue behind them to keep the order
+    if (shouldQueue(config) && (!navigator.onLine || outbox.getEntries().length > 0)) {
+      config.adapter = enqueueAdapter;
+    }
     return config;
   },
   (error: AxiosError) => {
-    console.error('Request error:', error.message);
-    return Promise.reject(error);
+    log.error('Request could not be sent', { error: error.message });
+    return Promise.reject(normalizeApiError(error));
   },
 );
 
+const logApiError = (config: InternalAxiosRequestConfig | undefined, error: ApiError) => {
+  const requestLog = log.withContext({
+    requestId: config?._requestId,
+    method: config?.method?.toUpperCase(),
+    url: config?.url,
+    status: error.status,
+  });
+
+  switch (error.kind) {
+    case API_ERROR_KIND.AUTH:
+      requestLog.warn('Unauthorized, please sign in again');
+      break;
+    case API_ERROR_KIND.SERVER:
+      requestLog.error('Server error, please try again later');
+      break;
+    case API_ERROR_KIND.NETWORK:
+    case API_ERROR_KIND.TIMEOUT:
+      requestLog.error('No response received, check your network connection', {
+        kind: error.kind,
+      });
+      break;
+    default:
+      requestLog.warn(`Request failed (${error.kind})`, { data: error.data ?? error.message });
+  }
+};
+
+// Logs a request that has finally failed and notifies `onRequestFailed` listeners
+const failRequest = (config: InternalAxiosRequestConfig | undefined, error: ApiError) => {
+  logApiError(config, error);
+  notifyRequestFailed(config, error);
+  return error;
+};
+
 // === Response Interceptor ===
+// Every rejection leaving this instance is normalized to an ApiError (see ./apiError)
 api.interceptors.response.use(
   (response: AxiosResponse) => response,
   (error: AxiosError) => {
-    if (error.response) {
-      const status = error.response.status;
-      switch (status) {
-        case 401:
-          console.error('Unauthorized! Redirecting to login...');
-          // Optionally: window.location.href = '/login'
-          break;
-        case 500:
-          console.error('Server error! Please try again later.');
-          break;
-        default:
-          console.error(`Error ${status}:`, error.response.data);
+    const config = error.config;
+
+    // Abandoned on purpose (unmount, superseded search): a distinct outcome, so no
+    // refresh, retry, error log or failure event. See `isCancelledError`.
+    if (axios.isCancel(error)) {
+      log.debug('Request cancelled', { requestId: config?._requestId, url: config?.url });
+      return Promise.reject(normalizeApiError(error));
+    }
+
+    if (error.response?.status === 401 && config && !config.skipAuthRefresh && !config._retry) {
+      return handleUnauthorized(error);
+    }
+
+    const retryOptions = config && resolveRetryOptions(config.retry);
+    if (config && retryOptions && isRetryable(error)) {
+      const attempt = config._retryCount ?? 0;
+      if (attempt < retryOptions.retries) {
+        config._retryCount = attempt + 1;
+        // An abort during the wait ends it early; the replay then rejects as cancelled
+        return wait(getRetryDelay(error, attempt, retryOptions), config.signal).then(() =>
+          api(config),
+        );
       }
-    } else if (error.request) {
-      console.error('No response received – check your network connection.');
-    } else {
-      console.error('Axios setup error:', error.message);
     }
 
-    return Promise.reject(error);
+    const apiError = normalizeApiError(error);
+    if (config && shouldQueue(config) && apiError.kind === API_ERROR_KIND.NETWORK) {
+      const queued = enqueue(config);
+      if (queued) return queued;
+    }
+
+    return Promise.reject(failRequest(config, apiError));
   },
 );
 
@@ -0,0 +1,56 @@
+// src/utils/errorReporter.test.ts
+import { API_ERROR_KIND } from '@constants/index';
+import { normalizeApiError } from './apiError';
+import { onErrorReported, reportError, type ErrorReport } from './errorReporter';
+
+describe('reportError', () => {
+  let reports: ErrorReport[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    reports = [];
+    unsubscribe = onErrorReported((report) => reports.push(report));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    jest.restoreAllMocks();
+  });
+
+  test('passes Errors through with their details', () => {
+    const error = new Error('Boom');
+
+    reportError(error, { source: 'Profile' });
+
+    expect(reports).toEqual([{ error, source: 'Profile' }]);
+  });
+
+  test("keeps an ApiError's message, kind and status", () => {
+    const apiError = normalizeApiError({
+      isAxiosError: true,
+      message: 'Request failed with status code 503',
+      response: { status: 503, data: { message: 'Maintenance until noon' } },
+    });
+
+    reportError(apiError, { source: 'useErrorHandler' });
+
+    expect(reports).toHaveLength(1);
+    expect(reports[0].error).toBeInstanceOf(Error);
+    expect(reports[0].error.message).toBe('Maintenance until noon');
+    expect(reports[0].apiError).toMatchObject({ kind: API_ERROR_KIND.SERVER, status: 503 });
+  });
+
+  test('wraps other values in an Error', () => {
+    reportError('plain text');
+
+    expect(reports[0].error.message).toBe('plain text');
+    expect(reports[0]).not.toHaveProperty('apiError');
+  });
+
+  test('ignores cancelled requests', () => {
+    reportError(normalizeApiError(new DOMException('Aborted', 'AbortError')));
+
+    expect(reports).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+// src/utils/errorReporter.ts
+import { isApiError, isCancelledError, type ApiError } from './apiError';
+import { createLogger } from './logger';
+
+export interface ErrorReport {
+  error: Error;
+  /** Where the error was caught, e.g. 'ErrorBoundary' or a component name */
+  source?: string;
+  /** React component stack, when the error came from rendering */
+  componentStack?: string;
+  /** The original error when it was an ApiError (a plain object), with its kind and status */
+  apiError?: ApiError;
+}
+
+const log = createLogger('errors');
+
+type ErrorReportListener = (report: ErrorReport) => void;
+const listeners = new Set<ErrorReportListener>();
+
+/**
+ * Subscribes to reported errors (e.g. to forward them to a monitoring service).
+ * Returns an unsubscribe function.
+ */
+export const onErrorReported = (listener: ErrorReportListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// axiosInstance rejects with ApiErrors, which are plain objects, not Errors
+const toError = (error: unknown) => {
+  if (error instanceof Error) return error;
+  if (isApiError(error)) return new Error(error.message);
+  return new Error(String(error));
+};
+
+/**
+ * Central place to report handled errors; logs, then notifies listeners.
+ * Cancelled requests are not errors and are dropped.
+ */
+export const reportError = (error: unknown, details: Omit<ErrorReport, 'error'> = {}) => {
+  if (isCancelledError(error)) return;
+
+  const apiError = isApiError(error) ? error : undefined;
+  const report: ErrorReport = {
+    ...details,
+    error: toError(error),
+    ...(apiError && { apiError }),
+  };
+
+  log.error(report.error.message, {
+    source: report.source,
+    componentStack: report.componentStack,
+    error: report.error,
+    ...(apiError && { kind: apiError.kind, status: apiError.status }),
+  });
+  listeners.forEach((listener) => listener(report));
+};
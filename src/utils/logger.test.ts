@@ -0,0 +1,94 @@
+// src/utils/logger.test.ts
+import { LOGGING } from '@constants/index';
+import {
+  addLogTransport,
+  createLogger,
+  logBuffer,
+  setLogContext,
+  setLogLevel,
+  withMinLevel,
+  type LogEntry,
+} from './logger';
+
+describe('logger', () => {
+  const entries: LogEntry[] = [];
+  let removeTransport: () => void;
+
+  beforeEach(() => {
+    entries.length = 0;
+    removeTransport = addLogTransport((entry) => entries.push(entry));
+    setLogLevel('info');
+    logBuffer.clear();
+  });
+
+  afterEach(() => {
+    removeTransport();
+    setLogContext({ route: undefined });
+  });
+
+  test('writes entries with namespace, level and context', () => {
+    createLogger('api').warn('Request failed', { status: 500 });
+
+    expect(entries).toEqual([
+      expect.objectContaining({
+        level: 'warn',
+        namespace: 'api',
+        message: 'Request failed',
+        context: { status: 500 },
+      }),
+    ]);
+  });
+
+  test('skips entries below the current level', () => {
+    const log = createLogger('test');
+
+    log.debug('hidden');
+    setLogLevel('debug');
+    log.debug('shown');
+
+    expect(entries.map(({ message }) => message)).toEqual(['shown']);
+  });
+
+  test('merges global and logger context into each entry', () => {
+    setLogContext({ route: '/users' });
+    createLogger('api').withContext({ requestId: 'abc' }).error('Boom', { status: 502 });
+
+    expect(entries[0].context).toEqual({ route: '/users', requestId: 'abc', status: 502 });
+  });
+
+  test('keeps a broken transport from affecting the caller', () => {
+    const removeBroken = addLogTransport(() => {
+      throw new Error('Transport down');
+    });
+
+    expect(() => createLogger('test').info('Still fine')).not.toThrow();
+    expect(entries).toHaveLength(1);
+    removeBroken();
+  });
+
+  test('limits a transport to entries at or above a level', () => {
+    const problems: LogEntry[] = [];
+    const removeFiltered = addLogTransport(withMinLevel('warn', (entry) => problems.push(entry)));
+    const log = createLogger('test');
+
+    log.info('routine');
+    log.warn('suspicious');
+    log.error('broken');
+
+    expect(problems.map(({ message }) => message)).toEqual(['suspicious', 'broken']);
+    expect(entries).toHaveLength(3);
+    removeFiltered();
+  });
+
+  test('keeps only the most recent entries in the ring buffer', () => {
+    const log = createLogger('test');
+    for (let i = 0; i < LOGGING.BUFFER_SIZE + 10; i += 1) {
+      log.info(`entry ${i}`);
+    }
+
+    const buffered = logBuffer.entries();
+    expect(buffered).toHaveLength(LOGGING.BUFFER_SIZE);
+    expect(buffered[0].message).toBe('entry 10');
+    expect(buffered[LOGGING.BUFFER_SIZE - 1].message).toBe(`entry ${LOGGING.BUFFER_SIZE + 9}`);
+  });
+});
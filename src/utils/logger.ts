@@ -0,0 +1,145 @@
+// src/utils/logger.ts
+import { env } from '@config/env';
+import { FEATURES, LOGGING } from '@constants/index';
+
+/**
+ * Structured logging with levels, namespaces and context fields.
+ *
+ * @example
+ * const log = createLogger('api');
+ * log.error('Request failed', { requestId, status: 500 });
+ *
+ * Entries go to every registered transport. By default that is the console (every
+ * entry in development, warnings and errors in production) and, everywhere, an
+ * in-memory ring buffer (`logBuffer`) whose recent entries are attached to telemetry
+ * error events. While telemetry runs, warnings and errors are also sent to its
+ * endpoint. Debug mode also records `debug` entries.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogContext = Record<string, unknown>;
+
+export interface LogEntry {
+  level: LogLevel;
+  namespace: string;
+  message: string;
+  timestamp: number;
+  /** Global context (e.g. route) merged with the fields passed to the call */
+  context: LogContext;
+}
+
+export type LogTransport = (entry: LogEntry) => void;
+
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+  /** Returns a logger that adds `context` to every entry */
+  withContext(context: LogContext): Logger;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+let minLevel: LogLevel = FEATURES.ENABLE_DEBUG_MODE ? 'debug' : 'info';
+let globalContext: LogContext = {};
+
+/** Changes which entries are recorded, e.g. `setLogLevel('debug')` while investigating */
+export const setLogLevel = (level: LogLevel) => {
+  minLevel = level;
+};
+
+/** Merges fields into every following entry; `undefined` removes a field */
+export const setLogContext = (patch: LogContext) => {
+  globalContext = Object.fromEntries(
+    Object.entries({ ...globalContext, ...patch }).filter(([, value]) => value !== undefined),
+  );
+};
+
+// === Transports ===
+
+export const consoleTransport: LogTransport = ({ level, namespace, message, context }) => {
+  const { error, ...fields } = context;
+  const args: unknown[] = [`[${namespace}] ${message}`];
+  if (Object.keys(fields).length > 0) args.push(fields);
+  if (error !== undefined) args.push(error);
+
+  // eslint-disable-next-line no-console -- the one place allowed to write to the console
+  console[level](...args);
+};
+
+/** Passes on only entries at `level` or above */
+export const withMinLevel =
+  (level: LogLevel, transport: LogTransport): LogTransport =>
+  (entry) => {
+    if (LEVEL_ORDER[entry.level] >= LEVEL_ORDER[level]) transport(entry);
+  };
+
+/** Keeps the last `capacity` entries in memory, oldest first */
+export const createRingBufferTransport = (capacity: number) => {
+  let entries: LogEntry[] = [];
+
+  return {
+    transport: ((entry) => {
+      entries = [...entries.slice(-(capacity - 1)), entry];
+    }) as LogTransport,
+    entries: (): readonly LogEntry[] => entries,
+    clear() {
+      entries = [];
+    },
+  };
+};
+
+export const logBuffer = createRingBufferTransport(LOGGING.BUFFER_SIZE);
+
+const transports = new Set<LogTransport>([logBuffer.transport]);
+if (env.DEV) {
+  transports.add(consoleTransport);
+} else if (env.PROD) {
+  // Problems stay visible to whoever opens the console on a deployed build
+  transports.add(withMinLevel('warn', consoleTransport));
+}
+
+/** Registers an extra transport. Returns a function that removes it. */
+export const addLogTransport = (transport: LogTransport) => {
+  transports.add(transport);
+  return () => {
+    transports.delete(transport);
+  };
+};
+
+// === Loggers ===
+
+const write = (level: LogLevel, namespace: string, message: string, context: LogContext) => {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) return;
+
+  const entry: LogEntry = {
+    level,
+    namespace,
+    message,
+    timestamp: Date.now(),
+    context: { ...globalContext, ...context },
+  };
+  transports.forEach((transport) => {
+    try {
+      transport(entry);
+    } catch {
+      // A broken transport must never break the code that is logging
+    }
+  });
+};
+
+export const createLogger = (namespace: string, baseContext: LogContext = {}): Logger => {
+  const log =
+    (level: LogLevel) =>
+    (message: string, context: LogContext = {}) =>
+      write(level, namespace, message, { ...baseContext, ...context });
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    withContext: (context) => createLogger(namespace, { ...baseContext, ...context }),
+  };
+};
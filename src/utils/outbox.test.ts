@@ -0,0 +1,194 @@
+// src/utils/outbox.test.ts
+import { waitFor } from '@testing-library/react';
+import { API_ENDPOINTS, API_ERROR_KIND, OFFLINE } from '@constants/index';
+import { db, resetDb } from '@mocks/db';
+import { MOCK_PASSWORD } from '@mocks/fixtures';
+import { handlers } from '@mocks/handlers';
+import { mock, networkError, respond } from '@mocks/mockApi';
+import { createMockServer } from '@mocks/server';
+import { userService } from '@services/userService';
+import { login, sessionExpired } from '@store/slices/authSlice';
+import { store } from '@store/store';
+import type { ApiError } from './apiError';
+import api, { onRequestFailed, replayOutbox, type FailedRequest } from './axiosInstance';
+import { isQueuedResponse, outbox } from './outbox';
+import { tokenStorage } from './tokenStorage';
+
+// Notes saved by the mock server, in the order they arrived
+let saved: string[] = [];
+
+const server = createMockServer([
+  mock.post<unknown, { text: string }>('/notes', ({ body }) => {
+    if (!body.text) return respond(422, { message: 'Text is required' });
+    saved.push(body.text);
+    return respond(201, { text: body.text });
+  }),
+  ...handlers,
+]);
+
+const goOffline = () => jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+describe('offline outbox', () => {
+  beforeAll(() => server.listen());
+  afterEach(() => {
+    jest.restoreAllMocks();
+    server.resetHandlers();
+    outbox.clear();
+    saved = [];
+    tokenStorage.clearTokens();
+    resetDb();
+  });
+  afterAll(() => server.close());
+
+  test('queues mutations made offline and replays them in order', async () => {
+    const offline = goOffline();
+
+    const first = await api.post('/notes', { text: 'first' }, { queueOffline: true });
+    await api.post('/notes', { text: 'second' }, { queueOffline: true });
+
+    expect(isQueuedResponse(first)).toBe(true);
+    expect(first.status).toBe(202);
+    expect(saved).toEqual([]);
+    // Kept across reloads
+    expect(localStorage.getItem(OFFLINE.OUTBOX_STORAGE_KEY)).toContain('second');
+
+    offline.mockReturnValue(true);
+    await replayOutbox();
+
+    expect(saved).toEqual(['first', 'second']);
+    expect(outbox.getEntries()).toEqual([]);
+    expect(localStorage.getItem(OFFLINE.OUTBOX_STORAGE_KEY)).toBeNull();
+  });
+
+  test('queues a user deleted offline and deletes it once back online', async () => {
+    tokenStorage.setTokens('mock-access-1');
+    const offline = goOffline();
+
+    await userService.remove('2');
+
+    expect(outbox.getEntries()).toMatchObject([
+      { method: 'DELETE', url: `${API_ENDPOINTS.USERS}/2` },
+    ]);
+    expect(db.users.map(({ id }) => id)).toContain('2');
+
+    offline.mockReturnValue(true);
+    await replayOutbox();
+
+    expect(outbox.getEntries()).toEqual([]);
+    expect(db.users.map(({ id }) => id)).not.toContain('2');
+  });
+
+  test('queues a mutation that fails to reach the server while online', async () => {
+    server.use(mock.post('/notes', () => networkError()));
+
+    const response = await api.post('/notes', { text: 'draft' }, { queueOffline: true });
+
+    expect(isQueuedResponse(response)).toBe(true);
+    expect(outbox.getEntries()).toMatchObject([{ method: 'POST', url: '/notes' }]);
+  });
+
+  test('keeps entries queued while the server is still unreachable', async () => {
+    goOffline();
+    await api.post('/notes', { text: 'draft' }, { queueOffline: true });
+    jest.restoreAllMocks();
+    server.use(mock.post('/notes', () => networkError()));
+
+    await replayOutbox();
+
+    expect(outbox.getEntries()).toHaveLength(1);
+  });
+
+  test('drops entries the server rejects, reports them and sends the rest', async () => {
+    const failed = jest.fn();
+    const unsubscribe = onRequestFailed(failed);
+    goOffline();
+    await api.post('/notes', { text: '' }, { queueOffline: true });
+    await api.post('/notes', { text: 'valid' }, { queueOffline: true });
+    jest.restoreAllMocks();
+
+    await replayOutbox();
+
+    expect(saved).toEqual(['valid']);
+    expect(outbox.getEntries()).toEqual([]);
+    expect(failed).toHaveBeenCalledWith(
+      expect.objectContaining({ errorToast: 'A change made while offline could not be saved' }),
+    );
+    unsubscribe();
+  });
+
+  test.each([
+    ['a timeout', { kind: API_ERROR_KIND.TIMEOUT, message: 'Too slow' }],
+    ['a server error', { kind: API_ERROR_KIND.SERVER, status: 503, message: 'Recovering' }],
+  ] as [string, ApiError][])('keeps entries queued after %s', async (_, error) => {
+    goOffline();
+    await api.post('/notes', { text: 'draft' }, { queueOffline: true });
+    jest.restoreAllMocks();
+    jest.spyOn(api, 'request').mockRejectedValueOnce(error);
+
+    await replayOutbox();
+
+    expect(outbox.getEntries()).toHaveLength(1);
+    await replayOutbox();
+    expect(saved).toEqual(['draft']);
+  });
+
+  test('keeps a failed replay without telling the user it was lost', async () => {
+    const failed = jest.fn();
+    const unsubscribe = onRequestFailed(failed);
+    goOffline();
+    await api.post('/notes', { text: 'draft' }, { queueOffline: true });
+    jest.restoreAllMocks();
+    server.use(mock.post('/notes', () => respond(503, { message: 'Recovering' })));
+
+    await replayOutbox();
+
+    expect(outbox.getEntries()).toHaveLength(1);
+    expect(failed).toHaveBeenCalledWith(
+      expect.objectContaining({ error: expect.objectContaining({ status: 503 }) }),
+    );
+    expect((failed.mock.calls[0] as [FailedRequest])[0].errorToast).toBeUndefined();
+    unsubscribe();
+  });
+
+  test('keeps entries while signed out and sends them once someone signs in', async () => {
+    goOffline();
+    await api.post('/notes', { text: 'draft' }, { queueOffline: true });
+    jest.restoreAllMocks();
+    // The session ended while offline, and there is no refresh token to renew it
+    server.use(mock.post('/notes', () => respond(401, { message: 'Expired' })));
+
+    await replayOutbox();
+    expect(outbox.getEntries()).toHaveLength(1);
+
+    server.resetHandlers();
+    await store.dispatch(login({ email: 'ada@example.com', password: MOCK_PASSWORD }));
+
+    await waitFor(() => expect(saved).toEqual(['draft']));
+    expect(outbox.getEntries()).toEqual([]);
+    store.dispatch(sessionExpired());
+  });
+
+  test.each([
+    ['a forbidden change', 403],
+    ['a conflict', 409],
+  ])('drops %s', async (_, status) => {
+    goOffline();
+    await api.post('/notes', { text: 'draft' }, { queueOffline: true });
+    jest.restoreAllMocks();
+    server.use(mock.post('/notes', () => respond(status, { message: 'No' })));
+
+    await replayOutbox();
+
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  test('only queues requests that opt in', async () => {
+    goOffline();
+    server.use(mock.post('/notes', () => networkError()));
+
+    await expect(api.post('/notes', { text: 'now or never' })).rejects.toMatchObject({
+      kind: API_ERROR_KIND.NETWORK,
+    });
+    expect(outbox.getEntries()).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+// src/utils/outbox.ts
+import type { AxiosResponse } from 'axios';
+import { OFFLINE } from '@constants/index';
+import { createLogger } from './logger';
+
+/**
+ * Mutations made while offline, kept in localStorage until they can be sent.
+ *
+ * Requests opt in with `queueOffline` (see ./axiosInstance). When one can't reach the
+ * server it is added here and resolves with a 202 placeholder instead of failing;
+ * `replayOutbox` then sends the entries in the order they were made once the browser
+ * is back online. Entries hold only what is needed to send the request again: the
+ * auth header is added fresh when it is replayed.
+ */
+export interface OutboxEntry {
+  id: string;
+  method: string;
+  url: string;
+  params?: Record<string, unknown>;
+  /** Body as it was sent, usually a JSON string */
+  data?: unknown;
+  createdAt: number;
+}
+
+/** Header on the 202 placeholder response of a queued request, holding the entry id */
+export const OUTBOX_ID_HEADER = 'x-outbox-id';
+
+/** Whether a response is the placeholder for a request queued while offline */
+export const isQueuedResponse = (response: AxiosResponse) =>
+  response.status === 202 && Boolean(response.headers?.[OUTBOX_ID_HEADER]);
+
+const log = createLogger('outbox');
+
+const read = (): OutboxEntry[] => {
+  try {
+    const raw = localStorage.getItem(OFFLINE.OUTBOX_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as OutboxEntry[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const save = (entries: OutboxEntry[]) => {
+  try {
+    if (entries.length > 0) {
+      localStorage.setItem(OFFLINE.OUTBOX_STORAGE_KEY, JSON.stringify(entries));
+    } else {
+      localStorage.removeItem(OFFLINE.OUTBOX_STORAGE_KEY);
+    }
+  } catch (error) {
+    // Still replayed from memory if the page stays open
+    log.warn('Could not save the outbox', { error });
+  }
+};
+
+let entries = read();
+const listeners = new Set<() => void>();
+
+// Arrays are replaced, never mutated, so they work as useSyncExternalStore snapshots
+const setEntries = (next: OutboxEntry[]) => {
+  entries = next;
+  save(next);
+  listeners.forEach((listener) => listener());
+};
+
+export const outbox = {
+  /** Queued entries, oldest first */
+  getEntries: (): OutboxEntry[] => entries,
+
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /** Queues a request; returns `null` when the outbox is full and it can't be kept */
+  add(request: Omit<OutboxEntry, 'id' | 'createdAt'>): OutboxEntry | null {
+    if (entries.length >= OFFLINE.MAX_OUTBOX_ENTRIES) {
+      log.warn('Outbox is full, request not queued', { method: request.method, url: request.url });
+      return null;
+    }
+    const entry: OutboxEntry = {
+      ...request,
+      id: Math.random().toString(36).slice(2, 10),
+      createdAt: Date.now(),
+    };
+    setEntries([...entries, entry]);
+    return entry;
+  },
+
+  remove(id: string) {
+    setEntries(entries.filter((entry) => entry.id !== id));
+  },
+
+  /** Drops everything, e.g. on sign-out: the entries belong to the previous user */
+  clear() {
+    if (entries.length > 0) setEntries([]);
+  },
+};
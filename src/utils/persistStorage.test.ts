@@ -0,0 +1,47 @@
+// src/utils/persistStorage.test.ts
+import 'fake-indexeddb/auto';
+import { getPersistStorage, indexedDBEngine, localStorageEngine } from './persistStorage';
+
+describe('IndexedDB storage engine', () => {
+  test('stores, reads and removes values', async () => {
+    await indexedDBEngine.setItem('persist:settings', '{"theme":"dark"}');
+    expect(await indexedDBEngine.getItem('persist:settings')).toBe('{"theme":"dark"}');
+
+    await indexedDBEngine.setItem('persist:settings', '{"theme":"light"}');
+    expect(await indexedDBEngine.getItem('persist:settings')).toBe('{"theme":"light"}');
+
+    await indexedDBEngine.removeItem('persist:settings');
+    expect(await indexedDBEngine.getItem('persist:settings')).toBeNull();
+  });
+
+  test('reads missing keys as null', async () => {
+    expect(await indexedDBEngine.getItem('persist:missing')).toBeNull();
+  });
+
+  test('keeps values out of localStorage', async () => {
+    await indexedDBEngine.setItem('persist:large', 'x'.repeat(1000));
+
+    expect(localStorage.getItem('persist:large')).toBeNull();
+    expect(await indexedDBEngine.getItem('persist:large')).toHaveLength(1000);
+  });
+});
+
+describe('getPersistStorage', () => {
+  const { indexedDB } = globalThis;
+
+  afterEach(() => {
+    globalThis.indexedDB = indexedDB;
+  });
+
+  test('returns the engine asked for', () => {
+    expect(getPersistStorage('indexedDB')).toBe(indexedDBEngine);
+    expect(getPersistStorage('localStorage')).toBe(localStorageEngine);
+  });
+
+  test('falls back to localStorage where IndexedDB is unavailable', () => {
+    // Like a browser without IndexedDB
+    Reflect.deleteProperty(globalThis, 'indexedDB');
+
+    expect(getPersistStorage('indexedDB')).toBe(localStorageEngine);
+  });
+});
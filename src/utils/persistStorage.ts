@@ -0,0 +1,72 @@
+// src/utils/persistStorage.ts
+
+/**
+ * Async key/value storage engines used by the Redux persistence layer.
+ * Both share one interface so a slice can switch engines with a single option.
+ */
+export interface PersistStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export type PersistStorageType = 'localStorage' | 'indexedDB';
+
+export const localStorageEngine: PersistStorage = {
+  async getItem(key) {
+    return localStorage.getItem(key);
+  },
+  async setItem(key, value) {
+    localStorage.setItem(key, value);
+  },
+  async removeItem(key) {
+    localStorage.removeItem(key);
+  },
+};
+
+// === IndexedDB ===
+// A single object store used as a plain key/value map. Suited to larger slices
+// that would not fit comfortably in localStorage's ~5MB quota.
+
+const DB_NAME = 'app-state';
+const STORE_NAME = 'keyval';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const indexedDBEngine: PersistStorage = {
+  async getItem(key) {
+    const value = await runTransaction<unknown>('readonly', (store) => store.get(key));
+    return typeof value === 'string' ? value : null;
+  },
+  async setItem(key, value) {
+    await runTransaction('readwrite', (store) => store.put(value, key));
+  },
+  async removeItem(key) {
+    await runTransaction('readwrite', (store) => store.delete(key));
+  },
+};
+
+export const getPersistStorage = (type: PersistStorageType): PersistStorage =>
+  type === 'indexedDB' && typeof indexedDB !== 'undefined' ? indexedDBEngine : localStorageEngine;
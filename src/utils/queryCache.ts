@@ -0,0 +1,232 @@
+// src/utils/queryCache.ts
+import { QUERY_CACHE, STATUS } from '@constants/index';
+import { isCancelledError, normalizeApiError, type ApiError } from './apiError';
+
+/**
+ * Keyed cache behind the `useQuery` / `useMutation` hooks.
+ *
+ * - Entries are identified by an array key, e.g. `['users', userId]`
+ * - Concurrent fetches of the same key share one in-flight promise
+ * - Invalidation by key prefix marks entries stale and refetches the ones in use
+ * - A request is aborted once no mounted hook uses its key any more, so navigating
+ *   away or typing a new search term drops requests nobody is waiting for
+ * - Entries left unused for `QUERY_CACHE.GC_TIME_MS` are dropped, so memory doesn't
+ *   grow with every key ever visited
+ */
+export type QueryKey = readonly unknown[];
+export type QueryStatus = (typeof STATUS)[keyof typeof STATUS];
+
+export interface QueryFetcherContext {
+  /** Aborted when the result is no longer wanted; pass it on, e.g. `api.get(url, { signal })` */
+  signal: AbortSignal;
+}
+
+export type QueryFetcher<T> = (context: QueryFetcherContext) => Promise<T>;
+
+export interface QueryState<T = unknown> {
+  data: T | undefined;
+  error: ApiError | null;
+  status: QueryStatus;
+  /** True while a request is in flight, including background revalidation */
+  isFetching: boolean;
+  /** Timestamp of the last successful fetch, 0 when never fetched or invalidated */
+  updatedAt: number;
+}
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState;
+  promise: Promise<unknown> | null;
+  /** Aborts the in-flight request */
+  controller: AbortController | null;
+  listeners: Set<() => void>;
+  /** Latest fetcher registered by a mounted hook, used to refetch on invalidation */
+  fetcher: QueryFetcher<unknown> | null;
+  /** Removes the entry once it has gone unused for `QUERY_CACHE.GC_TIME_MS` */
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const initialState: QueryState = {
+  data: undefined,
+  error: null,
+  status: STATUS.IDLE,
+  isFetching: false,
+  updatedAt: 0,
+};
+
+const entries = new Map<string, QueryEntry>();
+
+export const hashQueryKey = (key: QueryKey) => JSON.stringify(key);
+
+const cancelGc = (entry: QueryEntry) => {
+  if (entry.gcTimer) clearTimeout(entry.gcTimer);
+  entry.gcTimer = null;
+};
+
+// Cached data outlives its last subscriber for a while, so coming back to a page is
+// instant; after that the entry goes, unless something subscribed again meanwhile
+const scheduleGc = (hash: string, entry: QueryEntry) => {
+  cancelGc(entry);
+  entry.gcTimer = setTimeout(() => {
+    entry.gcTimer = null;
+    if (entry.listeners.size === 0 && entries.get(hash) === entry) entries.delete(hash);
+  }, QUERY_CACHE.GC_TIME_MS);
+};
+
+const getEntry = (key: QueryKey): QueryEntry => {
+  const hash = hashQueryKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = {
+      key,
+      state: initialState,
+      promise: null,
+      controller: null,
+      listeners: new Set(),
+      fetcher: null,
+      gcTimer: null,
+    };
+    entries.set(hash, entry);
+    // Also covers entries only written to, e.g. with setData, that nothing ever reads
+    scheduleGc(hash, entry);
+  }
+  return entry;
+};
+
+// State objects are replaced, never mutated, so they work as useSyncExternalStore snapshots
+const setState = (entry: QueryEntry, patch: Partial<QueryState>) => {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((listener) => listener());
+};
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey) =>
+  prefix.every((part, index) => hashQueryKey([part]) === hashQueryKey([key[index]]));
+
+const fetchEntry = <T>(entry: QueryEntry, fetcher: QueryFetcher<T>): Promise<T> => {
+  // Deduplicate: everyone asking while a request is in flight gets the same promise
+  if (entry.promise) return entry.promise as Promise<T>;
+
+  // Stale-while-revalidate: keep showing cached data while refetching
+  const previousStatus = entry.state.status;
+  setState(entry, {
+    isFetching: true,
+    status: entry.state.data === undefined ? STATUS.LOADING : previousStatus,
+  });
+
+  const controller = new AbortController();
+  const promise = fetcher({ signal: controller.signal })
+    .then((data) => {
+      setState(entry, {
+        data,
+        error: null,
+        status: STATUS.SUCCESS,
+        isFetching: false,
+        updatedAt: Date.now(),
+      });
+      return data;
+    })
+    .catch((error: unknown) => {
+      const apiError = normalizeApiError(error);
+      // Nothing failed: go back to where the entry was before the request
+      if (isCancelledError(apiError)) {
+        setState(entry, { isFetching: false, status: previousStatus });
+      } else {
+        setState(entry, { error: apiError, status: STATUS.ERROR, isFetching: false });
+      }
+      throw apiError;
+    })
+    .finally(() => {
+      entry.promise = null;
+      entry.controller = null;
+    });
+
+  entry.promise = promise;
+  entry.controller = controller;
+  return promise;
+};
+
+const abortEntry = (entry: QueryEntry) => {
+  entry.controller?.abort();
+};
+
+export const queryCache = {
+  getState<T>(key: QueryKey): QueryState<T> {
+    return getEntry(key).state as QueryState<T>;
+  },
+
+  subscribe(key: QueryKey, listener: () => void) {
+    const entry = getEntry(key);
+    entry.listeners.add(listener);
+    cancelGc(entry);
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size > 0) return;
+
+      scheduleGc(hashQueryKey(key), entry);
+      // Checked a tick later, as React re-subscribes right away when only the
+      // subscribing component re-renders (or StrictMode remounts it)
+      if (entry.controller) {
+        setTimeout(() => {
+          if (entry.listeners.size === 0) abortEntry(entry);
+        }, 0);
+      }
+    };
+  },
+
+  /** Registers the fetcher used when this key is invalidated while in use */
+  setFetcher<T>(key: QueryKey, fetcher: QueryFetcher<T>) {
+    getEntry(key).fetcher = fetcher as QueryFetcher<unknown>;
+  },
+
+  fetch<T>(key: QueryKey, fetcher: QueryFetcher<T>): Promise<T> {
+    return fetchEntry(getEntry(key), fetcher);
+  },
+
+  isStale(key: QueryKey, staleTime: number): boolean {
+    const { updatedAt } = getEntry(key).state;
+    return updatedAt === 0 || Date.now() - updatedAt > staleTime;
+  },
+
+  setData<T>(key: QueryKey, updater: T | ((previous: T | undefined) => T)) {
+    const entry = getEntry(key);
+    const data =
+      typeof updater === 'function'
+        ? (updater as (previous: T | undefined) => T)(entry.state.data as T | undefined)
+        : updater;
+    setState(entry, { data, error: null, status: STATUS.SUCCESS, updatedAt: Date.now() });
+  },
+
+  /**
+   * Marks every entry whose key starts with `prefix` as stale.
+   * Entries currently used by a mounted hook are refetched right away.
+   * Without a prefix, everything is invalidated.
+   */
+  invalidate(prefix: QueryKey = []) {
+    entries.forEach((entry) => {
+      if (!matchesPrefix(entry.key, prefix)) return;
+
+      setState(entry, { updatedAt: 0 });
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        fetchEntry(entry, entry.fetcher).catch(() => {
+          // The error is stored on the entry and surfaced through the hook
+        });
+      }
+    });
+  },
+
+  /** Aborts in-flight requests for keys starting with `prefix` (default: all) */
+  cancel(prefix: QueryKey = []) {
+    entries.forEach((entry) => {
+      if (matchesPrefix(entry.key, prefix)) abortEntry(entry);
+    });
+  },
+
+  /** Drops all cached data and aborts its requests, e.g. on logout or between tests */
+  clear() {
+    entries.forEach((entry) => {
+      abortEntry(entry);
+      cancelGc(entry);
+    });
+    entries.clear();
+  },
+};
@@ -0,0 +1,180 @@
+// src/utils/realtimeClient.test.ts
+import { REALTIME } from '@constants/index';
+import { createMockRealtimeServer, type MockRealtimeOptions } from '@mocks/realtimeServer';
+import type { RealtimeEvents } from '@services/realtime';
+import { createRealtimeClient, type RealtimeClientOptions } from './realtimeClient';
+
+// Lets the mock server open connections and answer
+const flush = async () => {
+  for (let i = 0; i < 5; i += 1) await Promise.resolve();
+};
+
+const setup = (
+  serverOptions: MockRealtimeOptions = {},
+  clientOptions: Partial<RealtimeClientOptions> = {},
+) => {
+  const server = createMockRealtimeServer(serverOptions);
+  const client = createRealtimeClient<RealtimeEvents>({
+    getUrl: () => 'http://localhost:3000/realtime',
+    getToken: () => 'token-1',
+    ...clientOptions,
+  });
+  server.listen(client);
+  return { server, client };
+};
+
+describe('realtimeClient', () => {
+  let cleanup: (() => void) | undefined;
+
+  afterEach(() => {
+    cleanup?.();
+    cleanup = undefined;
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  const start = (...args: Parameters<typeof setup>) => {
+    const context = setup(...args);
+    cleanup = () => {
+      context.client.disconnect();
+      context.server.close();
+    };
+    return context;
+  };
+
+  test('connects over WebSocket with the access token and delivers events by topic', async () => {
+    const { server, client } = start();
+    const notification = jest.fn();
+    client.subscribe('notification', notification);
+
+    client.connect();
+    expect(client.getStatus()).toBe('connecting');
+    await flush();
+
+    expect(client.getStatus()).toBe('open');
+    expect(client.getTransport()).toBe('websocket');
+    expect(server.getConnections()).toMatchObject([{ token: 'token-1' }]);
+
+    server.publish('notification', { message: 'Report ready' });
+    server.publish('user.deleted', { id: '3' });
+    expect(notification).toHaveBeenCalledTimes(1);
+    expect(notification).toHaveBeenCalledWith({ message: 'Report ready' });
+  });
+
+  test('asks the server only for topics that have listeners', async () => {
+    const { server, client } = start();
+    client.connect();
+    await flush();
+    const [connection] = server.getConnections();
+
+    const unsubscribeFirst = client.subscribe('user.updated', jest.fn());
+    const unsubscribeSecond = client.subscribe('user.updated', jest.fn());
+    expect(connection.topics).toEqual(new Set(['user.updated']));
+
+    unsubscribeFirst();
+    expect(connection.topics.has('user.updated')).toBe(true);
+    unsubscribeSecond();
+    expect(connection.topics.size).toBe(0);
+    expect(connection.received).toEqual([
+      { type: 'subscribe', topics: ['user.updated'] },
+      { type: 'unsubscribe', topics: ['user.updated'] },
+    ]);
+  });
+
+  test('reconnects with exponential backoff and restores subscriptions', async () => {
+    jest.useFakeTimers({ doNotFake: ['queueMicrotask'] });
+    // Full jitter: wait the whole backoff
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    const { server, client } = start();
+    client.subscribe('notification', jest.fn());
+    client.connect();
+    await flush();
+
+    server.disconnectAll();
+    expect(client.getStatus()).toBe('reconnecting');
+
+    jest.advanceTimersByTime(REALTIME.RECONNECT_BASE_DELAY - 1);
+    expect(server.getConnections()).toHaveLength(0);
+    jest.advanceTimersByTime(1);
+    await flush();
+
+    expect(client.getStatus()).toBe('open');
+    expect(server.getConnections()[0].topics).toEqual(new Set(['notification']));
+  });
+
+  test('sends heartbeats and reconnects once the server stops answering', async () => {
+    jest.useFakeTimers({ doNotFake: ['queueMicrotask'] });
+    const { server, client } = start();
+    client.connect();
+    await flush();
+
+    // Pongs to the client's pings keep an idle connection alive
+    jest.advanceTimersByTime(REALTIME.HEARTBEAT_TIMEOUT_MS * 2);
+    expect(client.getStatus()).toBe('open');
+    expect(server.getConnections()[0].received).toContainEqual({ type: 'ping' });
+
+    server.silence();
+    jest.advanceTimersByTime(REALTIME.HEARTBEAT_TIMEOUT_MS);
+    expect(client.getStatus()).toBe('reconnecting');
+  });
+
+  test('falls back to SSE when WebSockets never connect', async () => {
+    jest.useFakeTimers({ doNotFake: ['queueMicrotask'] });
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const { server, client } = start({ blockWebSockets: true });
+    const notification = jest.fn();
+    client.subscribe('notification', notification);
+
+    client.connect();
+    for (let attempt = 0; attempt < REALTIME.WEBSOCKET_ATTEMPTS; attempt += 1) {
+      await flush();
+      jest.advanceTimersByTime(0);
+    }
+    await flush();
+
+    expect(client.getStatus()).toBe('open');
+    expect(client.getTransport()).toBe('sse');
+    expect(server.getConnections()).toMatchObject([
+      { transport: 'sse', token: 'token-1', topics: new Set(['notification']) },
+    ]);
+
+    // SSE is one-way: new topics take a new connection
+    client.subscribe('user.updated', jest.fn());
+    jest.advanceTimersByTime(0);
+    await flush();
+    expect(server.getConnections()[0].topics).toEqual(new Set(['notification', 'user.updated']));
+
+    server.publish('notification', { message: 'Hello' });
+    expect(notification).toHaveBeenCalledWith({ message: 'Hello' });
+  });
+
+  test('renews a rejected token and reconnects with the new one', async () => {
+    let token = 'expired';
+    const onUnauthorized = jest.fn(async () => {
+      token = 'renewed';
+    });
+    const { server, client } = start(
+      { isAuthorized: (value) => value === 'renewed' },
+      { getToken: () => token, onUnauthorized },
+    );
+
+    client.connect();
+    await flush();
+
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+    expect(client.getStatus()).toBe('open');
+    expect(server.getConnections()).toMatchObject([{ token: 'renewed' }]);
+  });
+
+  test('stays closed when the token cannot be renewed', async () => {
+    const { client } = start(
+      { isAuthorized: () => false },
+      { onUnauthorized: () => Promise.reject(new Error('No refresh token available')) },
+    );
+
+    client.connect();
+    await flush();
+
+    expect(client.getStatus()).toBe('closed');
+  });
+});
@@ -0,0 +1,382 @@
+// src/utils/realtimeClient.ts
+import { REALTIME } from '@constants/index';
+import { createLogger } from './logger';
+
+/**
+ * Reconnecting realtime client: a WebSocket, or Server-Sent Events where WebSockets
+ * can't connect (e.g. a proxy that drops upgrades).
+ *
+ * Protocol, JSON in both directions:
+ * - Connect to `<url>/ws` or `<url>/sse`, with the access token as `?access_token=`
+ *   (browsers can't send headers on either). SSE also gets its topics as `?topics=a,b`.
+ * - Client -> server (WebSocket only): `{ "type": "subscribe" | "unsubscribe", "topics": [...] }`
+ *   and `{ "type": "ping" }` every `REALTIME.HEARTBEAT_INTERVAL_MS`.
+ * - Server -> client: `{ "type": "event", "topic": "user.updated", "data": {...} }`, plus
+ *   `{ "type": "pong" }` or `{ "type": "ping" }` heartbeats. A connection that sends
+ *   nothing for `REALTIME.HEARTBEAT_TIMEOUT_MS` is treated as dead.
+ * - Closing a WebSocket with `REALTIME.UNAUTHORIZED_CLOSE_CODE` means the token was rejected.
+ *
+ * Dropped connections are retried with exponential backoff and full jitter, indefinitely,
+ * and right away when the browser comes back online. Subscriptions survive reconnects.
+ *
+ * The app's client, with its typed events, is `realtime` in services/realtime.ts.
+ */
+export type RealtimeStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export type RealtimeTransport = 'websocket' | 'sse';
+
+/** The parts of `WebSocket` the client uses */
+export interface RealtimeSocket {
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+/** The parts of `EventSource` the client uses */
+export interface RealtimeEventSource {
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  close(): void;
+}
+
+/** Constructors used to connect; swapped for fakes by the mock realtime server */
+export interface RealtimeTransports {
+  WebSocket?: new (url: string) => RealtimeSocket;
+  EventSource?: new (url: string) => RealtimeEventSource;
+}
+
+export interface RealtimeClientOptions {
+  /** Endpoint, as an absolute URL or same-origin path; the client stays idle while it is empty */
+  getUrl: () => string;
+  /** Read on every connect, so reconnects use the latest token */
+  getToken?: () => string | null;
+  /**
+   * Called when the server rejects the token. Resolve (e.g. after refreshing it) to
+   * reconnect; reject to stay closed.
+   */
+  onUnauthorized?: () => Promise<unknown>;
+  transports?: RealtimeTransports;
+}
+
+interface ServerMessage {
+  type: string;
+  topic?: string;
+  data?: unknown;
+}
+
+interface Connection {
+  transport: RealtimeTransport;
+  send: (message: object) => void;
+  close: () => void;
+}
+
+const log = createLogger('realtime');
+
+const defaultTransports = (): RealtimeTransports => ({
+  WebSocket: typeof WebSocket === 'undefined' ? undefined : WebSocket,
+  EventSource: typeof EventSource === 'undefined' ? undefined : EventSource,
+});
+
+/**
+ * Creates a client; `TEvents` maps each topic to the type of its events' data.
+ * Nothing connects until `connect()`.
+ */
+export const createRealtimeClient = <TEvents extends object>(options: RealtimeClientOptions) => {
+  type Topic = keyof TEvents & string;
+  type Listener = (data: never) => void;
+
+  const topicListeners = new Map<string, Set<Listener>>();
+  const statusListeners = new Set<() => void>();
+
+  let status: RealtimeStatus = 'idle';
+  let connection: Connection | null = null;
+  let isStarted = false;
+  let attempt = 0;
+  let failedWebSockets = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  let livenessTimer: ReturnType<typeof setTimeout> | undefined;
+  let resubscribeTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const setStatus = (next: RealtimeStatus) => {
+    if (next === status) return;
+    status = next;
+    statusListeners.forEach((listener) => listener());
+  };
+
+  const getTopics = () => Array.from(topicListeners.keys());
+
+  const buildUrl = (path: string, params: Record<string, string>) => {
+    const url = new URL(`${options.getUrl().replace(/\/$/, '')}${path}`, window.location.href);
+    const token = options.getToken?.();
+    if (token) url.searchParams.set('access_token', token);
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+    return url;
+  };
+
+  const stopTimers = () => {
+    clearTimeout(reconnectTimer);
+    clearInterval(heartbeatTimer);
+    clearTimeout(livenessTimer);
+    clearTimeout(resubscribeTimer);
+  };
+
+  // Closes the current connection; its handlers ignore everything from then on
+  const drop = () => {
+    const current = connection;
+    connection = null;
+    stopTimers();
+    current?.close();
+  };
+
+  const scheduleReconnect = () => {
+    if (!isStarted) return;
+    const backoff = Math.min(
+      REALTIME.RECONNECT_MAX_DELAY,
+      REALTIME.RECONNECT_BASE_DELAY * 2 ** attempt,
+    );
+    attempt += 1;
+    setStatus('reconnecting');
+    reconnectTimer = setTimeout(open, Math.random() * backoff);
+  };
+
+  // Any message proves the connection is alive
+  const keepAlive = () => {
+    clearTimeout(livenessTimer);
+    livenessTimer = setTimeout(() => {
+      log.warn('No heartbeat, reconnecting', { transport: connection?.transport });
+      drop();
+      scheduleReconnect();
+    }, REALTIME.HEARTBEAT_TIMEOUT_MS);
+  };
+
+  const handleOpen = () => {
+    attempt = 0;
+    setStatus('open');
+    keepAlive();
+  };
+
+  const handleMessage = (raw: unknown) => {
+    keepAlive();
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(String(raw)) as ServerMessage;
+    } catch {
+      log.warn('Ignored a malformed message', { raw });
+      return;
+    }
+    if (message.type !== 'event' || !message.topic) return;
+
+    topicListeners.get(message.topic)?.forEach((listener) => {
+      try {
+        (listener as (data: unknown) => void)(message.data);
+      } catch (error) {
+        // One failing listener must not keep the event from the others
+        log.error('Realtime listener failed', { topic: message.topic, error });
+      }
+    });
+  };
+
+  const handleUnauthorized = () => {
+    if (!options.onUnauthorized) {
+      isStarted = false;
+      setStatus('closed');
+      return;
+    }
+    setStatus('reconnecting');
+    options.onUnauthorized().then(
+      () => {
+        attempt = 0;
+        if (isStarted) open();
+      },
+      () => {
+        log.warn('Realtime token rejected, staying disconnected');
+        isStarted = false;
+        setStatus('closed');
+      },
+    );
+  };
+
+  const openWebSocket = (Socket: NonNullable<RealtimeTransports['WebSocket']>) => {
+    const url = buildUrl(REALTIME.WEBSOCKET_PATH, {});
+    url.protocol = url.protocol.replace(/^http/, 'ws');
+
+    const socket = new Socket(url.href);
+    let isOpened = false;
+    const current: Connection = {
+      transport: 'websocket',
+      send: (message) => socket.send(JSON.stringify(message)),
+      close: () => socket.close(),
+    };
+    connection = current;
+
+    socket.onopen = () => {
+      if (connection !== current) return;
+      isOpened = true;
+      failedWebSockets = 0;
+      handleOpen();
+      const topics = getTopics();
+      if (topics.length > 0) current.send({ type: 'subscribe', topics });
+      heartbeatTimer = setInterval(
+        () => current.send({ type: 'ping' }),
+        REALTIME.HEARTBEAT_INTERVAL_MS,
+      );
+    };
+    socket.onmessage = (event) => {
+      if (connection === current) handleMessage(event.data);
+    };
+    // Always followed by `close`, which decides what happens next
+    socket.onerror = () => {};
+    socket.onclose = (event) => {
+      if (connection !== current) return;
+      connection = null;
+      stopTimers();
+
+      if (event.code === REALTIME.UNAUTHORIZED_CLOSE_CODE) {
+        handleUnauthorized();
+        return;
+      }
+      if (!isOpened) failedWebSockets += 1;
+      log.info('Realtime connection closed', { code: event.code, opened: isOpened });
+      scheduleReconnect();
+    };
+  };
+
+  const openEventSource = (Source: NonNullable<RealtimeTransports['EventSource']>) => {
+    const url = buildUrl(REALTIME.SSE_PATH, { topics: getTopics().join(',') });
+    const source = new Source(url.href);
+    const current: Connection = {
+      transport: 'sse',
+      // One-way: subscriptions change by reconnecting with new topics
+      send: () => {},
+      close: () => source.close(),
+    };
+    connection = current;
+
+    source.onopen = () => {
+      if (connection === current) handleOpen();
+    };
+    source.onmessage = (event) => {
+      if (connection === current) handleMessage(event.data);
+    };
+    // EventSource would retry on its own, without backoff or a fresh token
+    source.onerror = () => {
+      if (connection !== current) return;
+      drop();
+      scheduleReconnect();
+    };
+  };
+
+  const open = () => {
+    drop();
+    if (!isStarted) return;
+    if (!options.getUrl()) {
+      setStatus('idle');
+      return;
+    }
+
+    const { WebSocket: Socket, EventSource: Source } = {
+      ...defaultTransports(),
+      ...client.transports,
+    };
+    const preferSse = Source && failedWebSockets >= REALTIME.WEBSOCKET_ATTEMPTS;
+    if (Socket && !preferSse) {
+      setStatus(attempt > 0 ? 'reconnecting' : 'connecting');
+      openWebSocket(Socket);
+    } else if (Source) {
+      if (Socket) log.info('WebSocket unavailable, falling back to SSE');
+      setStatus(attempt > 0 ? 'reconnecting' : 'connecting');
+      openEventSource(Source);
+    } else {
+      log.error('Neither WebSocket nor EventSource is available');
+      isStarted = false;
+      setStatus('closed');
+    }
+  };
+
+  const handleOnline = () => {
+    if (status !== 'reconnecting' || !isStarted) return;
+    attempt = 0;
+    open();
+  };
+
+  // WebSocket topics change in place; SSE reconnects once for a batch of changes
+  const updateServerTopics = (type: 'subscribe' | 'unsubscribe', topic: string) => {
+    if (status !== 'open' || !connection) return;
+    if (connection.transport === 'websocket') {
+      connection.send({ type, topics: [topic] });
+      return;
+    }
+    clearTimeout(resubscribeTimer);
+    resubscribeTimer = setTimeout(open, 0);
+  };
+
+  const client = {
+    /** Constructors used for new connections; the platform's by default */
+    transports: { ...options.transports } as RealtimeTransports,
+
+    connect() {
+      if (isStarted) return;
+      isStarted = true;
+      attempt = 0;
+      window.addEventListener('online', handleOnline);
+      open();
+    },
+
+    disconnect() {
+      isStarted = false;
+      window.removeEventListener('online', handleOnline);
+      drop();
+      setStatus('closed');
+    },
+
+    /** Reconnects now if connected or retrying, e.g. after the user changes */
+    reconnect() {
+      if (!isStarted) return;
+      attempt = 0;
+      open();
+    },
+
+    getStatus: (): RealtimeStatus => status,
+
+    getTransport: (): RealtimeTransport | null => connection?.transport ?? null,
+
+    onStatusChange(listener: () => void) {
+      statusListeners.add(listener);
+      return () => {
+        statusListeners.delete(listener);
+      };
+    },
+
+    /**
+     * Calls `listener` with the data of every event on `topic`; returns an unsubscribe
+     * function. The server is only asked for topics that have listeners.
+     */
+    subscribe<K extends Topic>(topic: K, listener: (data: TEvents[K]) => void) {
+      let listeners = topicListeners.get(topic);
+      if (!listeners) {
+        listeners = new Set();
+        topicListeners.set(topic, listeners);
+        updateServerTopics('subscribe', topic);
+      }
+      listeners.add(listener as Listener);
+
+      return () => {
+        const current = topicListeners.get(topic);
+        if (!current?.delete(listener as Listener) || current.size > 0) return;
+        topicListeners.delete(topic);
+        updateServerTopics('unsubscribe', topic);
+      };
+    },
+  };
+
+  return client;
+};
+
+export type RealtimeClient<TEvents extends object> = ReturnType<
+  typeof createRealtimeClient<TEvents>
+>;
@@ -0,0 +1,120 @@
+// src/utils/retry.test.ts
+import { AxiosError, AxiosHeaders, CanceledError, type InternalAxiosRequestConfig } from 'axios';
+import { API_ERROR_KIND } from '@constants/index';
+import api from './axiosInstance';
+import { getRetryDelay, isRetryable, resolveRetryOptions, type RetryOptions } from './retry';
+
+const options: RetryOptions = { retries: 3, baseDelay: 100, maxDelay: 1000 };
+
+const requestError = (
+  method: string,
+  response?: { status: number; headers?: Record<string, string> },
+) => {
+  const config = { method, headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+  return new AxiosError(
+    'Request failed',
+    response ? 'ERR_BAD_RESPONSE' : 'ERR_NETWORK',
+    config,
+    {},
+    response && { data: undefined, statusText: '', headers: {}, config, ...response },
+  );
+};
+
+describe('retry', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getRetryDelay', () => {
+    test('doubles the backoff on every attempt, up to maxDelay', () => {
+      // Full jitter: take the whole backoff
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+      const error = requestError('get');
+
+      expect([0, 1, 2, 3, 4].map((attempt) => getRetryDelay(error, attempt, options))).toEqual([
+        100, 200, 400, 800, 1000,
+      ]);
+    });
+
+    test('picks a random delay no longer than the backoff', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.25);
+
+      expect(getRetryDelay(requestError('get'), 2, options)).toBe(100);
+    });
+
+    test('waits as long as Retry-After says in seconds, within maxDelay', () => {
+      const error = (seconds: string) =>
+        requestError('get', { status: 429, headers: { 'retry-after': seconds } });
+
+      expect(getRetryDelay(error('0.5'), 0, options)).toBe(500);
+      expect(getRetryDelay(error('120'), 0, options)).toBe(1000);
+    });
+
+    test('waits until the HTTP date in Retry-After', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2024-05-01T11:59:30Z'));
+      const error = (date: string) =>
+        requestError('get', { status: 503, headers: { 'retry-after': date } });
+
+      expect(
+        getRetryDelay(error('Wed, 01 May 2024 12:00:00 GMT'), 0, { ...options, maxDelay: 60_000 }),
+      ).toBe(30_000);
+      // Already past
+      expect(getRetryDelay(error('Wed, 01 May 2024 11:00:00 GMT'), 0, options)).toBe(0);
+    });
+
+    test('falls back to the backoff when Retry-After is empty or invalid', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+
+      expect(
+        getRetryDelay(
+          requestError('get', { status: 429, headers: { 'retry-after': '' } }),
+          1,
+          options,
+        ),
+      ).toBe(200);
+      expect(
+        getRetryDelay(
+          requestError('get', { status: 503, headers: { 'retry-after': 'soon' } }),
+          1,
+          options,
+        ),
+      ).toBe(200);
+    });
+  });
+
+  describe('isRetryable', () => {
+    test('retries idempotent requests that failed for a transient reason', () => {
+      expect(isRetryable(requestError('get'))).toBe(true);
+      expect(isRetryable(requestError('put', { status: 503 }))).toBe(true);
+      expect(isRetryable(requestError('delete', { status: 429 }))).toBe(true);
+    });
+
+    test('skips non-idempotent methods', () => {
+      expect(isRetryable(requestError('post'))).toBe(false);
+      expect(isRetryable(requestError('patch', { status: 503 }))).toBe(false);
+    });
+
+    test('skips client errors and cancelled requests', () => {
+      expect(isRetryable(requestError('get', { status: 404 }))).toBe(false);
+      expect(isRetryable(new CanceledError())).toBe(false);
+    });
+  });
+
+  describe('opting out', () => {
+    test('resolves no options for retry: false', () => {
+      expect(resolveRetryOptions(false)).toBeNull();
+      expect(resolveRetryOptions({ retries: 1 })).toMatchObject({ retries: 1 });
+    });
+
+    test('sends a request with retry: false only once', async () => {
+      const adapter = jest.fn((config: InternalAxiosRequestConfig) =>
+        Promise.reject(new AxiosError('Network Error', 'ERR_NETWORK', config, {})),
+      );
+
+      await expect(api.get('/report', { adapter, retry: false })).rejects.toMatchObject({
+        kind: API_ERROR_KIND.NETWORK,
+      });
+      expect(adapter).toHaveBeenCalledTimes(1);
+    });
+  });
+});
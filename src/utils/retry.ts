@@ -0,0 +1,86 @@
+// src/utils/retry.ts
+import axios, { type AxiosError, type GenericAbortSignal } from 'axios';
+import { API_RETRY } from '@constants/index';
+
+export interface RetryOptions {
+  /** Maximum number of retries after the first attempt */
+  retries: number;
+  /** Base delay in ms for exponential backoff */
+  baseDelay: number;
+  /** Upper bound in ms for any single wait, including Retry-After */
+  maxDelay: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: API_RETRY.RETRIES,
+  baseDelay: API_RETRY.BASE_DELAY,
+  maxDelay: API_RETRY.MAX_DELAY,
+};
+
+/**
+ * Merges per-request retry config with the defaults.
+ * Returns null when the request opted out with `retry: false`.
+ */
+export const resolveRetryOptions = (
+  retry: false | Partial<RetryOptions> | undefined,
+): RetryOptions | null => (retry === false ? null : { ...DEFAULT_RETRY_OPTIONS, ...retry });
+
+const isIdempotent = (method: string | undefined) =>
+  (API_RETRY.METHODS as readonly string[]).includes((method ?? 'get').toLowerCase());
+
+/**
+ * A request is retried only when it is idempotent and failed for a
+ * transient reason: no response at all (network/timeout) or a retryable status.
+ * Cancelled requests are never retried.
+ */
+export const isRetryable = (error: AxiosError): boolean => {
+  if (axios.isCancel(error) || error.config?.signal?.aborted) return false;
+  if (!isIdempotent(error.config?.method)) return false;
+  if (!error.response) return true;
+  return (API_RETRY.STATUS_CODES as readonly number[]).includes(error.response.status);
+};
+
+// Retry-After is either a number of seconds or an HTTP date; an empty header counts as absent
+const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  if (typeof value === 'string' && value.trim() === '') return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Delay before retry number `attempt` (0-based).
+ * Honors Retry-After on 429/503, otherwise uses exponential backoff with full jitter.
+ */
+export const getRetryDelay = (error: AxiosError, attempt: number, options: RetryOptions) => {
+  const status = error.response?.status;
+  if (status === 429 || status === 503) {
+    const retryAfter = parseRetryAfter(error.response?.headers['retry-after']);
+    if (retryAfter !== null) return Math.min(retryAfter, options.maxDelay);
+  }
+
+  const backoff = Math.min(options.maxDelay, options.baseDelay * 2 ** attempt);
+  return Math.random() * backoff;
+};
+
+/** Resolves after `ms`, or as soon as `signal` aborts so a cancelled request isn't held up */
+export const wait = (ms: number, signal?: GenericAbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener?.(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
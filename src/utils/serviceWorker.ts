@@ -0,0 +1,95 @@
+// src/utils/serviceWorker.ts
+import { env } from '@config/env';
+import { OFFLINE } from '@constants/index';
+import { createLogger } from './logger';
+
+/**
+ * Registers the service worker that vite.prod.config.ts builds from src/serviceWorker/sw.ts.
+ * Production builds only: there is no sw.js in development.
+ *
+ * A new deploy installs in the background and then waits. Listeners of
+ * `onUpdateAvailable` are told (see <UpdatePrompt>), and `applyUpdate()` activates it
+ * and reloads the page, so a tab never mixes files from two builds.
+ */
+const log = createLogger('serviceWorker');
+
+type UpdateListener = () => void;
+const updateListeners = new Set<UpdateListener>();
+
+let waitingWorker: ServiceWorker | null = null;
+let updateRequested = false;
+
+const isSupported = () => 'serviceWorker' in navigator;
+
+const setWaiting = (worker: ServiceWorker) => {
+  waitingWorker = worker;
+  updateListeners.forEach((listener) => listener());
+};
+
+const watchForUpdates = (registration: ServiceWorkerRegistration) => {
+  // The first install has nothing to replace, so only workers that would take over
+  // from a running one (there is a controller) are announced
+  if (registration.waiting && navigator.serviceWorker.controller) {
+    setWaiting(registration.waiting);
+  }
+  registration.addEventListener('updatefound', () => {
+    const worker = registration.installing;
+    worker?.addEventListener('statechange', () => {
+      if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+        setWaiting(worker);
+      }
+    });
+  });
+};
+
+export const serviceWorker = {
+  /**
+   * Registers the worker; failures are logged and the app works as before, online only.
+   * The API base URL is passed along so the worker knows which GET calls to cache.
+   */
+  async register({ apiBaseUrl }: { apiBaseUrl: string }) {
+    if (!env.PROD || !isSupported()) return;
+
+    const api = new URL(apiBaseUrl, window.location.origin).href;
+    const url = `${env.BASE_URL}${OFFLINE.SERVICE_WORKER_URL}?api=${encodeURIComponent(api)}`;
+    try {
+      const registration = await navigator.serviceWorker.register(url, { scope: env.BASE_URL });
+      watchForUpdates(registration);
+
+      // The new worker took over after `applyUpdate()`: load the new build
+      navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (updateRequested) window.location.reload();
+      });
+      // Browsers check on navigation; a tab left open checks here
+      setInterval(() => {
+        registration.update().catch(() => {
+          // Offline; try again next time
+        });
+      }, OFFLINE.UPDATE_CHECK_INTERVAL_MS);
+    } catch (error) {
+      log.warn('Service worker registration failed', { error });
+    }
+  },
+
+  isUpdateAvailable: () => waitingWorker !== null,
+
+  onUpdateAvailable(listener: UpdateListener) {
+    updateListeners.add(listener);
+    return () => {
+      updateListeners.delete(listener);
+    };
+  },
+
+  /** Activates the waiting worker; the page reloads once it has taken over */
+  applyUpdate() {
+    if (!waitingWorker) return;
+    updateRequested = true;
+    waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+  },
+
+  /** Drops cached API responses, e.g. on sign-out, so they can't be read offline */
+  clearRuntimeCache() {
+    if (!isSupported()) return;
+    navigator.serviceWorker.controller?.postMessage({ type: 'CLEAR_RUNTIME_CACHE' });
+  },
+};
@@ -0,0 +1,149 @@
+// src/utils/telemetry.test.ts
+import { TELEMETRY } from '@constants/index';
+import { reportError } from './errorReporter';
+import { createLogger } from './logger';
+import { telemetry } from './telemetry';
+
+const mockConfig = { telemetryEndpoint: '/api/telemetry' };
+
+jest.mock('@config/appConfig', () => ({
+  getConfig: () => mockConfig,
+}));
+
+const fetchMock = jest.fn();
+const sendBeaconMock = jest.fn();
+
+const sentEvents = (call = 0) =>
+  JSON.parse(fetchMock.mock.calls[call][1].body as string).events as {
+    type: string;
+    data: Record<string, unknown>;
+  }[];
+
+describe('telemetry', () => {
+  let stop: () => void;
+
+  beforeAll(() => {
+    Object.assign(globalThis, { fetch: fetchMock });
+    Object.assign(navigator, { sendBeacon: sendBeaconMock });
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset().mockResolvedValue({ ok: true, status: 200 });
+    sendBeaconMock.mockReset().mockReturnValue(true);
+    localStorage.clear();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    stop?.();
+    jest.restoreAllMocks();
+  });
+
+  test('runs only while enabled, starting and stopping as that changes', async () => {
+    let enabled = false;
+    let notify = () => {};
+    stop = telemetry.follow(
+      () => enabled,
+      (listener) => {
+        notify = listener;
+        return () => {};
+      },
+    );
+
+    telemetry.track('error', { message: 'ignored' });
+    await telemetry.flush();
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    // e.g. remote flag rules arrive and switch it on
+    enabled = true;
+    notify();
+    telemetry.track('error', { message: 'collected' });
+    await telemetry.flush();
+    expect(sentEvents()).toMatchObject([{ data: { message: 'collected' } }]);
+
+    enabled = false;
+    notify();
+    telemetry.track('error', { message: 'ignored again' });
+    await telemetry.flush();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('sends a full batch as soon as it fills up', async () => {
+    stop = telemetry.init();
+
+    for (let i = 0; i < TELEMETRY.BATCH_SIZE; i += 1) {
+      telemetry.track('error', { message: `error ${i}` });
+    }
+    await Promise.resolve();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith('/api/telemetry', expect.anything());
+    expect(sentEvents()).toHaveLength(TELEMETRY.BATCH_SIZE);
+  });
+
+  test('collects errors passed to reportError', async () => {
+    stop = telemetry.init();
+
+    reportError(new Error('Render failed'), { source: 'ErrorBoundary' });
+    await telemetry.flush();
+
+    expect(sentEvents().find(({ type }) => type === 'error')).toMatchObject({
+      data: { message: 'Render failed', source: 'ErrorBoundary' },
+    });
+  });
+
+  test('sends logged warnings and errors', async () => {
+    stop = telemetry.init();
+    const log = createLogger('checkout');
+
+    log.info('Cart opened');
+    log.warn('Coupon expired', { code: 'SPRING' });
+    log.error('Payment failed', { error: new Error('Card declined') });
+    await telemetry.flush();
+
+    expect(sentEvents()).toMatchObject([
+      { type: 'log', data: { level: 'warn', namespace: 'checkout', message: 'Coupon expired' } },
+      {
+        type: 'log',
+        data: {
+          level: 'error',
+          message: 'Payment failed',
+          context: { error: { name: 'Error', message: 'Card declined' } },
+        },
+      },
+    ]);
+
+    // Stopping telemetry removes the transport
+    stop();
+    log.error('Not sent');
+    await telemetry.flush();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('queues undelivered batches and retries them when back online', async () => {
+    stop = telemetry.init();
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    telemetry.track('error', { message: 'offline' });
+    await telemetry.flush();
+
+    expect(JSON.parse(localStorage.getItem(TELEMETRY.QUEUE_STORAGE_KEY)!)).toHaveLength(1);
+
+    window.dispatchEvent(new Event('online'));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sentEvents(1)[0]).toMatchObject({ data: { message: 'offline' } });
+    expect(localStorage.getItem(TELEMETRY.QUEUE_STORAGE_KEY)).toBeNull();
+  });
+
+  test('uses sendBeacon for buffered events when the page is hidden', () => {
+    stop = telemetry.init();
+
+    telemetry.track('web-vital', { name: 'LCP', value: 1200 });
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(sendBeaconMock).toHaveBeenCalledWith('/api/telemetry', expect.any(Blob));
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,300 @@
+// src/utils/telemetry.ts
+import { getConfig } from '@config/appConfig';
+import { TELEMETRY } from '@constants/index';
+import { isApiError } from './apiError';
+import { onRequestFailed } from './axiosInstance';
+import { onErrorReported } from './errorReporter';
+import { addLogTransport, logBuffer, withMinLevel, type LogEntry } from './logger';
+import { observeWebVitals } from './webVitals';
+
+/**
+ * Client-side error and performance telemetry, enabled by the `ENABLE_ANALYTICS` feature
+ * flag (which defaults to `VITE_ENABLE_ANALYTICS`; see `follow` and main.tsx).
+ *
+ * Collects uncaught errors, unhandled rejections, errors passed to `reportError`,
+ * failed API requests, logged warnings and errors, and Core Web Vitals. Events are batched and POSTed to
+ * `telemetryEndpoint`; whatever is left when the page is hidden goes out with
+ * `sendBeacon`. Batches that can't be delivered are kept in localStorage and
+ * retried when the browser comes back online or on the next page load.
+ *
+ * Sending uses `fetch` directly, never the shared axios instance, so telemetry
+ * can't report its own failures in a loop.
+ */
+export type TelemetryEventType =
+  | 'error'
+  | 'unhandled-rejection'
+  | 'request-failed'
+  | 'log'
+  | 'web-vital';
+
+export interface TelemetryEvent {
+  type: TelemetryEventType;
+  timestamp: number;
+  /** Path of the page the event happened on, without query string */
+  page: string;
+  /** Random per-load id that groups events from one page view */
+  sessionId: string;
+  data: Record<string, unknown>;
+}
+
+const sessionId = Math.random().toString(36).slice(2, 12);
+
+// Null while telemetry is disabled; every entry point checks it
+let endpoint: string | null = null;
+let buffer: TelemetryEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let isRetrying = false;
+
+const stripQuery = (url: string) => url.split(/[?#]/)[0];
+
+const serializeError = (error: unknown): Record<string, unknown> => {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  if (isApiError(error)) {
+    return { name: error.name, message: error.message, kind: error.kind, status: error.status };
+  }
+  return { message: String(error) };
+};
+
+const serializeLogEntry = ({ level, namespace, message, timestamp, context }: LogEntry) => ({
+  level,
+  namespace,
+  message,
+  timestamp,
+  context: Object.fromEntries(
+    Object.entries(context).map(([key, value]) => [
+      key,
+      value instanceof Error ? serializeError(value) : value,
+    ]),
+  ),
+});
+
+// Recent log entries sent along with errors, to show what led up to them
+const getBreadcrumbs = () => logBuffer.entries().map(serializeLogEntry);
+
+// === Offline Queue ===
+// Undelivered events, oldest first. Capped so a long outage can't fill the storage quota.
+
+const readQueue = (): TelemetryEvent[] => {
+  try {
+    const raw = localStorage.getItem(TELEMETRY.QUEUE_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as TelemetryEvent[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeQueue = (events: TelemetryEvent[]) => {
+  try {
+    if (events.length === 0) {
+      localStorage.removeItem(TELEMETRY.QUEUE_STORAGE_KEY);
+    } else {
+      const capped = events.slice(-TELEMETRY.MAX_QUEUED_EVENTS);
+      localStorage.setItem(TELEMETRY.QUEUE_STORAGE_KEY, JSON.stringify(capped));
+    }
+  } catch {
+    // Storage full or unavailable: dropping telemetry is better than breaking the app
+  }
+};
+
+const enqueueOffline = (events: TelemetryEvent[]) => writeQueue([...readQueue(), ...events]);
+
+// === Transport ===
+
+const clearFlushTimer = () => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+};
+
+const takeBuffer = () => {
+  clearFlushTimer();
+  const batch = buffer;
+  buffer = [];
+  return batch;
+};
+
+// Resolves to true when the batch needs no retry. Rejected payloads (4xx) are
+// dropped, since sending them again would fail the same way.
+const send = async (events: TelemetryEvent[]): Promise<boolean> => {
+  if (!endpoint || !navigator.onLine) return false;
+  try {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ events }),
+      keepalive: true,
+    });
+    const isTransient = response.status === 408 || response.status === 429;
+    return response.ok || (response.status < 500 && !isTransient);
+  } catch {
+    return false;
+  }
+};
+
+const retryQueued = async () => {
+  if (isRetrying) return;
+  const queued = readQueue();
+  if (queued.length === 0) return;
+
+  isRetrying = true;
+  // Take the whole queue up front so events tracked meanwhile aren't lost or sent twice
+  writeQueue([]);
+  try {
+    for (let start = 0; start < queued.length; start += TELEMETRY.BATCH_SIZE) {
+      if (!(await send(queued.slice(start, start + TELEMETRY.BATCH_SIZE)))) {
+        enqueueOffline(queued.slice(start));
+        break;
+      }
+    }
+  } finally {
+    isRetrying = false;
+  }
+};
+
+const flush = async () => {
+  const batch = takeBuffer();
+  if (batch.length === 0) return;
+
+  if (await send(batch)) {
+    await retryQueued();
+  } else {
+    enqueueOffline(batch);
+  }
+};
+
+// fetch may be cancelled while the page unloads; sendBeacon is guaranteed to be queued
+const flushWithBeacon = () => {
+  const batch = takeBuffer();
+  if (!endpoint || batch.length === 0) return;
+
+  const body = new Blob([JSON.stringify({ events: batch })], { type: 'application/json' });
+  if (!navigator.sendBeacon?.(endpoint, body)) {
+    enqueueOffline(batch);
+  }
+};
+
+const track = (type: TelemetryEventType, data: Record<string, unknown>) => {
+  if (!endpoint) return;
+
+  buffer.push({ type, timestamp: Date.now(), page: window.location.pathname, sessionId, data });
+  if (buffer.length >= TELEMETRY.BATCH_SIZE) {
+    void flush();
+  } else {
+    flushTimer ??= setTimeout(() => void flush(), TELEMETRY.FLUSH_INTERVAL_MS);
+  }
+};
+
+export const telemetry = {
+  /**
+   * Starts collecting; a no-op while already started. Call after `loadConfig`, or let
+   * `follow` decide when. Returns a function that stops collection.
+   */
+  init(): () => void {
+    const { telemetryEndpoint } = getConfig();
+    if (endpoint) return () => {};
+    endpoint = telemetryEndpoint;
+
+    // Resource load errors don't bubble, so only script errors reach this listener
+    const handleError = (event: ErrorEvent) => {
+      track('error', {
+        ...serializeError(event.error ?? event.message),
+        source: stripQuery(event.filename ?? ''),
+        line: event.lineno,
+        column: event.colno,
+        breadcrumbs: getBreadcrumbs(),
+      });
+    };
+    const handleRejection = (event: PromiseRejectionEvent) => {
+      track('unhandled-rejection', {
+        ...serializeError(event.reason),
+        breadcrumbs: getBreadcrumbs(),
+      });
+    };
+    const handleOnline = () => void retryQueued();
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushWithBeacon();
+    };
+
+    const unsubscribers = [
+      onErrorReported(({ error, source, componentStack, apiError }) => {
+        track('error', {
+          ...serializeError(error),
+          ...(apiError && { kind: apiError.kind, status: apiError.status }),
+          source,
+          componentStack,
+          breadcrumbs: getBreadcrumbs(),
+        });
+      }),
+      onRequestFailed(({ requestId, method, url, duration, retries, error }) => {
+        track('request-failed', {
+          requestId,
+          method,
+          url: stripQuery(url),
+          duration,
+          retries,
+          kind: error.kind,
+          status: error.status,
+          message: error.message,
+        });
+      }),
+      // The remote log transport: sending uses fetch, so it can't log its own failures
+      addLogTransport(withMinLevel('warn', (entry) => track('log', serializeLogEntry(entry)))),
+      observeWebVitals((metric) => track('web-vital', { ...metric })),
+    ];
+
+    // Registered after the web vitals observer, so final vitals are in the beacon
+    window.addEventListener('error', handleError);
+    window.addEventListener('unhandledrejection', handleRejection);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('pagehide', flushWithBeacon);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    // Deliver anything left over from a previous visit
+    void retryQueued();
+
+    return () => {
+      window.removeEventListener('error', handleError);
+      window.removeEventListener('unhandledrejection', handleRejection);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('pagehide', flushWithBeacon);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      takeBuffer();
+      endpoint = null;
+    };
+  },
+
+  /**
+   * Runs telemetry while `isEnabled()` is true, checking again whenever `subscribe`
+   * reports a change, e.g. when feature flag rules load. Returns a function that stops it.
+   */
+  follow(isEnabled: () => boolean, subscribe: (listener: () => void) => () => void) {
+    let stop: (() => void) | null = null;
+    const sync = () => {
+      if (isEnabled() === Boolean(stop)) return;
+      if (stop) {
+        stop();
+        stop = null;
+      } else {
+        stop = telemetry.init();
+      }
+    };
+
+    sync();
+    const unsubscribe = subscribe(sync);
+    return () => {
+      unsubscribe();
+      stop?.();
+      stop = null;
+    };
+  },
+
+  /** Records a custom event; ignored while telemetry is disabled */
+  track,
+
+  /** Sends buffered events now instead of waiting for the batch to fill */
+  flush,
+};
@@ -0,0 +1,29 @@
+// src/utils/tokenStorage.ts
+import { AUTH_STORAGE_KEYS } from '@constants/index';
+
+/**
+ * Thin wrapper around localStorage for the access/refresh token pair.
+ * Keeps the storage keys in one place so the axios interceptors and
+ * auth code always read and write the same entries.
+ */
+export const tokenStorage = {
+  getAccessToken(): string | null {
+    return localStorage.getItem(AUTH_STORAGE_KEYS.ACCESS_TOKEN);
+  },
+
+  getRefreshToken(): string | null {
+    return localStorage.getItem(AUTH_STORAGE_KEYS.REFRESH_TOKEN);
+  },
+
+  setTokens(accessToken: string, refreshToken?: string | null): void {
+    localStorage.setItem(AUTH_STORAGE_KEYS.ACCESS_TOKEN, accessToken);
+    if (refreshToken) {
+      localStorage.setItem(AUTH_STORAGE_KEYS.REFRESH_TOKEN, refreshToken);
+    }
+  },
+
+  clearTokens(): void {
+    localStorage.removeItem(AUTH_STORAGE_KEYS.ACCESS_TOKEN);
+    localStorage.removeItem(AUTH_STORAGE_KEYS.REFRESH_TOKEN);
+  },
+};
@@ -0,0 +1,97 @@
+// src/utils/validation.ts
+import { translate } from '@i18n/translator';
+
+/**
+ * Field validators for `useForm` schemas.
+ *
+ * A validator returns an error message, or `undefined` when the value is valid. It
+ * may return a promise for checks that need the server (e.g. "username taken").
+ * A field's validators run in order and stop at the first error. Default messages
+ * come from the catalogs, in the locale active when the validator is created.
+ *
+ * @example
+ * const schema: ValidationSchema<SignupValues> = {
+ *   email: [required(), email()],
+ *   password: [required(), minLength(8)],
+ *   confirmPassword: matches('password', 'Passwords do not match'),
+ *   username: [required(), async (value) => (await isTaken(value) ? 'Already taken' : undefined)],
+ * };
+ */
+export type ValidationResult = string | undefined;
+
+export type Validator<TValue = unknown, TValues = unknown> = (
+  value: TValue,
+  values: TValues,
+) => ValidationResult | Promise<ValidationResult>;
+
+export type ValidationSchema<TValues> = {
+  [K in keyof TValues]?: Validator<TValues[K], TValues> | Validator<TValues[K], TValues>[];
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === false ||
+  (typeof value === 'string' && value.trim() === '');
+
+// === Validators ===
+// All except `required` accept empty values, so optional fields can still be checked.
+
+/** Fails on empty strings, unchecked checkboxes and missing values */
+export const required =
+  (message = translate('validation.required')): Validator =>
+  (value) =>
+    isEmpty(value) ? message : undefined;
+
+export const minLength =
+  (length: number, message = translate('validation.minLength', { length })): Validator<string> =>
+  (value) =>
+    value && value.length < length ? message : undefined;
+
+export const maxLength =
+  (length: number, message = translate('validation.maxLength', { length })): Validator<string> =>
+  (value) =>
+    value && value.length > length ? message : undefined;
+
+export const pattern =
+  (regex: RegExp, message = translate('validation.pattern')): Validator<string> =>
+  (value) =>
+    value && !regex.test(value) ? message : undefined;
+
+export const email = (message = translate('validation.email')) => pattern(EMAIL_PATTERN, message);
+
+/** Fails unless the value equals another field's, e.g. a password confirmation */
+export const matches =
+  (field: string, message = translate('validation.matches')): Validator<unknown, object> =>
+  (value, values) =>
+    value !== (values as Record<string, unknown>)[field] ? message : undefined;
+
+// === Running ===
+
+/**
+ * Runs validators in order and returns the first error. Stays synchronous until a
+ * validator returns a promise, so purely sync fields show errors without a render delay.
+ */
+export const runValidators = <TValue, TValues>(
+  validators: Validator<TValue, TValues> | Validator<TValue, TValues>[] | undefined,
+  value: TValue,
+  values: TValues,
+): ValidationResult | Promise<ValidationResult> => {
+  const list =
+    validators === undefined ? [] : Array.isArray(validators) ? validators : [validators];
+
+  const runFrom = (start: number): ValidationResult | Promise<ValidationResult> => {
+    for (let index = start; index < list.length; index += 1) {
+      const result = list[index](value, values);
+      if (result instanceof Promise) {
+        return result.then((message) => message || runFrom(index + 1));
+      }
+      if (result) return result;
+    }
+    return undefined;
+  };
+
+  return runFrom(0);
+};
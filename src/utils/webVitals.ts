@@ -0,0 +1,137 @@
+// src/utils/webVitals.ts
+
+/**
+ * Minimal Core Web Vitals collection on top of PerformanceObserver.
+ *
+ * - FCP and TTFB are reported as soon as they are known
+ * - LCP, CLS and INP keep changing while the page is used, so they are
+ *   reported once, the first time the page is hidden
+ *
+ * Browsers without support for an entry type simply don't report that metric.
+ */
+export type WebVitalName = 'CLS' | 'FCP' | 'INP' | 'LCP' | 'TTFB';
+export type WebVitalRating = 'good' | 'needs-improvement' | 'poor';
+
+export interface WebVital {
+  name: WebVitalName;
+  value: number;
+  rating: WebVitalRating;
+}
+
+// [good, poor] boundaries from web.dev
+const THRESHOLDS: Record<WebVitalName, [number, number]> = {
+  CLS: [0.1, 0.25],
+  FCP: [1800, 3000],
+  INP: [200, 500],
+  LCP: [2500, 4000],
+  TTFB: [800, 1800],
+};
+
+const rate = (name: WebVitalName, value: number): WebVitalRating => {
+  const [good, poor] = THRESHOLDS[name];
+  if (value <= good) return 'good';
+  return value <= poor ? 'needs-improvement' : 'poor';
+};
+
+// Not in every TS lib version; only the fields used below
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+}
+
+interface EventTimingEntry extends PerformanceEntry {
+  interactionId?: number;
+}
+
+const observe = (
+  type: string,
+  callback: (entries: PerformanceEntry[]) => void,
+  options: Record<string, unknown> = {},
+): PerformanceObserver | null => {
+  if (
+    typeof PerformanceObserver === 'undefined' ||
+    !PerformanceObserver.supportedEntryTypes?.includes(type)
+  ) {
+    return null;
+  }
+  const observer = new PerformanceObserver((list) => callback(list.getEntries()));
+  observer.observe({ type, buffered: true, ...options } as PerformanceObserverInit);
+  return observer;
+};
+
+/** Starts collecting Core Web Vitals. Returns a function that stops collection. */
+export const observeWebVitals = (report: (metric: WebVital) => void) => {
+  const send = (name: WebVitalName, value: number) =>
+    report({ name, value, rating: rate(name, value) });
+
+  const navigation = performance.getEntriesByType?.('navigation')[0] as
+    | PerformanceNavigationTiming
+    | undefined;
+  if (navigation && navigation.responseStart > 0) {
+    send('TTFB', navigation.responseStart);
+  }
+
+  const fcpObserver = observe('paint', (entries) => {
+    const fcp = entries.find((entry) => entry.name === 'first-contentful-paint');
+    if (fcp) {
+      send('FCP', fcp.startTime);
+      fcpObserver?.disconnect();
+    }
+  });
+
+  let lcp = 0;
+  const lcpObserver = observe('largest-contentful-paint', (entries) => {
+    lcp = entries[entries.length - 1]?.startTime ?? lcp;
+  });
+
+  // CLS is the largest burst of shifts: gaps under 1s, at most 5s long
+  let cls = 0;
+  let sessionValue = 0;
+  let sessionStart = 0;
+  let sessionEnd = 0;
+  const clsObserver = observe('layout-shift', (entries) => {
+    (entries as LayoutShiftEntry[]).forEach((entry) => {
+      if (entry.hadRecentInput) return;
+
+      if (entry.startTime - sessionEnd < 1000 && entry.startTime - sessionStart < 5000) {
+        sessionValue += entry.value;
+      } else {
+        sessionValue = entry.value;
+        sessionStart = entry.startTime;
+      }
+      sessionEnd = entry.startTime;
+      cls = Math.max(cls, sessionValue);
+    });
+  });
+
+  // INP is approximated by the slowest interaction
+  let inp = -1;
+  const inpObserver = observe(
+    'event',
+    (entries) => {
+      (entries as EventTimingEntry[]).forEach((entry) => {
+        if (entry.interactionId) inp = Math.max(inp, entry.duration);
+      });
+    },
+    { durationThreshold: 40 },
+  );
+
+  const observers = [fcpObserver, lcpObserver, clsObserver, inpObserver];
+  let reported = false;
+
+  const reportFinal = () => {
+    if (document.visibilityState !== 'hidden' || reported) return;
+    reported = true;
+
+    if (lcpObserver && lcp > 0) send('LCP', lcp);
+    if (clsObserver) send('CLS', cls);
+    if (inpObserver && inp >= 0) send('INP', inp);
+  };
+
+  document.addEventListener('visibilitychange', reportFinal);
+
+  return () => {
+    document.removeEventListener('visibilitychange', reportFinal);
+    observers.forEach((observer) => observer?.disconnect());
+  };
+};
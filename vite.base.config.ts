@@ -18,6 +18,9 @@ export default defineConfig({
       '@styles': path.resolve(__dirname, 'src/assets/styles'),
       '@assets': path.resolve(__dirname, 'src/assets'),
       '@router': path.resolve(__dirname, 'src/router'),
+      '@config': path.resolve(__dirname, 'src/config'),
+      '@i18n': path.resolve(__dirname, 'src/i18n'),
+      '@mocks': path.resolve(__dirname, 'src/mocks'),
       '@types': path.resolve(__dirname, 'src/types'),
     },
   },
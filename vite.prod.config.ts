@@ -1,26 +1,78 @@
 // vite.prod.config.ts
-import { defineConfig, mergeConfig } from 'vite';
+import { createHash } from 'node:crypto';
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'path';
+import { defineConfig, mergeConfig, transformWithEsbuild, type Manifest, type Plugin } from 'vite';
 import base from './vite.base.config';
 
+// Compiles src/serviceWorker/sw.ts to dist/sw.js once the bundle is written, prefixed with
+// the files to precache: index.html plus every file in the Vite manifest. Their hashes
+// change with their content, so a new deploy changes sw.js and browsers offer the update.
+
+const serviceWorker = (): Plugin => {
+  let outDir = '';
+  let publicBase = '/';
+
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+      publicBase = config.base;
+    },
+    async writeBundle() {
+      const manifestPath = path.join(outDir, '.vite/manifest.json');
+      const manifest = JSON.parse(await readFile(manifestPath, 'utf8')) as Manifest;
+      // Only needed here; not worth serving
+      await rm(path.join(outDir, '.vite'), { recursive: true, force: true });
+
+      const files = new Set(['index.html']);
+      Object.values(manifest).forEach((chunk) => {
+        [chunk.file, ...(chunk.css ?? []), ...(chunk.assets ?? [])].forEach((file) =>
+          files.add(file),
+        );
+      });
+      const precache = Array.from(files)
+        .sort()
+        .map((file) => `${publicBase}${file}`);
+      const version = createHash('sha256').update(precache.join('\n')).digest('hex').slice(0, 12);
+
+      const source = await readFile(path.resolve(__dirname, 'src/serviceWorker/sw.ts'), 'utf8');
+      const { code } = await transformWithEsbuild(source, 'sw.ts', {
+        format: 'iife',
+        target: 'es2020',
+        minify: true,
+      });
+      const swManifest = JSON.stringify({ version, base: publicBase, precache });
+      await writeFile(path.join(outDir, 'sw.js'), `var __SW_MANIFEST=${swManifest};\n${code}`);
+    },
+  };
+};
+
 export default mergeConfig(
   base,
   defineConfig({
+    plugins: [serviceWorker()],
     build: {
       minify: 'terser',
       chunkSizeWarningLimit: 500,
+      // Read by the service-worker plugin above to list the files to precache
+      manifest: true,
 
+      // Console output is not stripped: src/utils/logger.ts decides what reaches the
+      // console (warnings and errors in production) and what goes to telemetry.
       terserOptions: {
         compress: {
-          drop_console: true,
+          drop_debugger: true,
         },
       },
 
       rollupOptions: {
         output: {
+          // Pages are split automatically by the lazy imports in src/router/routes.ts;
+          // only long-lived third-party code is grouped so it stays cached across deploys.
           manualChunks: {
             vendor: ['react', 'react-dom', 'react-router-dom', '@reduxjs/toolkit', 'react-redux'],
-
-            store: ['src/store/store.ts', 'src/store/slices/counterSlice.ts'],
           },
 
           chunkFileNames: 'assets/[name]-[hash].js',